@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import '../setup.js';
+
+import { runCacheCommand, summarizeCacheExport } from '../../cli/cache.js';
+import { CliUsageError } from '../../cli/call.js';
+import { RequestCache } from '../../utils/cache.js';
+
+describe('runCacheCommand', () => {
+  let dir: string;
+  let cache: RequestCache;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'exa-mcp-cache-cli-'));
+    cache = new RequestCache({ enabled: true, maxSize: 10, ttlMinutes: 1 });
+    cache.set('/search', { query: 'a' }, { results: ['a'] }, { tool: 'exa_search' });
+    cache.set('/search', { query: 'b' }, { results: ['b'] }, { tool: 'exa_search' });
+    cache.set('/contents', { urls: ['https://c.com'] }, { results: [] });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should summarize entries by endpoint and tool', () => {
+    expect(summarizeCacheExport(cache.export())).toEqual({
+      entries: 3,
+      bytes: 48,
+      endpoints: { '/search': { entries: 2, bytes: 34 }, '/contents': { entries: 1, bytes: 14 } },
+      tools: { exa_search: { entries: 2, bytes: 34 } }
+    });
+    expect(runCacheCommand('stats', cache).output).toBe([
+      'Entries: 3 (48 bytes)',
+      'By endpoint:',
+      '- /contents: 1 entries (14 bytes)',
+      '- /search: 2 entries (34 bytes)',
+      'By tool:',
+      '- exa_search: 2 entries (34 bytes)'
+    ].join('\n'));
+  });
+
+  it('should export to a file and import it into another cache', () => {
+    const file = path.join(dir, 'seed.json');
+    expect(runCacheCommand('export', cache, { file })).toEqual({ output: `Exported 3 cached responses to ${file}`, exitCode: 0 });
+
+    const other = new RequestCache({ enabled: true, maxSize: 10, ttlMinutes: 1 });
+    expect(runCacheCommand('import', other, { file }).output).toBe('Imported 3 of 3 cached responses (expired ones are skipped)');
+    expect(other.get('/search', { query: 'b' })).toEqual({ results: ['b'] });
+  });
+
+  it('should print exports without a file', () => {
+    expect(JSON.parse(runCacheCommand('export', cache, { file: '-' }).output).entries).toHaveLength(3);
+  });
+
+  it('should invalidate and clear', () => {
+    expect(runCacheCommand('invalidate', cache, { filter: { tool: 'exa_search', query: 'a' } }).output).toBe('Invalidated 1 cached response');
+    expect(runCacheCommand('clear', cache).output).toBe('Cache cleared');
+    expect(cache.getStats().size).toBe(0);
+  });
+
+  it('should reject missing criteria, missing files and invalid exports', () => {
+    const file = path.join(dir, 'bad.json');
+    fs.writeFileSync(file, '{"version":2}');
+
+    expect(() => runCacheCommand('invalidate', cache, { filter: { tool: undefined } })).toThrow(CliUsageError);
+    expect(() => runCacheCommand('import', cache)).toThrow(CliUsageError);
+    expect(() => runCacheCommand('import', cache, { file: path.join(dir, 'missing.json') })).toThrow('Cannot read');
+    expect(() => runCacheCommand('import', cache, { file })).toThrow('Not a cache export');
+  });
+});
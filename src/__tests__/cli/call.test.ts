@@ -0,0 +1,92 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { z } from 'zod';
+import '../setup.js';
+
+import { CliUsageError, formatToolResult, parseToolArguments, runToolCall } from '../../cli/call.js';
+import { ToolRegistry, ToolResult } from '../../tools/config.js';
+
+function fakeTool(result: ToolResult): ToolRegistry & { handler: jest.Mock<ToolRegistry['handler']> } {
+  return {
+    name: 'fake_tool',
+    description: 'Fake tool',
+    schema: z.object({ query: z.string() }),
+    enabled: false,
+    handler: jest.fn<ToolRegistry['handler']>().mockResolvedValue(result)
+  };
+}
+
+describe('parseToolArguments', () => {
+  it('should parse --args JSON', () => {
+    expect(parseToolArguments('{"query":"test","numResults":3}')).toEqual({ query: 'test', numResults: 3 });
+  });
+
+  it('should parse --arg values as JSON when possible', () => {
+    expect(parseToolArguments(undefined, [
+      'query=hello world',
+      'numResults=5',
+      'livecrawl=true',
+      'includeDomains=["a.com","b.com"]',
+      'expr=a=b'
+    ])).toEqual({
+      query: 'hello world',
+      numResults: 5,
+      livecrawl: true,
+      includeDomains: ['a.com', 'b.com'],
+      expr: 'a=b'
+    });
+  });
+
+  it('should let --arg override --args and collect repeated keys', () => {
+    expect(parseToolArguments('{"query":"old","numResults":1}', ['query=new', 'urls=a', 'urls=b'])).toEqual({
+      query: 'new',
+      numResults: 1,
+      urls: ['a', 'b']
+    });
+  });
+
+  it('should reject malformed input', () => {
+    expect(() => parseToolArguments('{bad')).toThrow(CliUsageError);
+    expect(() => parseToolArguments('[1,2]')).toThrow('--args must be a JSON object');
+    expect(() => parseToolArguments(undefined, ['novalue'])).toThrow('--arg must look like key=value');
+    expect(() => parseToolArguments(undefined, ['=value'])).toThrow(CliUsageError);
+  });
+});
+
+describe('formatToolResult', () => {
+  const result: ToolResult = {
+    content: [{ type: 'text', text: 'first' }, { type: 'text', text: 'second' }],
+    structuredContent: { results: [] }
+  };
+
+  it('should join text content', () => {
+    expect(formatToolResult(result)).toBe('first\nsecond');
+  });
+
+  it('should print the full result as JSON', () => {
+    expect(JSON.parse(formatToolResult(result, true))).toEqual(result);
+  });
+});
+
+describe('runToolCall', () => {
+  it('should run the handler and exit 0 on success', async () => {
+    const tool = fakeTool({ content: [{ type: 'text', text: 'ok' }] });
+
+    const outcome = await runToolCall('fake_tool', { query: 'q' }, { registry: { fake_tool: tool } });
+
+    expect(tool.handler).toHaveBeenCalledWith({ query: 'q' }, {});
+    expect(outcome).toEqual({ output: 'ok', exitCode: 0 });
+  });
+
+  it('should exit 1 when the result is an error', async () => {
+    const tool = fakeTool({ content: [{ type: 'text', text: 'boom' }], isError: true });
+
+    const outcome = await runToolCall('fake_tool', {}, { registry: { fake_tool: tool }, json: true });
+
+    expect(outcome.exitCode).toBe(1);
+    expect(JSON.parse(outcome.output).isError).toBe(true);
+  });
+
+  it('should reject unknown tools', async () => {
+    await expect(runToolCall('missing', {}, { registry: {} })).rejects.toThrow(CliUsageError);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { z } from 'zod';
+import '../setup.js';
+
+import { buildToolCatalog, describeTool, formatToolDescription, formatToolList } from '../../cli/catalog.js';
+import { CliUsageError } from '../../cli/call.js';
+import { ToolRegistry, isZodObject, toolInputShape } from '../../tools/config.js';
+import { toolRegistry } from '../../tools/index.js';
+
+const fakeRegistry: Record<string, ToolRegistry> = {
+  fake_tool: {
+    name: 'fake_tool',
+    description: 'Fake tool',
+    schema: z.object({
+      query: z.string().describe('Search query'),
+      numResults: z.number().optional().default(5),
+      mode: z.enum(['fast', 'deep']).optional()
+    }),
+    enabled: false,
+    examples: [{ description: "It's an example", arguments: { query: 'test' } }],
+    handler: async () => ({ content: [] })
+  }
+};
+
+describe('Tool catalog', () => {
+  it('should describe every registry tool with a JSON Schema', () => {
+    const catalog = buildToolCatalog(toolRegistry);
+
+    expect(catalog.map(entry => entry.name)).toEqual(Object.values(toolRegistry).map(tool => tool.name));
+    catalog.forEach((entry) => {
+      expect(entry.inputSchema.type).toBe('object');
+      expect(entry.inputSchema.properties).toBeDefined();
+      expect(entry.outputSchema?.type).toBe('object');
+      expect(entry.examples.length).toBeGreaterThan(0);
+    });
+  });
+
+  it('should only ship examples that pass the tool schema', () => {
+    Object.values(toolRegistry).forEach((tool) => {
+      const schema = tool.schema instanceof z.ZodObject ? tool.schema : z.object(tool.schema);
+      (tool.examples ?? []).forEach((example) => {
+        const result = schema.safeParse(example.arguments);
+        expect({ tool: tool.name, example: example.description, success: result.success })
+          .toEqual({ tool: tool.name, example: example.description, success: true });
+      });
+    });
+  });
+
+  it('should list tools as JSON', () => {
+    const parsed = JSON.parse(formatToolList(fakeRegistry, 'json'));
+
+    expect(parsed).toHaveLength(1);
+    expect(parsed[0]).toMatchObject({
+      name: 'fake_tool',
+      enabled: false,
+      inputSchema: { type: 'object', required: ['query'] }
+    });
+  });
+
+  it('should keep the text list format', () => {
+    expect(formatToolList(fakeRegistry)).toBe(
+      'Available tools:\n- fake_tool: fake_tool\n  Description: Fake tool\n  Enabled by default: No'
+    );
+  });
+
+  it('should describe parameters and examples', () => {
+    const output = formatToolDescription(fakeRegistry, 'fake_tool');
+
+    expect(output).toContain('fake_tool (disabled by default)');
+    expect(output).toContain('  query: string\n      Search query');
+    expect(output).toContain('  numResults?: number (default: 5)');
+    expect(output).toContain('  mode?: "fast" | "deep"');
+    expect(output).toContain(`exa-mcp-server call fake_tool --args '{"query":"test"}'`);
+  });
+
+  it('should describe a tool as JSON', () => {
+    const parsed = JSON.parse(formatToolDescription(fakeRegistry, 'fake_tool', 'json'));
+
+    expect(parsed.examples).toEqual(fakeRegistry.fake_tool.examples);
+  });
+
+  it('should handle schemas built with another copy of zod (e.g. bundled by a plugin)', () => {
+    let foreign!: typeof z;
+    jest.isolateModules(() => {
+      foreign = jest.requireActual<{ z: typeof z }>('zod').z;
+    });
+    const schema = foreign.object({ query: foreign.string().describe('Search query') });
+    expect(schema instanceof z.ZodObject).toBe(false);
+
+    expect(isZodObject(schema)).toBe(true);
+    expect(Object.keys(toolInputShape(schema))).toEqual(['query']);
+    expect(describeTool({ ...fakeRegistry.fake_tool, schema }).inputSchema).toMatchObject({
+      type: 'object',
+      properties: { query: { type: 'string', description: 'Search query' } },
+      required: ['query']
+    });
+  });
+
+  it('should reject unknown tools', () => {
+    expect(() => formatToolDescription(fakeRegistry, 'missing')).toThrow(CliUsageError);
+  });
+});
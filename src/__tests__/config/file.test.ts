@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ConfigFileError, findConfigFile, loadConfigFile, mergeConfigLayers } from '../../config/file.js';
+
+describe('Configuration file', () => {
+  let dir: string;
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'exa-mcp-config-'));
+    process.env = { ...originalEnv, XDG_CONFIG_HOME: path.join(dir, 'xdg') };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function write(name: string, content: string): string {
+    const filePath = path.join(dir, name);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  describe('findConfigFile', () => {
+    it('should resolve an explicit path relative to cwd', () => {
+      const filePath = write('custom.yaml', 'cache: {}');
+      expect(findConfigFile('custom.yaml', dir)).toBe(filePath);
+    });
+
+    it('should fail when an explicit path does not exist', () => {
+      expect(() => findConfigFile('missing.json', dir)).toThrow(ConfigFileError);
+    });
+
+    it('should prefer the working directory, then the user config directory', () => {
+      expect(findConfigFile(undefined, dir)).toBeUndefined();
+
+      const userFile = write('xdg/exa-mcp/exa-mcp.config.yml', 'cache: {}');
+      expect(findConfigFile(undefined, dir)).toBe(userFile);
+
+      const localFile = write('exa-mcp.config.json', '{}');
+      expect(findConfigFile(undefined, dir)).toBe(localFile);
+    });
+  });
+
+  describe('loadConfigFile', () => {
+    it('should parse JSON and YAML', () => {
+      expect(loadConfigFile(write('a.json', '{"cache":{"maxSize":50}}')).values).toEqual({ cache: { maxSize: 50 } });
+      expect(loadConfigFile(write('a.yaml', 'cache:\n  maxSize: 50\n')).values).toEqual({ cache: { maxSize: 50 } });
+      expect(loadConfigFile(write('empty.yaml', '')).values).toEqual({});
+    });
+
+    it('should name the file in syntax and shape errors', () => {
+      const broken = write('broken.json', '{"cache":');
+      expect(() => loadConfigFile(broken)).toThrow(`${broken}: invalid syntax`);
+
+      const list = write('list.yaml', '- a\n- b\n');
+      expect(() => loadConfigFile(list)).toThrow(`${list}: top level must be an object`);
+    });
+  });
+
+  describe('mergeConfigLayers', () => {
+    it('should deep-merge with later layers winning and undefined ignored', () => {
+      expect(mergeConfigLayers(
+        { cache: { maxSize: 50, ttlMinutes: 10 }, tools: { defaultNumResults: 5 } },
+        { cache: { maxSize: '200', ttlMinutes: undefined }, exa: { apiKey: 'key' } }
+      )).toEqual({
+        cache: { maxSize: '200', ttlMinutes: 10 },
+        tools: { defaultNumResults: 5 },
+        exa: { apiKey: 'key' }
+      });
+    });
+  });
+
+  describe('getConfig with a config file', () => {
+    let configModule: typeof import('../../config/index.js');
+
+    beforeEach(async () => {
+      process.env.NODE_ENV = 'test';
+      process.env.EXA_API_KEY = 'env-key';
+      delete process.env.CACHE_MAX_SIZE;
+      delete process.env.CACHE_ENABLED;
+      delete process.env.LOG_LEVEL;
+      jest.resetModules();
+      jest.unmock('../../config/index.js');
+      configModule = await import('../../config/index.js');
+      configModule.clearConfigCache();
+    });
+
+    afterEach(() => {
+      configModule.setConfigFile(undefined);
+      jest.restoreAllMocks();
+    });
+
+    it('should layer the file under environment variables', () => {
+      const filePath = write('exa-mcp.config.yaml', [
+        'exa:',
+        '  apiKey: file-key',
+        'logging:',
+        '  level: warn',
+        'cache:',
+        '  enabled: false',
+        '  maxSize: 50',
+        '  ttlMinutes: 10'
+      ].join('\n'));
+      process.env.CACHE_MAX_SIZE = '200';
+
+      configModule.setConfigFile(filePath);
+      const config = configModule.getConfig();
+
+      expect(config.exa.apiKey).toBe('env-key');
+      expect(config.logging.level).toBe('WARN');
+      expect(config.cache).toEqual(expect.objectContaining({ enabled: false, maxSize: 200, ttlMinutes: 10 }));
+      expect(config.cache.persistent.enabled).toBe(false);
+      expect(configModule.getLoadedConfigFile()).toBe(filePath);
+    });
+
+    it('should accept the example config file', () => {
+      configModule.setConfigFile(path.join(__dirname, '../../../examples/exa-mcp.config.yaml'));
+      const config = configModule.getConfig();
+
+      expect(config.cache.maxSize).toBe(200);
+      expect(config.presets.map(preset => preset.name)).toEqual(['internal_docs_search', 'security_advisories']);
+    });
+
+    it('should use EXA_MCP_CONFIG when --config is not given', () => {
+      process.env.EXA_MCP_CONFIG = write('from-env.json', '{"tools":{"defaultNumResults":7}}');
+
+      expect(configModule.getConfig().tools.defaultNumResults).toBe(7);
+    });
+
+    it('should name the file and key path of invalid or unknown values', () => {
+      const errors: string[] = [];
+      jest.spyOn(console, 'error').mockImplementation((...args: unknown[]) => {
+        errors.push(args.join(' '));
+      });
+      const filePath = write('bad.yaml', 'cache:\n  maxSize: 5\n  maxEntries: 10\n');
+
+      configModule.setConfigFile(filePath);
+
+      expect(() => configModule.getConfig()).toThrow();
+      expect(errors).toContain(`\n• ${filePath}: cache.maxSize:`);
+      expect(errors).toContain(`\n• ${filePath}: cache.maxEntries:`);
+    });
+  });
+});
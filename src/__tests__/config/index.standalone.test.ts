@@ -70,6 +70,7 @@ describe('Configuration Standalone Tests', () => {
       expect(config.logging.redactLogs).toBe(true);
       expect(config.cache.enabled).toBe(true);
       expect(config.cache.maxSize).toBe(100);
+      expect(config.rateLimit).toEqual({ maxRequests: 100, windowMs: 60000, maxBurst: 10, retryAfterMs: 1000, adaptive: true });
     });
 
     it('should handle overrides', () => {
@@ -153,6 +154,18 @@ describe('Configuration Standalone Tests', () => {
       expect(config.cache.enabled).toBe(false);
     });
 
+    it('should read rate limit settings', () => {
+      process.env.EXA_API_KEY = 'test-key';
+      process.env.EXA_RATE_LIMIT_MAX_REQUESTS = '300';
+      process.env.EXA_RATE_LIMIT_WINDOW_MS = '1000';
+      process.env.EXA_RATE_LIMIT_BURST = '5';
+      process.env.EXA_RATE_LIMIT_ADAPTIVE = 'false';
+
+      const config = getConfig();
+
+      expect(config.rateLimit).toMatchObject({ maxRequests: 300, windowMs: 1000, maxBurst: 5, adaptive: false });
+    });
+
     it('should handle invalid environment values', () => {
       process.env.EXA_API_KEY = 'test-key';
       process.env.EXA_TIMEOUT = 'not-a-number';
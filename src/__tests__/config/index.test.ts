@@ -293,6 +293,17 @@ describe('Configuration Management', () => {
       expect(config.logging.redactLogs).toBe(false);
     });
     
+    it('should split comma-separated HTTP allow lists', () => {
+      process.env.EXA_API_KEY = 'env-api-key';
+      process.env.HTTP_ALLOWED_HOSTS = 'mcp.example.com, localhost:3000';
+      process.env.HTTP_ALLOWED_ORIGINS = 'https://app.example.com';
+
+      const config = getConfig();
+
+      expect(config.server.allowedHosts).toEqual(['mcp.example.com', 'localhost:3000']);
+      expect(config.server.allowedOrigins).toEqual(['https://app.example.com']);
+    });
+
     it('should cache configuration', () => {
       process.env.EXA_API_KEY = 'cached-key';
       
@@ -11,10 +11,10 @@ describe('MemoryOptimizer Integration', () => {
     // Clear module cache to get fresh imports
     jest.resetModules();
     
-    // Mock the optimizedCache module
-    jest.doMock('../../utils/optimizedCache.js', () => ({
-      getOptimizedCache: jest.fn(() => ({
-        clear: jest.fn(),
+    // Mock the shared cache
+    jest.doMock('../../utils/cache.js', () => ({
+      getGlobalCache: jest.fn(() => ({
+        clearMemory: jest.fn(),
         prune: jest.fn(() => 5)
       }))
     }));
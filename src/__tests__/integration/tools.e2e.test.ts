@@ -38,6 +38,7 @@ jest.mock('../../utils/pinoLogger.js', () => ({
 jest.mock('../../utils/cache.js', () => ({
   getGlobalCache: jest.fn(() => ({
     get: jest.fn(() => null), // No caching for E2E tests
+    lookup: jest.fn(() => null),
     set: jest.fn(),
     clear: jest.fn(),
     getStats: jest.fn(() => ({ hits: 0, misses: 0, size: 0, hitRate: 0 })),
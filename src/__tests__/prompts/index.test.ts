@@ -0,0 +1,76 @@
+import { describe, it, expect } from '@jest/globals';
+import { z } from 'zod';
+import '../setup.js';
+
+import { promptRegistry } from '../../prompts/index.js';
+import { toolRegistry } from '../../tools/index.js';
+
+describe('Prompt registry', () => {
+  it('should register the workflow prompts', () => {
+    expect(Object.keys(promptRegistry)).toEqual([
+      'competitive_analysis',
+      'literature_review',
+      'fact_check',
+      'code_api_lookup'
+    ]);
+  });
+
+  it.each(Object.values(promptRegistry))('$name should only require tools that exist', (prompt) => {
+    expect(prompt.requiredTools.length).toBeGreaterThan(0);
+    prompt.requiredTools.forEach(toolId => {
+      expect(toolRegistry[toolId]).toBeDefined();
+    });
+  });
+
+  it.each(Object.values(promptRegistry))('$name should reference every required tool by name', (prompt) => {
+    const required = Object.entries(prompt.schema)
+      .filter(([, schema]) => !schema.isOptional())
+      .reduce<Record<string, string>>((args, [key]) => ({ ...args, [key]: `example ${key}` }), {});
+
+    const text = prompt.build(required).map(m => m.content.type === 'text' ? m.content.text : '').join('\n');
+
+    prompt.requiredTools.forEach(toolId => {
+      expect(text).toContain(`\`${toolId}\``);
+    });
+  });
+});
+
+describe('competitive_analysis', () => {
+  const prompt = promptRegistry.competitive_analysis;
+
+  it('should include optional arguments when provided', () => {
+    const [message] = prompt.build({
+      company: 'Exa',
+      productDescription: 'web search API',
+      companyDomain: 'exa.ai',
+      maxCompetitors: '3',
+      focus: 'pricing'
+    });
+
+    expect(message.role).toBe('user');
+    const text = message.content.type === 'text' ? message.content.text : '';
+    expect(text).toContain('excludeDomain "exa.ai"');
+    expect(text).toContain('Pick the 3 most relevant');
+    expect(text).toContain('and pricing');
+  });
+
+  it('should reject non-numeric maxCompetitors', () => {
+    const result = z.object(prompt.schema).safeParse({
+      company: 'Exa',
+      productDescription: 'web search API',
+      maxCompetitors: 'many'
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('fact_check', () => {
+  it('should pass freshness through to exa_search', () => {
+    const [message] = promptRegistry.fact_check.build({ claim: 'The sky is green', maxAgeHours: '24' });
+    const text = message.content.type === 'text' ? message.content.text : '';
+
+    expect(text).toContain('"The sky is green"');
+    expect(text).toContain('maxAgeHours 24');
+  });
+});
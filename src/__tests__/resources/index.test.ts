@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import '../setup.js';
+
+import { ResourceStore, registerResources, pageUri, searchUri } from '../../resources/index.js';
+import { getGlobalCache, resetGlobalCache } from '../../utils/cache.js';
+
+const request = { query: 'test query', numResults: 2 };
+const response = {
+  requestId: 'req-1',
+  results: [
+    { url: 'https://example.com/a?x=1,2', title: 'Page A', text: 'Content A', publishedDate: '2024-01-01' },
+    { url: 'https://example.com/b', title: 'Page B' }
+  ]
+};
+
+describe('ResourceStore', () => {
+  let store: ResourceStore;
+
+  beforeEach(() => {
+    resetGlobalCache();
+    getGlobalCache().setEnabled(true);
+    getGlobalCache().set('/search', request, response);
+    store = new ResourceStore();
+  });
+
+  it('should index result sets and pages with text', () => {
+    const id = store.record('exa_search', '/search', request, response);
+
+    expect(id).toBeDefined();
+    expect(store.listSearches()).toEqual([
+      expect.objectContaining({ id, query: 'test query', resultCount: 2, toolName: 'exa_search' })
+    ]);
+    expect(store.listPages().map(p => p.url)).toEqual(['https://example.com/a?x=1,2']);
+  });
+
+  it('should read content back from the request cache', () => {
+    const id = store.record('exa_search', '/search', request, response)!;
+
+    expect(store.readSearch(id)).toEqual(response);
+    expect(store.readPage('https://example.com/a?x=1,2')).toEqual(response.results[0]);
+  });
+
+  it('should drop entries once the cache entry is gone', () => {
+    const id = store.record('exa_search', '/search', request, response)!;
+    getGlobalCache().clear();
+
+    expect(store.readSearch(id)).toBeNull();
+    expect(store.listPages()).toEqual([]);
+  });
+
+  it('should list without reading responses or checking other tenants', () => {
+    const cache = getGlobalCache();
+    const otherRequest = { query: 'other tenant', numResults: 1 };
+    cache.set('/search', otherRequest, response);
+    store.record('exa_search', '/search', request, response, 'key-a');
+    store.record('exa_search', '/search', otherRequest, response, 'key-b');
+    const peek = jest.spyOn(cache, 'peek');
+    const has = jest.spyOn(cache, 'has');
+
+    expect(store.listSearches('key-a')).toHaveLength(1);
+
+    expect(peek).not.toHaveBeenCalled();
+    expect(has).toHaveBeenCalledTimes(1);
+    expect(has).toHaveBeenCalledWith('/search', request);
+  });
+
+  it('should not index when caching is disabled', () => {
+    getGlobalCache().setEnabled(false);
+
+    expect(store.record('exa_search', '/search', request, response)).toBeUndefined();
+    expect(store.listSearches()).toEqual([]);
+  });
+
+  it('should ignore responses without results', () => {
+    expect(store.record('answer_question', '/answer', request, { answer: 'x' })).toBeUndefined();
+  });
+
+  it('should notify listeners only when new entries appear', () => {
+    let notifications = 0;
+    const unsubscribe = store.onListChanged(() => notifications++);
+
+    store.record('exa_search', '/search', request, response);
+    store.record('exa_search', '/search', request, response);
+    expect(notifications).toBe(1);
+
+    unsubscribe();
+    store.clear();
+    store.record('exa_search', '/search', request, response);
+    expect(notifications).toBe(1);
+  });
+
+  it('should keep tenants apart', () => {
+    const notified: Array<string | undefined> = [];
+    store.onListChanged(tenant => notified.push(tenant));
+
+    const id = store.record('exa_search', '/search', request, response, 'key-a')!;
+
+    expect(store.listSearches('key-a')).toEqual([expect.objectContaining({ id, tenant: 'key-a' })]);
+    expect(store.listSearches('key-b')).toEqual([]);
+    expect(store.listSearches()).toEqual([]);
+    expect(store.listPages('key-b')).toEqual([]);
+    expect(store.readSearch(id, 'key-b')).toBeNull();
+    expect(store.readPage('https://example.com/a?x=1,2')).toBeNull();
+    expect(store.readSearch(id, 'key-a')).toEqual(response);
+
+    // The same response fetched with another key is indexed for that tenant too
+    store.record('exa_search', '/search', request, response, 'key-b');
+    expect(store.readSearch(id, 'key-b')).toEqual(response);
+    expect(notified).toEqual(['key-a', 'key-b']);
+  });
+});
+
+describe('registerResources', () => {
+  let store: ResourceStore;
+  let client: Client;
+  let server: McpServer;
+
+  beforeEach(async () => {
+    resetGlobalCache();
+    getGlobalCache().setEnabled(true);
+    getGlobalCache().set('/search', request, response);
+    store = new ResourceStore();
+
+    server = new McpServer({ name: 'test-server', version: '1.0.0' });
+    registerResources(server, store);
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should expose page and search templates', async () => {
+    const templates = await client.listResourceTemplates();
+    expect(templates.resourceTemplates.map(t => t.uriTemplate)).toEqual(['exa://page/{url}', 'exa://search/{id}']);
+  });
+
+  it('should list and read stored entries', async () => {
+    const id = store.record('exa_search', '/search', request, response)!;
+
+    const listed = await client.listResources();
+    expect(listed.resources.map(r => r.uri)).toEqual([pageUri('https://example.com/a?x=1,2'), searchUri(id)]);
+
+    const page = await client.readResource({ uri: pageUri('https://example.com/a?x=1,2') });
+    expect(page.contents[0].text).toContain('Content A');
+    expect(page.contents[0].text).toContain('Published: 2024-01-01');
+
+    const search = await client.readResource({ uri: searchUri(id) });
+    expect(JSON.parse(search.contents[0].text as string)).toEqual(response);
+  });
+
+  it('should fail to read unknown resources', async () => {
+    await expect(client.readResource({ uri: searchUri('missing') })).rejects.toThrow(/not found/);
+  });
+
+  it('should send resources/list_changed when entries are added', async () => {
+    const received = new Promise<void>(resolve => {
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, () => resolve());
+    });
+
+    store.record('exa_search', '/search', request, response);
+
+    await expect(received).resolves.toBeUndefined();
+  });
+
+  it('should hide and not announce other tenants\' entries', async () => {
+    const tenantServer = new McpServer({ name: 'tenant-server', version: '1.0.0' });
+    registerResources(tenantServer, store, 'key-a');
+    const tenantClient = new Client({ name: 'tenant-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([tenantClient.connect(clientTransport), tenantServer.connect(serverTransport)]);
+
+    let sharedNotified = false;
+    client.setNotificationHandler(ResourceListChangedNotificationSchema, () => {
+      sharedNotified = true;
+    });
+    const tenantNotified = new Promise<void>(resolve => {
+      tenantClient.setNotificationHandler(ResourceListChangedNotificationSchema, () => resolve());
+    });
+
+    const id = store.record('exa_search', '/search', request, response, 'key-a')!;
+    await expect(tenantNotified).resolves.toBeUndefined();
+
+    expect((await tenantClient.listResources()).resources.map(r => r.uri)).toContain(searchUri(id));
+    expect((await client.listResources()).resources).toEqual([]);
+    await expect(client.readResource({ uri: searchUri(id) })).rejects.toThrow(/not found/);
+    expect(sharedNotified).toBe(false);
+
+    await tenantClient.close();
+  });
+});
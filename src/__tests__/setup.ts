@@ -14,6 +14,13 @@ jest.mock('../config/index.js', () => ({
       timeout: 25000,
       retries: 3
     },
+    rateLimit: {
+      maxRequests: 100,
+      windowMs: 60000,
+      maxBurst: 10,
+      retryAfterMs: 1000,
+      adaptive: true
+    },
     server: {
       name: 'test-server',
       version: '1.0.0'
@@ -28,7 +35,12 @@ jest.mock('../config/index.js', () => ({
     cache: {
       enabled: true,
       maxSize: 100,
-      ttlMinutes: 5
+      maxMemoryMb: 64,
+      compression: 'brotli',
+      compressionThreshold: 1024,
+      semantic: false,
+      ttlMinutes: 5,
+      policy: { livecrawlTtlMinutes: 1, staleWhileRevalidateMinutes: 0, endpoints: { '/research': 1440 }, tools: {} }
     },
     tools: {
       defaultNumResults: 5,
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import '../setup.js';
+
+jest.mock('../../utils/pinoLogger.js', () => ({
+  structuredLogger: {
+    child: jest.fn(() => ({
+      debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn()
+    }))
+  },
+  createRequestLogger: jest.fn(() => ({
+    start: jest.fn(),
+    log: jest.fn(),
+    complete: jest.fn(),
+    error: jest.fn()
+  })),
+  generateRequestId: jest.fn(() => 'test-req-id')
+}));
+
+import { createCacheAdminTools } from '../../tools/cacheAdmin.js';
+import { ToolRegistry } from '../../tools/config.js';
+import { RequestCache } from '../../utils/cache.js';
+
+describe('cache admin tools', () => {
+  let cache: RequestCache;
+  let tools: Record<string, ToolRegistry>;
+
+  beforeEach(() => {
+    cache = new RequestCache({ enabled: true, maxSize: 10, ttlMinutes: 1 });
+    cache.set('/search', { query: 'vector databases' }, { results: [{ url: 'https://a.com' }] }, { tool: 'exa_search' });
+    cache.set('/contents', { urls: ['https://b.com'] }, { results: [] }, { tool: 'crawling' });
+    cache.get('/search', { query: 'vector databases' });
+    tools = Object.fromEntries(createCacheAdminTools(cache).map(tool => [tool.name, tool]));
+  });
+
+  it('should report statistics with a per-endpoint breakdown', async () => {
+    const result = await tools.cache_stats.handler({});
+
+    expect(result.content[0].text).toContain('Hit rate: 100.0% (1 hits, 0 misses');
+    expect(result.content[0].text).toContain('- /contents: 1 entries');
+    expect(result.structuredContent).toMatchObject({ enabled: true, hits: 1, size: 2, endpoints: { '/search': { hits: 1, entries: 1 } } });
+    expect(tools.cache_stats.outputSchema!.safeParse(result.structuredContent).success).toBe(true);
+  });
+
+  it('should invalidate matching entries', async () => {
+    const result = await tools.cache_invalidate.handler({ tool: 'exa_search', query: 'VECTOR' });
+
+    expect(result.content[0].text).toBe('Invalidated 1 cached response');
+    expect(result.structuredContent).toEqual({ invalidated: 1 });
+    expect(cache.has('/search', { query: 'vector databases' })).toBe(false);
+    expect(cache.has('/contents', { urls: ['https://b.com'] })).toBe(true);
+  });
+
+  it('should refuse sessions that bring their own API key', async () => {
+    const extra = { exaSession: { apiKey: 'tenant-key', tenant: 'tenant-a' } };
+
+    const cleared = await tools.cache_clear.handler({}, extra);
+    const invalidated = await tools.cache_invalidate.handler({ tool: 'exa_search' }, extra);
+
+    expect(cleared.isError).toBe(true);
+    expect(invalidated.isError).toBe(true);
+    expect(cleared.content[0].text).toContain("only available with the server's own API key");
+    expect(cache.getStats().size).toBe(2);
+  });
+
+  it('should require a criterion and valid arguments to invalidate', async () => {
+    const empty = await tools.cache_invalidate.handler({});
+    const invalid = await tools.cache_invalidate.handler({ url: 'not a url' });
+
+    expect(empty.isError).toBe(true);
+    expect(empty.content[0].text).toContain('Give at least one of tool, endpoint, url or query');
+    expect(invalid.isError).toBe(true);
+    expect(cache.getStats().size).toBe(2);
+  });
+
+  it('should clear the cache', async () => {
+    const result = await tools.cache_clear.handler({});
+
+    expect(result.structuredContent).toEqual({ clearedEntries: 2 });
+    expect(cache.getStats().size).toBe(0);
+  });
+});
@@ -45,7 +45,11 @@ jest.mock('../../config/index.js', () => ({
     cache: {
       enabled: false,
       maxSize: 100,
-      ttlMinutes: 5
+      maxMemoryMb: 64,
+      compression: 'brotli',
+      compressionThreshold: 1024,
+      ttlMinutes: 5,
+      policy: { livecrawlTtlMinutes: 1, staleWhileRevalidateMinutes: 0, endpoints: { '/research': 1440 }, tools: {} }
     },
     environment: {
       nodeEnv: 'test'
@@ -58,6 +62,7 @@ jest.mock('../../config/index.js', () => ({
 jest.mock('../../utils/cache.js', () => ({
   getGlobalCache: jest.fn(() => ({
     get: jest.fn(() => null),
+    lookup: jest.fn(() => null),
     set: jest.fn(),
     clear: jest.fn(),
     getStats: jest.fn(() => ({ hits: 0, misses: 0, size: 0, hitRate: 0 })),
@@ -67,6 +72,7 @@ jest.mock('../../utils/cache.js', () => ({
   resetGlobalCache: jest.fn(),
   globalCache: {
     get: jest.fn(() => null),
+    lookup: jest.fn(() => null),
     set: jest.fn(),
     clear: jest.fn(),
     getStats: jest.fn(() => ({ hits: 0, misses: 0, size: 0, hitRate: 0 })),
@@ -114,5 +120,25 @@ describe('Tool Configuration', () => {
         expect(typeof tool.enabled).toBe('boolean');
       });
     });
+
+    it('should declare an output schema and read-only annotations for every tool', () => {
+      Object.values(toolRegistry).filter(tool => tool.name !== 'research_cancel').forEach(tool => {
+        expect(tool.outputSchema).toBeDefined();
+        expect(tool.annotations).toEqual(expect.objectContaining({
+          readOnlyHint: true,
+          openWorldHint: true
+        }));
+      });
+    });
+
+    it('should mark research_cancel as changing local state only', () => {
+      expect(toolRegistry.research_cancel.outputSchema).toBeDefined();
+      expect(toolRegistry.research_cancel.annotations).toEqual({
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false
+      });
+    });
   });
 });
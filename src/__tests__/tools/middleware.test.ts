@@ -0,0 +1,242 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { z } from 'zod';
+import '../setup.js';
+
+jest.mock('../../utils/exaClient.js', () => ({
+  getSharedExaClient: jest.fn(),
+  handleExaError: jest.fn((_error: unknown, toolName: string) => ({
+    content: [{ type: 'text' as const, text: `Error in ${toolName}` }],
+    isError: true
+  }))
+}));
+
+jest.mock('../../utils/rateLimiter.js', () => {
+  const queue = jest.fn<() => Promise<void>>().mockResolvedValue(undefined);
+  return { getTenantRateLimiter: jest.fn(() => ({ queue })) };
+});
+
+jest.mock('../../utils/cache.js', () => ({
+  getGlobalCache: jest.fn()
+}));
+
+jest.mock('../../utils/pinoLogger.js', () => ({
+  structuredLogger: {
+    child: jest.fn(() => ({
+      debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn()
+    }))
+  },
+  createRequestLogger: jest.fn(() => ({
+    start: jest.fn(),
+    log: jest.fn(),
+    complete: jest.fn(),
+    error: jest.fn()
+  })),
+  generateRequestId: jest.fn(() => 'test-req-id')
+}));
+
+jest.mock('../../utils/usageLogger.js', () => ({
+  logExaUsage: jest.fn()
+}));
+
+import { createTool } from '../../tools/tool-builder.js';
+import { ToolMiddleware, resetToolMiddleware, useToolMiddleware } from '../../tools/middleware.js';
+import { getSharedExaClient } from '../../utils/exaClient.js';
+import { getGlobalCache } from '../../utils/cache.js';
+import { getTenantRateLimiter } from '../../utils/rateLimiter.js';
+import { logExaUsage } from '../../utils/usageLogger.js';
+import { RequestCancelledError } from '../../utils/cancellation.js';
+
+type SearchData = { results: { url: string }[] };
+
+function createTestTool(middleware?: ToolMiddleware[]) {
+  return createTool({
+    name: 'test_tool',
+    description: 'Test tool',
+    schema: z.object({ query: z.string() }),
+    enabled: true,
+    endpoint: '/search',
+    createRequest: (args) => ({ query: args.query }),
+    formatResponse: (data: SearchData) => data.results.map(result => result.url).join(','),
+    getStartContext: (args) => args.query,
+    middleware
+  });
+}
+
+describe('Tool middleware', () => {
+  let mockPost: jest.Mock<(...args: unknown[]) => Promise<any>>;
+  let cache: { lookup: jest.Mock; set: jest.Mock };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPost = jest.fn<(...args: unknown[]) => Promise<any>>().mockResolvedValue({
+      data: { results: [{ url: 'https://a.com' }, { url: 'https://b.com' }] }
+    });
+    (getSharedExaClient as jest.Mock).mockReturnValue({ post: mockPost });
+    cache = { lookup: jest.fn().mockReturnValue(null), set: jest.fn() };
+    (getGlobalCache as jest.Mock).mockReturnValue(cache);
+  });
+
+  afterEach(() => {
+    resetToolMiddleware();
+  });
+
+  it('should let beforeRequest replace the request', async () => {
+    const tool = createTestTool([{
+      name: 'scope',
+      beforeRequest: (_args, request) => ({ ...(request as object), includeDomains: ['a.com'] })
+    }]);
+
+    await tool.handler({ query: 'test' }, {});
+
+    expect(mockPost).toHaveBeenCalledWith('/search', { query: 'test', includeDomains: ['a.com'] }, expect.any(Object));
+    expect(cache.set).toHaveBeenCalledWith('/search', { query: 'test', includeDomains: ['a.com'] }, expect.any(Object), { ttlMs: 5 * 60 * 1000, staleMs: 0, tool: 'test_tool' });
+  });
+
+  it('should let afterResponse filter results', async () => {
+    const tool = createTestTool([{
+      name: 'filter',
+      afterResponse: (data) => ({ results: (data as SearchData).results.filter(result => !result.url.includes('b.com')) })
+    }]);
+
+    const result = await tool.handler({ query: 'test' }, {});
+
+    expect(result.content[0].text).toBe('https://a.com');
+    expect(logExaUsage).toHaveBeenCalledWith('test_tool', 'ok', '', undefined);
+  });
+
+  it('should run global middlewares before per-tool ones and unwind in reverse', async () => {
+    const calls: string[] = [];
+    const tracing = (name: string): ToolMiddleware => ({
+      name,
+      beforeRequest: () => { calls.push(`before:${name}`); },
+      afterResponse: () => { calls.push(`after:${name}`); }
+    });
+    useToolMiddleware(tracing('global'));
+    useToolMiddleware(tracing('other'), { tools: ['other_tool'] });
+    useToolMiddleware(tracing('scoped'), { tools: ['test_tool'] });
+
+    await createTestTool([tracing('tool')]).handler({ query: 'test' }, {});
+
+    expect(calls).toEqual([
+      'before:global', 'before:scoped', 'before:tool',
+      'after:tool', 'after:scoped', 'after:global'
+    ]);
+  });
+
+  it('should stop applying a middleware once removed', async () => {
+    const beforeRequest = jest.fn();
+    const remove = useToolMiddleware({ name: 'audit', beforeRequest });
+
+    await createTestTool().handler({ query: 'one' }, {});
+    remove();
+    await createTestTool().handler({ query: 'two' }, {});
+
+    expect(beforeRequest).toHaveBeenCalledTimes(1);
+  });
+
+  it('should short-circuit on a cache hit but still run afterResponse', async () => {
+    cache.lookup.mockReturnValue({ data: { results: [{ url: 'https://cached.com' }] }, stale: false, ageMs: 0 });
+    const afterResponse = jest.fn();
+
+    const result = await createTestTool([{ name: 'metrics', afterResponse }]).handler({ query: 'test' }, {});
+
+    expect(result.content[0].text).toBe('https://cached.com');
+    expect(mockPost).not.toHaveBeenCalled();
+    expect(getTenantRateLimiter().queue).not.toHaveBeenCalled();
+    expect(afterResponse).toHaveBeenCalledWith({ results: [{ url: 'https://cached.com' }] }, expect.objectContaining({ toolName: 'test_tool' }));
+    expect(logExaUsage).toHaveBeenCalledWith('test_tool', 'cache_hit', '', undefined);
+  });
+
+  it('should serve a stale hit at once and refresh it once in the background', async () => {
+    const stale = { data: { results: [{ url: 'https://old.com' }] }, stale: true, ageMs: 7 * 60 * 1000 };
+    cache.lookup.mockReturnValue(stale);
+    const tool = createTestTool();
+
+    const [first, second] = await Promise.all([tool.handler({ query: 'test' }, {}), tool.handler({ query: 'test' }, {})]);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(first.content[0].text).toBe('https://old.com\n\n_Cached result from 7 minutes ago (stale, refreshing in the background)._');
+    expect(first._meta).toEqual({ cache: { stale: true, ageSeconds: 420 } });
+    expect(second._meta).toEqual(first._meta);
+    expect(cache.lookup).toHaveBeenCalledWith('/search', { query: 'test' }, { allowStale: true });
+    expect(getTenantRateLimiter().queue).toHaveBeenCalledTimes(1);
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    expect(mockPost).toHaveBeenCalledWith('/search', { query: 'test' }, { signal: undefined });
+    expect(cache.set).toHaveBeenCalledWith('/search', { query: 'test' }, { results: [{ url: 'https://a.com' }, { url: 'https://b.com' }] }, { ttlMs: 5 * 60 * 1000, staleMs: 0, tool: 'test_tool' });
+  });
+
+  it('should share one API call between identical concurrent calls', async () => {
+    let respond!: (value: unknown) => void;
+    mockPost.mockImplementationOnce(() => new Promise(resolve => { respond = resolve; }));
+    const tool = createTestTool();
+
+    const first = tool.handler({ query: 'Vector databases' }, {});
+    const second = tool.handler({ query: ' vector  DATABASES' }, {});
+    await new Promise(resolve => setImmediate(resolve));
+    respond({ data: { results: [{ url: 'https://a.com' }] } });
+
+    const results = await Promise.all([first, second]);
+    expect(results.map(result => result.content[0].text)).toEqual(['https://a.com', 'https://a.com']);
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    expect(getTenantRateLimiter().queue).toHaveBeenCalledTimes(1);
+    expect(cache.set).toHaveBeenCalledTimes(1);
+    expect(logExaUsage).toHaveBeenCalledWith('test_tool', 'ok', '', undefined);
+    expect(logExaUsage).toHaveBeenCalledWith('test_tool', 'coalesced', '', undefined);
+
+    await tool.handler({ query: 'vector databases' }, {});
+    expect(mockPost).toHaveBeenCalledTimes(2);
+  });
+
+  it('should send the request again when the shared call is cancelled', async () => {
+    mockPost.mockImplementationOnce((...args: unknown[]) => new Promise((_resolve, reject) => {
+      (args[2] as { signal: AbortSignal }).signal.addEventListener('abort', () => reject(new RequestCancelledError()));
+    }));
+    const controller = new AbortController();
+    const tool = createTestTool();
+
+    const first = tool.handler({ query: 'test' }, { signal: controller.signal });
+    const second = tool.handler({ query: 'test' }, {});
+    await new Promise(resolve => setImmediate(resolve));
+    controller.abort();
+
+    expect((await first).content[0].text).toBe('test_tool request was cancelled');
+    expect((await second).content[0].text).toBe('https://a.com,https://b.com');
+    expect(mockPost).toHaveBeenCalledTimes(2);
+  });
+
+  it('should bypass the cache when the request asks for fresh content', async () => {
+    const tool = createTestTool([{
+      name: 'fresh',
+      beforeRequest: (_args, request) => ({ ...(request as object), contents: { maxAgeHours: 0 } })
+    }]);
+
+    await tool.handler({ query: 'test' }, {});
+
+    expect(mockPost).toHaveBeenCalled();
+    expect(cache.lookup).not.toHaveBeenCalled();
+    expect(cache.set).not.toHaveBeenCalled();
+  });
+
+  it('should let onError recover with a result', async () => {
+    mockPost.mockRejectedValue(Object.assign(new Error('boom'), { response: { status: 500 } }));
+    const tool = createTestTool([{
+      name: 'fallback',
+      onError: () => ({ content: [{ type: 'text', text: 'fallback' }] })
+    }]);
+
+    const result = await tool.handler({ query: 'test' }, {});
+
+    expect(result).toEqual({ content: [{ type: 'text', text: 'fallback' }] });
+  });
+
+  it('should pass unrecovered errors to every onError hook and the error handler', async () => {
+    mockPost.mockRejectedValue(Object.assign(new Error('Too many requests'), { response: { status: 429 } }));
+    const onError = jest.fn<NonNullable<ToolMiddleware['onError']>>();
+
+    const result = await createTestTool([{ name: 'audit', onError }]).handler({ query: 'test' }, {});
+
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining({ endpoint: '/search' }));
+    expect(result.isError).toBe(true);
+    expect(logExaUsage).toHaveBeenCalledWith('test_tool', 'rate_limit', 'Too many requests', undefined);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import '../setup.js';
+
+jest.mock('../../utils/exaClient.js', () => ({
+  getSharedExaClient: jest.fn(() => ({ post: jest.fn(), get: jest.fn() })),
+  handleExaError: jest.fn()
+}));
+
+import { loadPlugin, loadPlugins, PluginLoadError } from '../../tools/plugins.js';
+import { ToolRegistry } from '../../tools/config.js';
+import { getSharedExaClient } from '../../utils/exaClient.js';
+
+const TOOL_SOURCE = `{
+  name: 'internal_lookup',
+  description: 'Look up internal records',
+  schema: {},
+  enabled: true,
+  handler: async () => ({ content: [{ type: 'text', text: 'ok' }] })
+}`;
+
+describe('Plugin loader', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'exa-mcp-plugins-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writePlugin(name: string, source: string): string {
+    fs.writeFileSync(path.join(dir, name), source);
+    return `./${name}`;
+  }
+
+  it('should load a module exporting a tool', async () => {
+    const plugin = writePlugin('single.cjs', `module.exports = ${TOOL_SOURCE};`);
+
+    const tools = await loadPlugin(plugin, dir);
+
+    expect(tools.map(tool => tool.name)).toEqual(['internal_lookup']);
+    await expect(tools[0].handler({}, {})).resolves.toEqual({ content: [{ type: 'text', text: 'ok' }] });
+  });
+
+  it('should call factories with the shared services', async () => {
+    const plugin = writePlugin('factory.cjs', `
+      exports.tools = async (context) => [{ ...${TOOL_SOURCE}, description: typeof context.client.post + ' ' + typeof context.createTool }];
+    `);
+
+    const tools = await loadPlugin(plugin, dir);
+
+    expect(getSharedExaClient).toHaveBeenCalled();
+    expect(tools[0].description).toBe('function function');
+  });
+
+  it('should reject modules without valid tools', async () => {
+    await expect(loadPlugin('./missing.cjs', dir)).rejects.toThrow('cannot import module');
+
+    const empty = writePlugin('empty.cjs', 'module.exports = undefined;');
+    await expect(loadPlugin(empty, dir)).rejects.toThrow('module must export tools');
+
+    const invalid = writePlugin('invalid.cjs', `module.exports = [{ name: 'bad name', description: 'x', schema: {}, enabled: true }];`);
+    await expect(loadPlugin(invalid, dir)).rejects.toThrow(PluginLoadError);
+    await expect(loadPlugin(invalid, dir)).rejects.toThrow(/invalid tool at index 0: name .*; handler must be a function/);
+
+    const badSchema = writePlugin('bad-schema.cjs', `module.exports = [{ ...${TOOL_SOURCE}, schema: { query: 'string' } }];`);
+    await expect(loadPlugin(badSchema, dir)).rejects.toThrow(/schema must be a zod object or raw shape/);
+
+    const failing = writePlugin('failing.cjs', `module.exports = () => { throw new Error('boom'); };`);
+    await expect(loadPlugin(failing, dir)).rejects.toThrow('factory failed (boom)');
+  });
+
+  it('should merge tools into the registry', async () => {
+    const plugin = writePlugin('single.cjs', `module.exports = ${TOOL_SOURCE};`);
+    const registry: Record<string, ToolRegistry> = {};
+
+    await expect(loadPlugins([plugin, plugin], registry, dir)).resolves.toEqual(['internal_lookup']);
+    expect(registry.internal_lookup.description).toBe('Look up internal records');
+  });
+
+  it('should detect name collisions without registering anything', async () => {
+    const first = writePlugin('first.cjs', `module.exports = [{ ...${TOOL_SOURCE}, name: 'first_tool' }];`);
+    const second = writePlugin('second.cjs', `module.exports = ${TOOL_SOURCE};`);
+    const third = writePlugin('third.cjs', `module.exports = ${TOOL_SOURCE};`);
+    const registry: Record<string, ToolRegistry> = {};
+
+    await expect(loadPlugins([first, second, third], registry, dir))
+      .rejects.toThrow(`Plugin "${third}": tool "internal_lookup" is also defined by plugin "${second}"`);
+    expect(registry).toEqual({});
+
+    registry.internal_lookup = {} as ToolRegistry;
+    await expect(loadPlugins([second], registry, dir)).rejects.toThrow('conflicts with an existing tool');
+  });
+});
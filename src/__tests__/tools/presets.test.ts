@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import '../setup.js';
+
+jest.mock('../../utils/exaClient.js', () => ({
+  getSharedExaClient: jest.fn(),
+  handleExaError: jest.fn((_error: unknown, toolName: string) => ({
+    content: [{ type: 'text' as const, text: `Error in ${toolName}` }],
+    isError: true
+  }))
+}));
+
+jest.mock('../../utils/rateLimiter.js', () => ({
+  getTenantRateLimiter: jest.fn(() => ({
+    queue: jest.fn<() => Promise<void>>().mockResolvedValue(undefined)
+  }))
+}));
+
+jest.mock('../../utils/cache.js', () => ({
+  getGlobalCache: jest.fn(() => ({
+    get: jest.fn().mockReturnValue(null),
+    lookup: jest.fn().mockReturnValue(null),
+    set: jest.fn()
+  }))
+}));
+
+jest.mock('../../utils/pinoLogger.js', () => ({
+  structuredLogger: {
+    child: jest.fn(() => ({
+      debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn()
+    }))
+  },
+  createRequestLogger: jest.fn(() => ({
+    start: jest.fn(),
+    log: jest.fn(),
+    complete: jest.fn(),
+    error: jest.fn()
+  })),
+  generateRequestId: jest.fn(() => 'test-req-id')
+}));
+
+jest.mock('../../utils/usageLogger.js', () => ({
+  logExaUsage: jest.fn()
+}));
+
+import { createPresetTool, registerPresetTools } from '../../tools/presets.js';
+import { PresetToolConfig, validateConfig } from '../../config/index.js';
+import { ToolRegistry } from '../../tools/config.js';
+import { getSharedExaClient } from '../../utils/exaClient.js';
+
+const advisoriesPreset: PresetToolConfig = {
+  name: 'security_advisories',
+  description: 'Search recent security advisories',
+  enabled: true,
+  request: { category: 'news', includeDomains: ['nvd.nist.gov', 'github.com'], maxAgeHours: 24 },
+  parameters: ['numResults', 'startPublishedDate']
+};
+
+describe('Preset tools', () => {
+  let mockPost: jest.Mock<(...args: unknown[]) => Promise<any>>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPost = jest.fn<(...args: unknown[]) => Promise<any>>().mockResolvedValue({ data: { results: [] } });
+    (getSharedExaClient as jest.Mock).mockReturnValue({ post: mockPost });
+  });
+
+  it('should expose query plus the configured parameters only', () => {
+    const tool = createPresetTool(advisoriesPreset);
+    const shape = (tool.schema as any).shape;
+
+    expect(tool.name).toBe('security_advisories');
+    expect(tool.enabled).toBe(true);
+    expect(Object.keys(shape)).toEqual(['query', 'numResults', 'startPublishedDate']);
+    expect(tool.outputSchema).toBeDefined();
+  });
+
+  it('should send fixed fields with the caller\'s parameters', async () => {
+    const tool = createPresetTool(advisoriesPreset);
+
+    await tool.handler({ query: 'openssl', startPublishedDate: '2024-01-01' }, {});
+
+    expect(mockPost).toHaveBeenCalledWith('/search', {
+      category: 'news',
+      includeDomains: ['nvd.nist.gov', 'github.com'],
+      startPublishedDate: '2024-01-01',
+      query: 'openssl',
+      type: 'auto',
+      numResults: 5,
+      contents: { text: { maxCharacters: 3000 }, maxAgeHours: 24 }
+    }, expect.any(Object));
+  });
+
+  it('should ignore arguments that are not exposed', async () => {
+    const tool = createPresetTool(advisoriesPreset);
+
+    await tool.handler({ query: 'openssl', includeDomains: ['evil.example'] }, {});
+
+    const request = mockPost.mock.calls[0][1] as Record<string, unknown>;
+    expect(request.includeDomains).toEqual(['nvd.nist.gov', 'github.com']);
+  });
+
+  it('should register presets and reject name collisions', () => {
+    const registry: Record<string, ToolRegistry> = {};
+
+    expect(registerPresetTools([advisoriesPreset], registry)).toEqual(['security_advisories']);
+    expect(registry.security_advisories.name).toBe('security_advisories');
+    expect(() => registerPresetTools([advisoriesPreset], registry))
+      .toThrow('Preset tool "security_advisories" conflicts with an existing tool');
+  });
+});
+
+describe('Preset config validation', () => {
+  // validateConfig is mocked in setup.ts; use the real schema
+  const { validateConfig: realValidateConfig } = jest.requireActual<{ validateConfig: typeof validateConfig }>('../../config/index.js');
+
+  const baseConfig = {
+    exa: { apiKey: 'key' }, server: {}, logging: {}, environment: {}, tools: {}, cache: {}
+  };
+
+  it('should apply preset defaults', () => {
+    const config = realValidateConfig({ ...baseConfig, presets: [{ name: 'docs_search', description: 'Docs' }] });
+
+    expect(config.presets).toEqual([{ name: 'docs_search', description: 'Docs', enabled: true, request: {}, parameters: [] }]);
+  });
+
+  it('should reject invalid presets', () => {
+    const invalid = [
+      [{ name: 'Bad-Name', description: 'x' }],
+      [{ name: 'dup', description: 'x' }, { name: 'dup', description: 'y' }],
+      [{ name: 'fixed', description: 'x', request: { category: 'news' }, parameters: ['category'] }],
+      [{ name: 'unknown', description: 'x', parameters: ['query'] }],
+      [{ name: 'typo', description: 'x', request: { includeDomain: ['a.com'] } }]
+    ];
+
+    invalid.forEach((presets) => {
+      expect(() => realValidateConfig({ ...baseConfig, presets })).toThrow();
+    });
+  });
+});
@@ -112,6 +112,22 @@ describe('Progress Tracking (v1.18.0)', () => {
         }
       });
     });
+
+    it('should mirror another tracker scaled to its own total until it stops following', async () => {
+      const source = new ProgressTracker(100, undefined, undefined);
+      const follower = new ProgressTracker(4, 'token-456', mockServer);
+
+      const stop = follower.follow(source);
+      await source.update(50, 'Researching');
+      stop();
+      await source.update(90, 'Formatting');
+
+      expect(mockServer.notification).toHaveBeenCalledTimes(1);
+      expect(mockServer.notification).toHaveBeenCalledWith({
+        method: 'notifications/progress',
+        params: { progressToken: 'token-456', progress: 2, total: 4, message: 'Researching' }
+      });
+    });
   });
 
   describe('extractToolContext', () => {
@@ -11,11 +11,15 @@ jest.mock('../../utils/exaClient.js', () => ({
 }));
 
 jest.mock('../../utils/rateLimiter.js', () => ({
-  getGlobalRateLimiter: jest.fn(() => ({
+  getTenantRateLimiter: jest.fn(() => ({
     queue: jest.fn<() => Promise<void>>().mockResolvedValue(undefined)
   }))
 }));
 
+jest.mock('../../utils/cache.js', () => ({
+  getGlobalCache: jest.fn(() => ({ get: jest.fn(() => null), lookup: jest.fn(() => null), set: jest.fn() }))
+}));
+
 jest.mock('../../utils/pinoLogger.js', () => ({
   structuredLogger: {
     child: jest.fn(() => ({
@@ -50,10 +54,12 @@ jest.mock('../../tools/progress-tracker.js', () => ({
 
 import { researchTool } from '../../tools/research.js';
 import { getSharedExaClient } from '../../utils/exaClient.js';
-import { getGlobalRateLimiter } from '../../utils/rateLimiter.js';
+import { getTenantRateLimiter } from '../../utils/rateLimiter.js';
+import { extractToolContext } from '../../tools/progress-tracker.js';
+import { logExaUsage } from '../../utils/usageLogger.js';
 
 const mockPost = jest.fn<() => Promise<any>>();
-const mockGet = jest.fn<() => Promise<any>>();
+const mockGet = jest.fn<(...args: unknown[]) => Promise<any>>();
 
 beforeEach(() => {
   jest.clearAllMocks();
@@ -196,8 +202,30 @@ describe('research tool', () => {
     }, 15000);
   });
 
+  describe('cancellation', () => {
+    it('stops polling when the request is cancelled', async () => {
+      const controller = new AbortController();
+      (extractToolContext as jest.Mock).mockReturnValueOnce({ signal: controller.signal });
+      mockPost.mockResolvedValueOnce({
+        data: { taskId: 'task-cancel', status: 'pending', estimatedTime: 30 }
+      });
+      mockGet.mockImplementation(async () => {
+        controller.abort();
+        return { data: { taskId: 'task-cancel', status: 'processing', progress: 10 } };
+      });
+
+      const result = await researchTool.handler({ objective: 'cancel me' }, { signal: controller.signal });
+
+      expect(mockGet).toHaveBeenCalledTimes(1);
+      expect(mockGet).toHaveBeenCalledWith('/research/status/task-cancel', { signal: controller.signal });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('cancelled');
+      expect(logExaUsage).toHaveBeenCalledWith('deep_research', 'cancelled', '', undefined);
+    });
+  });
+
   describe('rate limiter integration', () => {
-    it('calls getGlobalRateLimiter() before the API POST', async () => {
+    it('calls getTenantRateLimiter() before the API POST', async () => {
       mockPost.mockResolvedValueOnce({
         data: { taskId: 'rl-task', status: 'pending', estimatedTime: 1 }
       });
@@ -207,7 +235,7 @@ describe('research tool', () => {
 
       await researchTool.handler({ objective: 'rate limit check' }, undefined);
 
-      expect(getGlobalRateLimiter).toHaveBeenCalled();
+      expect(getTenantRateLimiter).toHaveBeenCalled();
     });
   });
 });
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import '../setup.js';
+
+jest.mock('../../utils/exaClient.js', () => ({
+  getSharedExaClient: jest.fn(),
+  handleExaError: jest.fn((_error: unknown, toolName: string) => ({
+    content: [{ type: 'text' as const, text: `Error in ${toolName}` }],
+    isError: true
+  }))
+}));
+
+jest.mock('../../utils/rateLimiter.js', () => {
+  const queue = jest.fn<() => Promise<void>>().mockResolvedValue(undefined);
+  return { getTenantRateLimiter: jest.fn(() => ({ queue })) };
+});
+
+jest.mock('../../utils/cache.js', () => {
+  const cache = { get: jest.fn(() => null), lookup: jest.fn(() => null), set: jest.fn() };
+  return { getGlobalCache: jest.fn(() => cache) };
+});
+
+jest.mock('../../utils/pinoLogger.js', () => ({
+  structuredLogger: {
+    child: jest.fn(() => ({
+      debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn()
+    }))
+  },
+  createRequestLogger: jest.fn(() => ({
+    start: jest.fn(),
+    log: jest.fn(),
+    complete: jest.fn(),
+    error: jest.fn()
+  })),
+  generateRequestId: jest.fn(() => 'test-req-id')
+}));
+
+jest.mock('../../utils/usageLogger.js', () => ({
+  logExaUsage: jest.fn()
+}));
+
+import { researchTool } from '../../tools/research.js';
+import { researchCancelTool, researchListTool, researchResultTool, researchStatusTool } from '../../tools/researchJobs.js';
+import { getResearchJobStore, resetResearchJobStore } from '../../utils/researchJobStore.js';
+import { getSharedExaClient } from '../../utils/exaClient.js';
+import { getGlobalCache } from '../../utils/cache.js';
+
+describe('Async research jobs', () => {
+  let dir: string;
+  let mockPost: jest.Mock<(...args: unknown[]) => Promise<any>>;
+  let mockGet: jest.Mock<(...args: unknown[]) => Promise<any>>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'exa-mcp-research-'));
+    resetResearchJobStore();
+    getResearchJobStore(path.join(dir, 'research-jobs.json'));
+
+    mockPost = jest.fn<(...args: unknown[]) => Promise<any>>().mockResolvedValue({
+      data: { taskId: 'task-1', status: 'pending', estimatedTime: 120 }
+    });
+    mockGet = jest.fn<(...args: unknown[]) => Promise<any>>();
+    (getSharedExaClient as jest.Mock).mockReturnValue({ post: mockPost, get: mockGet });
+  });
+
+  afterEach(() => {
+    resetResearchJobStore();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const startJob = () => researchTool.handler({ objective: 'Survey vector databases', async: true }, {});
+
+  it('should return a task id without polling or caching and persist the job', async () => {
+    const result = await startJob();
+
+    expect(result.content[0].text).toContain('**Task ID:** task-1');
+    expect(result.structuredContent).toEqual({ taskId: 'task-1', objective: 'Survey vector databases', status: 'pending' });
+    expect(mockPost).toHaveBeenCalledWith('/research', expect.not.objectContaining({ async: true }), expect.any(Object));
+    expect(mockGet).not.toHaveBeenCalled();
+    expect(getGlobalCache().set).not.toHaveBeenCalled();
+
+    resetResearchJobStore();
+    expect(getResearchJobStore(path.join(dir, 'research-jobs.json')).get('task-1'))
+      .toMatchObject({ objective: 'Survey vector databases', status: 'pending', estimatedTime: 120 });
+  });
+
+  it('should refresh the status from Exa until the task finishes', async () => {
+    await startJob();
+    mockGet.mockResolvedValueOnce({ data: { taskId: 'task-1', status: 'processing', progress: 40, currentStep: 'Reading sources' } });
+
+    const running = await researchStatusTool.handler({ taskId: 'task-1' }, {});
+    expect(mockGet).toHaveBeenCalledWith('/research/status/task-1', { signal: undefined });
+    expect(running.content[0].text).toContain('processing (40%: Reading sources)');
+    expect(running.structuredContent).toMatchObject({ status: 'processing', progress: 40 });
+
+    await getResearchJobStore().update('task-1', { status: 'failed', error: 'Quota exceeded' });
+    const failed = await researchStatusTool.handler({ taskId: 'task-1' }, {});
+    expect(mockGet).toHaveBeenCalledTimes(1);
+    expect(failed.structuredContent).toMatchObject({ status: 'failed', error: 'Quota exceeded' });
+  });
+
+  it('should return the result once completed and the status while running', async () => {
+    await startJob();
+    mockGet
+      .mockResolvedValueOnce({ data: { taskId: 'task-1', status: 'processing', progress: 80 } })
+      .mockResolvedValueOnce({ data: { taskId: 'task-1', status: 'completed', result: { summary: 'Three leading options.' } } });
+
+    const pending = await researchResultTool.handler({ taskId: 'task-1' }, {});
+    expect(pending.isError).toBeUndefined();
+    expect(pending.content[0].text).toContain('still running');
+
+    const done = await researchResultTool.handler({ taskId: 'task-1' }, {});
+    expect(done.content[0].text).toContain('### Summary\n\nThree leading options.');
+    expect(done.structuredContent).toEqual({
+      taskId: 'task-1',
+      objective: 'Survey vector databases',
+      status: 'completed',
+      result: { summary: 'Three leading options.' }
+    });
+  });
+
+  it('should list and cancel jobs', async () => {
+    await startJob();
+
+    const cancelled = await researchCancelTool.handler({ taskId: 'task-1' }, {});
+    expect(cancelled.structuredContent).toMatchObject({ taskId: 'task-1', status: 'cancelled' });
+
+    const list = await researchListTool.handler({ status: 'cancelled' }, {});
+    expect((list.structuredContent as { jobs: unknown[] }).jobs).toHaveLength(1);
+
+    const result = await researchResultTool.handler({ taskId: 'task-1' }, {});
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toBe('Research task task-1 cancelled');
+    expect(mockGet).not.toHaveBeenCalled();
+  });
+
+  it('should not show jobs of other tenants', async () => {
+    await startJob();
+    const otherTenant = { exaSession: { apiKey: 'other-key', tenant: 'key-other' } };
+
+    const status = await researchStatusTool.handler({ taskId: 'task-1' }, otherTenant);
+    expect(status.isError).toBe(true);
+    expect(status.content[0].text).toContain('Unknown research task "task-1"');
+
+    const list = await researchListTool.handler({}, otherTenant);
+    expect(list.structuredContent).toEqual({ jobs: [] });
+  });
+});
@@ -20,7 +20,7 @@ jest.mock('../../utils/exaClient.js', () => ({
 }));
 
 jest.mock('../../utils/rateLimiter.js', () => ({
-  getGlobalRateLimiter: jest.fn(() => ({
+  getTenantRateLimiter: jest.fn(() => ({
     queue: jest.fn<() => Promise<void>>().mockResolvedValue(undefined)
   }))
 }));
@@ -28,6 +28,7 @@ jest.mock('../../utils/rateLimiter.js', () => ({
 jest.mock('../../utils/cache.js', () => ({
   getGlobalCache: jest.fn(() => ({
     get: jest.fn().mockReturnValue(null),
+    lookup: jest.fn().mockReturnValue(null),
     set: jest.fn()
   }))
 }));
@@ -37,11 +38,20 @@ jest.mock('../../config/index.js', () => ({
     tools: {
       defaultNumResults: 5,
       defaultMaxCharacters: 1000
+    },
+    cache: {
+      ttlMinutes: 5,
+      policy: { livecrawlTtlMinutes: 1, staleWhileRevalidateMinutes: 0, endpoints: {}, tools: {} }
     }
   }))
 }));
 
 jest.mock('../../utils/pinoLogger.js', () => ({
+  structuredLogger: {
+    child: jest.fn(() => ({
+      debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn()
+    }))
+  },
   createRequestLogger: jest.fn(() => ({
     log: jest.fn(),
     info: jest.fn(),
@@ -255,6 +265,7 @@ describe('Tool Builder Progress Integration', () => {
       const { getGlobalCache } = await import('../../utils/cache.js');
       const mockCache = {
         get: jest.fn().mockReturnValue({ results: ['cached result'] }),
+        lookup: jest.fn().mockReturnValue({ data: { results: ['cached result'] }, stale: false, ageMs: 0 }),
         set: jest.fn()
       };
       (getGlobalCache as jest.Mock).mockReturnValue(mockCache);
@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import { z } from 'zod';
+import { CanceledError } from 'axios';
 import '../setup.js';
 
 // Mock dependencies
@@ -19,7 +20,7 @@ jest.mock('../../utils/exaClient.js', () => ({
 }));
 
 jest.mock('../../utils/rateLimiter.js', () => ({
-  getGlobalRateLimiter: jest.fn(() => ({
+  getTenantRateLimiter: jest.fn(() => ({
     queue: jest.fn<() => Promise<void>>().mockResolvedValue(undefined)
   }))
 }));
@@ -27,6 +28,7 @@ jest.mock('../../utils/rateLimiter.js', () => ({
 jest.mock('../../utils/cache.js', () => ({
   getGlobalCache: jest.fn(() => ({
     get: jest.fn().mockReturnValue(null),
+    lookup: jest.fn().mockReturnValue(null),
     set: jest.fn(),
     has: jest.fn().mockReturnValue(false)
   }))
@@ -67,6 +69,8 @@ jest.mock('../../tools/progress-tracker.js', () => ({
 import { createTool, createSearchTool, createCrawlTool } from '../../tools/tool-builder.js';
 import { getSharedExaClient } from '../../utils/exaClient.js';
 import { getGlobalCache } from '../../utils/cache.js';
+import { extractToolContext, ProgressTracker } from '../../tools/progress-tracker.js';
+import { logExaUsage } from '../../utils/usageLogger.js';
 
 describe('Tool Builder', () => {
   beforeEach(() => {
@@ -74,6 +78,7 @@ describe('Tool Builder', () => {
     // Reset cache mock to return null by default
     (getGlobalCache as jest.MockedFunction<typeof getGlobalCache>).mockReturnValue({
       get: jest.fn().mockReturnValue(null),
+      lookup: jest.fn().mockReturnValue(null),
       set: jest.fn(),
       has: jest.fn().mockReturnValue(false),
       delete: jest.fn(),
@@ -160,6 +165,7 @@ describe('Tool Builder', () => {
       } as any);
       (getGlobalCache as jest.MockedFunction<typeof getGlobalCache>).mockReturnValue({
         get: jest.fn().mockReturnValue(cachedData),
+        lookup: jest.fn().mockReturnValue({ data: cachedData, stale: false, ageMs: 0 }),
         set: jest.fn(),
         has: jest.fn().mockReturnValue(true),
         delete: jest.fn(),
@@ -251,7 +257,7 @@ describe('Tool Builder', () => {
 
       await tool.handler({ query: 'test query' }, {});
 
-      expect(mockPost).toHaveBeenCalledWith('/search', expect.objectContaining({ query: 'test query' }));
+      expect(mockPost).toHaveBeenCalledWith('/search', expect.objectContaining({ query: 'test query' }), expect.any(Object));
     });
   });
 
@@ -292,7 +298,7 @@ describe('Tool Builder', () => {
 
       await tool.handler({ url: 'https://example.com' }, {});
 
-      expect(mockPost).toHaveBeenCalledWith('/contents', expect.objectContaining({ urls: ['https://example.com'] }));
+      expect(mockPost).toHaveBeenCalledWith('/contents', expect.objectContaining({ urls: ['https://example.com'] }), expect.any(Object));
     });
   });
 
@@ -341,4 +347,248 @@ describe('Tool Builder', () => {
       expect(result.content[0].text).toContain('No results found');
     });
   });
+
+  describe('structured output', () => {
+    const searchResponse = {
+      requestId: 'req-1',
+      resolvedSearchType: 'neural',
+      results: [{
+        id: 'r1',
+        url: 'https://example.com',
+        title: 'Example',
+        publishedDate: '2024-01-01',
+        author: null,
+        score: 0.9,
+        text: 'Content',
+        extras: { links: ['https://example.com/a'] }
+      }]
+    };
+
+    it('should return structuredContent matching the declared outputSchema', async () => {
+      (getSharedExaClient as jest.MockedFunction<typeof getSharedExaClient>).mockReturnValue({
+        post: jest.fn<() => Promise<any>>().mockResolvedValue({ data: searchResponse })
+      } as any);
+
+      const tool = createSearchTool(
+        'test_search',
+        'Test',
+        z.object({ query: z.string() }),
+        true,
+        (args) => ({ query: args.query, type: 'auto' as const, numResults: 1, contents: { text: true } })
+      );
+
+      const result = await tool.handler({ query: 'test' }, {});
+
+      expect(result.structuredContent).toEqual({
+        requestId: 'req-1',
+        resolvedSearchType: 'neural',
+        results: [{
+          id: 'r1',
+          url: 'https://example.com',
+          title: 'Example',
+          publishedDate: '2024-01-01',
+          score: 0.9,
+          text: 'Content',
+          links: ['https://example.com/a']
+        }]
+      });
+      expect(tool.outputSchema!.safeParse(result.structuredContent).success).toBe(true);
+    });
+
+    it('should return valid structuredContent for empty results', async () => {
+      (getSharedExaClient as jest.MockedFunction<typeof getSharedExaClient>).mockReturnValue({
+        post: jest.fn<() => Promise<any>>().mockResolvedValue({ data: null })
+      } as any);
+
+      const tool = createSearchTool(
+        'test_search',
+        'Test',
+        z.object({ query: z.string() }),
+        true,
+        (args) => ({ query: args.query, type: 'auto' as const, numResults: 1, contents: { text: true } })
+      );
+
+      const result = await tool.handler({ query: 'test' }, {});
+
+      expect(result.structuredContent).toEqual({ results: [] });
+      expect(tool.outputSchema!.safeParse(result.structuredContent).success).toBe(true);
+    });
+
+    it('should omit structuredContent when no outputSchema is declared', async () => {
+      (getSharedExaClient as jest.MockedFunction<typeof getSharedExaClient>).mockReturnValue({
+        post: jest.fn<() => Promise<any>>().mockResolvedValue({ data: searchResponse })
+      } as any);
+
+      const tool = createTool({
+        name: 'test_tool',
+        description: 'Test tool',
+        schema: z.object({ query: z.string() }),
+        enabled: true,
+        endpoint: '/search',
+        createRequest: (args) => ({ query: args.query }),
+        formatResponse: () => 'Result text',
+        getStartContext: (args) => args.query
+      });
+
+      const result = await tool.handler({ query: 'test' }, {});
+
+      expect(result).not.toHaveProperty('structuredContent');
+    });
+
+    it('should merge custom annotations over the read-only defaults', () => {
+      const tool = createTool({
+        name: 'test_tool',
+        description: 'Test tool',
+        schema: z.object({ query: z.string() }),
+        enabled: true,
+        endpoint: '/search',
+        createRequest: (args) => args,
+        formatResponse: () => 'ok',
+        getStartContext: (args) => args.query,
+        annotations: { title: 'Test Tool', openWorldHint: false }
+      });
+
+      expect(tool.annotations).toEqual({ readOnlyHint: true, openWorldHint: false, title: 'Test Tool' });
+    });
+  });
+
+  describe('Cancellation', () => {
+    const createCancellableTool = () => createSearchTool(
+      'test_search',
+      'Test',
+      z.object({ query: z.string() }),
+      true,
+      (args) => ({ query: args.query, type: 'auto' as const, numResults: 1, contents: { text: true } })
+    );
+
+    it('should pass the abort signal to the API call and log cancelled', async () => {
+      const controller = new AbortController();
+      (extractToolContext as jest.Mock).mockReturnValueOnce({ signal: controller.signal });
+      const mockPost = jest.fn<(...args: unknown[]) => Promise<any>>().mockImplementation(() => {
+        controller.abort();
+        return Promise.reject(new CanceledError());
+      });
+      (getSharedExaClient as jest.MockedFunction<typeof getSharedExaClient>).mockReturnValue({
+        post: mockPost
+      } as any);
+
+      const result = await createCancellableTool().handler({ query: 'test' }, { signal: controller.signal });
+
+      expect(mockPost).toHaveBeenCalledWith('/search', expect.any(Object), { signal: controller.signal });
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('cancelled');
+      expect(logExaUsage).toHaveBeenCalledWith('test_search', 'cancelled', '', undefined);
+    });
+
+    it('should stop after caching a response that arrives once cancelled', async () => {
+      const controller = new AbortController();
+      (extractToolContext as jest.Mock).mockReturnValueOnce({ signal: controller.signal });
+      const cacheSet = jest.fn();
+      (getGlobalCache as jest.MockedFunction<typeof getGlobalCache>).mockReturnValue({
+        get: jest.fn().mockReturnValue(null),
+        lookup: jest.fn().mockReturnValue(null),
+        set: cacheSet,
+        isEnabled: jest.fn().mockReturnValue(false)
+      } as any);
+      (getSharedExaClient as jest.MockedFunction<typeof getSharedExaClient>).mockReturnValue({
+        post: jest.fn<() => Promise<any>>().mockImplementation(async () => {
+          controller.abort();
+          return { data: { results: [{ url: 'https://example.com' }] } };
+        })
+      } as any);
+
+      const result = await createCancellableTool().handler({ query: 'test' }, { signal: controller.signal });
+
+      expect(cacheSet).toHaveBeenCalled();
+      expect(result.isError).toBe(true);
+      expect(logExaUsage).toHaveBeenCalledWith('test_search', 'cancelled', '', undefined);
+      expect(logExaUsage).not.toHaveBeenCalledWith('test_search', 'ok', '', undefined);
+    });
+  });
+
+  describe('Polling', () => {
+    type Task = { id: string };
+    type Status = { status: 'running' | 'done' | 'failed'; percent?: number; output?: string; error?: string };
+
+    const createPollingTool = (poll: { backoffFactor?: number; maxIntervalMs?: number; maxAttempts?: number } = {}) => createTool({
+      name: 'test_task',
+      description: 'Test task',
+      schema: z.object({ input: z.string() }),
+      enabled: true,
+      endpoint: '/tasks',
+      createRequest: (args) => ({ input: args.input }),
+      formatResponse: (data: { output: string }) => data.output,
+      getStartContext: (args) => args.input,
+      poll: {
+        statusPath: (task: Task) => `/tasks/${task.id}`,
+        checkStatus: (status: Status) => status.status === 'done'
+          ? { state: 'completed' as const, data: { output: status.output ?? '' } }
+          : status.status === 'failed'
+            ? { state: 'failed' as const, error: status.error ?? 'failed' }
+            : { state: 'running' as const, progress: status.percent, message: 'Working' },
+        intervalMs: 1000,
+        ...poll
+      }
+    });
+
+    let delays: number[];
+
+    beforeEach(() => {
+      delays = [];
+      jest.spyOn(global, 'setTimeout').mockImplementation(((fn: () => void, ms?: number) => {
+        delays.push(ms ?? 0);
+        fn();
+        return 0 as unknown as NodeJS.Timeout;
+      }) as typeof setTimeout);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should poll the status path with backoff and cache the completed result', async () => {
+      const mockPost = jest.fn<(...args: unknown[]) => Promise<any>>().mockResolvedValue({ data: { id: 'task-1' } });
+      const mockGet = jest.fn<(...args: unknown[]) => Promise<any>>()
+        .mockResolvedValueOnce({ data: { status: 'running', percent: 50 } })
+        .mockResolvedValueOnce({ data: { status: 'running' } })
+        .mockResolvedValueOnce({ data: { status: 'running' } })
+        .mockResolvedValueOnce({ data: { status: 'done', output: 'finished' } });
+      (getSharedExaClient as jest.MockedFunction<typeof getSharedExaClient>).mockReturnValue({
+        post: mockPost,
+        get: mockGet
+      } as any);
+
+      const result = await createPollingTool({ backoffFactor: 2, maxIntervalMs: 3000 }).handler({ input: 'x' }, {});
+
+      expect(result.content[0].text).toBe('finished');
+      expect(mockPost).toHaveBeenCalledTimes(1);
+      expect(mockGet).toHaveBeenCalledWith('/tasks/task-1', { signal: undefined });
+      expect(delays).toEqual([1000, 2000, 3000]);
+      expect(getGlobalCache().set).toHaveBeenCalledWith('/tasks', { input: 'x' }, { output: 'finished' }, { ttlMs: 5 * 60 * 1000, staleMs: 0, tool: 'test_task' });
+
+      const progress = (ProgressTracker as unknown as jest.Mock).mock.results[0].value as { update: jest.Mock };
+      expect(ProgressTracker).toHaveBeenCalledWith(100, null, null);
+      expect(progress.update).toHaveBeenCalledWith(10, 'Task created');
+      expect(progress.update).toHaveBeenCalledWith(50, 'Working');
+      expect(progress.update).toHaveBeenCalledWith(90, 'Formatting results...');
+    });
+
+    it('should fail on a failed task or when attempts run out', async () => {
+      const mockGet = jest.fn<(...args: unknown[]) => Promise<any>>()
+        .mockResolvedValueOnce({ data: { status: 'failed', error: 'Task blew up' } })
+        .mockResolvedValue({ data: { status: 'running' } });
+      (getSharedExaClient as jest.MockedFunction<typeof getSharedExaClient>).mockReturnValue({
+        post: jest.fn<(...args: unknown[]) => Promise<any>>().mockResolvedValue({ data: { id: 'task-2' } }),
+        get: mockGet
+      } as any);
+      const tool = createPollingTool({ maxAttempts: 3 });
+
+      expect((await tool.handler({ input: 'x' }, {})).isError).toBe(true);
+      expect(logExaUsage).toHaveBeenCalledWith('test_task', 'error', 'Task blew up', undefined);
+
+      expect((await tool.handler({ input: 'x' }, {})).isError).toBe(true);
+      expect(mockGet).toHaveBeenCalledTimes(4);
+      expect(logExaUsage).toHaveBeenCalledWith('test_task', 'error', 'test_task task did not finish after 3 status checks', undefined);
+    });
+  });
 });
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import '../setup.js';
+
+jest.mock('../../utils/pinoLogger.js', () => ({
+  structuredLogger: {
+    child: jest.fn(() => ({
+      debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn()
+    }))
+  },
+  createRequestLogger: jest.fn(() => ({
+    start: jest.fn(),
+    log: jest.fn(),
+    complete: jest.fn(),
+    error: jest.fn()
+  })),
+  generateRequestId: jest.fn(() => 'test-req-id')
+}));
+
+import { ToolStateManager, ToolStateChange } from '../../tools/tool-state.js';
+import { createToolAdminTool } from '../../tools/toolAdmin.js';
+
+const TOOL_IDS = ['exa_search', 'crawling', 'deep_research'];
+
+describe('ToolStateManager', () => {
+  let manager: ToolStateManager;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    manager = new ToolStateManager(TOOL_IDS, ['exa_search', 'crawling', 'not_a_tool']);
+  });
+
+  afterEach(() => {
+    manager.dispose();
+    jest.useRealTimers();
+  });
+
+  it('should start with the known initial tools enabled', () => {
+    expect(manager.getEnabledToolIds()).toEqual(['exa_search', 'crawling']);
+    expect(manager.isEnabled('deep_research')).toBe(false);
+  });
+
+  it('should enable and disable tools and notify listeners', () => {
+    const changes: ToolStateChange[] = [];
+    manager.onChange(change => changes.push(change));
+
+    manager.enable('deep_research');
+    manager.disable('crawling');
+
+    expect(manager.getEnabledToolIds()).toEqual(['exa_search', 'deep_research']);
+    expect(changes).toEqual([
+      { toolId: 'deep_research', enabled: true, reason: 'manual' },
+      { toolId: 'crawling', enabled: false, reason: 'manual' }
+    ]);
+  });
+
+  it('should not notify when the state does not change', () => {
+    const listener = jest.fn();
+    manager.onChange(listener);
+
+    manager.enable('exa_search');
+    manager.disable('deep_research');
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should disable a time-boxed tool when it expires', () => {
+    const changes: ToolStateChange[] = [];
+    manager.onChange(change => changes.push(change));
+
+    const state = manager.enable('deep_research', { durationMinutes: 10 });
+    expect(state.expiresAt).toBe(Date.now() + 10 * 60 * 1000);
+    expect(manager.getStatus().find(s => s.toolId === 'deep_research')).toEqual(state);
+
+    jest.advanceTimersByTime(10 * 60 * 1000);
+
+    expect(manager.isEnabled('deep_research')).toBe(false);
+    expect(manager.getStatus().find(s => s.toolId === 'deep_research')).toEqual({ toolId: 'deep_research', enabled: false });
+    expect(changes.map(c => c.reason)).toEqual(['manual', 'expired']);
+  });
+
+  it('should cancel the expiry when a tool is disabled or re-enabled permanently', () => {
+    manager.enable('deep_research', { durationMinutes: 1 });
+    manager.enable('deep_research');
+
+    jest.advanceTimersByTime(60 * 1000);
+
+    expect(manager.isEnabled('deep_research')).toBe(true);
+  });
+
+  it('should reject unknown tools and non-positive durations', () => {
+    expect(() => manager.enable('not_a_tool')).toThrow('Unknown tool: not_a_tool');
+    expect(() => manager.disable('not_a_tool')).toThrow('Unknown tool');
+    expect(() => manager.enable('deep_research', { durationMinutes: 0 })).toThrow('durationMinutes must be positive');
+  });
+
+  it('should stop notifying after unsubscribe', () => {
+    const listener = jest.fn();
+    const unsubscribe = manager.onChange(listener);
+    unsubscribe();
+
+    manager.enable('deep_research');
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('manage_tools admin tool', () => {
+  let manager: ToolStateManager;
+
+  beforeEach(() => {
+    manager = new ToolStateManager(TOOL_IDS, ['exa_search']);
+  });
+
+  afterEach(() => {
+    manager.dispose();
+  });
+
+  it('should list tool states', async () => {
+    const tool = createToolAdminTool(manager);
+
+    const result = await tool.handler({ action: 'list' });
+
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0].text).toContain('- exa_search: enabled');
+    expect(result.content[0].text).toContain('- deep_research: disabled');
+    expect(tool.outputSchema!.safeParse(result.structuredContent).success).toBe(true);
+  });
+
+  it('should enable a tool for a limited time', async () => {
+    const tool = createToolAdminTool(manager);
+
+    const result = await tool.handler({ action: 'enable', toolId: 'deep_research', durationMinutes: 30 });
+
+    expect(manager.isEnabled('deep_research')).toBe(true);
+    const states = (result.structuredContent as { tools: Array<{ toolId: string; expiresAt?: string }> }).tools;
+    expect(states.find(s => s.toolId === 'deep_research')?.expiresAt).toBeDefined();
+  });
+
+  it('should refuse sessions that bring their own API key', async () => {
+    const tool = createToolAdminTool(manager);
+
+    const result = await tool.handler(
+      { action: 'disable', toolId: 'exa_search' },
+      { exaSession: { apiKey: 'tenant-key', tenant: 'tenant-a' } }
+    );
+
+    expect(result.isError).toBe(true);
+    expect(manager.isEnabled('exa_search')).toBe(true);
+  });
+
+  it('should disable a tool', async () => {
+    const tool = createToolAdminTool(manager);
+
+    await tool.handler({ action: 'disable', toolId: 'exa_search' });
+
+    expect(manager.isEnabled('exa_search')).toBe(false);
+  });
+
+  it('should return an error for missing or unknown tool ids', async () => {
+    const tool = createToolAdminTool(manager);
+
+    const missing = await tool.handler({ action: 'enable' });
+    const unknown = await tool.handler({ action: 'disable', toolId: 'nope' });
+
+    expect(missing.isError).toBe(true);
+    expect(missing.content[0].text).toContain('toolId is required');
+    expect(unknown.isError).toBe(true);
+    expect(unknown.content[0].text).toContain('Unknown tool: nope');
+  });
+
+  it('should reject invalid arguments', async () => {
+    const tool = createToolAdminTool(manager);
+
+    const result = await tool.handler({ action: 'toggle' });
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain('Invalid arguments');
+  });
+});
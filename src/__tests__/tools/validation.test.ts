@@ -63,7 +63,7 @@ jest.mock('../../utils/exaClient.js', () => ({
 }));
 
 jest.mock('../../utils/rateLimiter.js', () => ({
-  getGlobalRateLimiter: jest.fn(() => ({
+  getTenantRateLimiter: jest.fn(() => ({
     queue: jest.fn<() => Promise<void>>().mockResolvedValue(undefined)
   }))
 }));
@@ -84,7 +84,11 @@ jest.mock('../../config/index.js', () => ({
     cache: {
       enabled: false,
       maxSize: 100,
-      ttlMinutes: 5
+      maxMemoryMb: 64,
+      compression: 'brotli',
+      compressionThreshold: 1024,
+      ttlMinutes: 5,
+      policy: { livecrawlTtlMinutes: 1, staleWhileRevalidateMinutes: 0, endpoints: { '/research': 1440 }, tools: {} }
     },
     environment: {
       nodeEnv: 'test'
@@ -97,6 +101,7 @@ jest.mock('../../config/index.js', () => ({
 jest.mock('../../utils/cache.js', () => ({
   getGlobalCache: jest.fn(() => ({
     get: jest.fn(() => null),
+    lookup: jest.fn(() => null),
     set: jest.fn(),
     clear: jest.fn(),
     getStats: jest.fn(() => ({ hits: 0, misses: 0, size: 0, hitRate: 0 })),
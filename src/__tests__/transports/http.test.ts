@@ -0,0 +1,217 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { request } from 'http';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { z } from 'zod';
+import '../setup.js';
+
+import { startHttpServer, HttpServerHandle } from '../../transports/http.js';
+
+function createTestServer(): McpServer {
+  const server = new McpServer({ name: 'test-server', version: '1.0.0' });
+  server.tool('echo', 'Echo input', { text: z.string() }, async ({ text }) => ({
+    content: [{ type: 'text', text }]
+  }));
+  return server;
+}
+
+describe('HTTP transport', () => {
+  let handle: HttpServerHandle;
+  let baseUrl: URL;
+
+  beforeEach(async () => {
+    handle = await startHttpServer(createTestServer, { port: 0, host: '127.0.0.1' });
+    baseUrl = new URL(`http://127.0.0.1:${handle.address.port}/mcp`);
+  });
+
+  afterEach(async () => {
+    await handle.close();
+  });
+
+  async function connectClient(): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(baseUrl);
+    await client.connect(transport);
+    return { client, transport };
+  }
+
+  it('should serve tools over a session', async () => {
+    const { client } = await connectClient();
+
+    const tools = await client.listTools();
+    expect(tools.tools.map(t => t.name)).toEqual(['echo']);
+
+    const result = await client.callTool({ name: 'echo', arguments: { text: 'hello' } });
+    expect(result.content).toEqual([{ type: 'text', text: 'hello' }]);
+
+    await client.close();
+  });
+
+  it('should keep separate state per session', async () => {
+    const first = await connectClient();
+    const second = await connectClient();
+
+    expect(handle.sessions.size).toBe(2);
+    expect(first.transport.sessionId).toBeDefined();
+    expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+
+    await first.client.close();
+    await second.client.close();
+  });
+
+  it('should tear down a session on DELETE', async () => {
+    const { client, transport } = await connectClient();
+    const sessionId = transport.sessionId!;
+    expect(handle.sessions.has(sessionId)).toBe(true);
+
+    await transport.terminateSession();
+
+    expect(handle.sessions.has(sessionId)).toBe(false);
+    await client.close();
+  });
+
+  it('should close sessions that stay idle', async () => {
+    await handle.close();
+    handle = await startHttpServer(createTestServer, { port: 0, host: '127.0.0.1', sessionIdleTimeoutMs: 50 });
+    baseUrl = new URL(`http://127.0.0.1:${handle.address.port}/mcp`);
+    const open = await connectClient();
+    const gone = await connectClient();
+    const goneSessionId = gone.transport.sessionId!;
+
+    // Closing the client drops its event stream without sending DELETE
+    await gone.client.close();
+    await new Promise(resolve => setTimeout(resolve, 200));
+
+    expect(handle.sessions.has(goneSessionId)).toBe(false);
+    expect(handle.sessions.has(open.transport.sessionId!)).toBe(true);
+    await open.client.close();
+  });
+
+  it('should refuse new sessions beyond the cap', async () => {
+    await handle.close();
+    handle = await startHttpServer(createTestServer, { port: 0, host: '127.0.0.1', maxSessions: 1 });
+    baseUrl = new URL(`http://127.0.0.1:${handle.address.port}/mcp`);
+    const first = await connectClient();
+
+    await expect(connectClient()).rejects.toThrow();
+    expect(handle.sessions.size).toBe(1);
+
+    await first.client.close();
+  });
+
+  it('should reject requests with an unknown session id', async () => {
+    const response = await fetch(baseUrl, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream',
+        'mcp-session-id': 'does-not-exist'
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should reject non-initialize requests without a session', async () => {
+    const response = await fetch(baseUrl, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        accept: 'application/json, text/event-stream'
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should pass a per-session API key header to the server factory', async () => {
+    await handle.close();
+    const contexts: Array<{ apiKey?: string }> = [];
+    handle = await startHttpServer((context) => {
+      contexts.push(context);
+      return createTestServer();
+    }, { port: 0, host: '127.0.0.1' });
+    baseUrl = new URL(`http://127.0.0.1:${handle.address.port}/mcp`);
+
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(baseUrl, {
+      requestInit: { headers: { 'x-exa-api-key': 'tenant-key' } }
+    }));
+    const anonymous = await connectClient();
+
+    expect(contexts).toEqual([{ apiKey: 'tenant-key' }, { apiKey: undefined }]);
+
+    await client.close();
+    await anonymous.client.close();
+  });
+
+  describe('DNS rebinding protection', () => {
+    // fetch() can't set Host, so send the initialize request with http.request
+    const initialize = (headers: Record<string, string>) => new Promise<{ status: number }>((resolve, reject) => {
+      const req = request(baseUrl, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          accept: 'application/json, text/event-stream',
+          ...headers
+        }
+      }, (res) => {
+        res.resume();
+        res.on('end', () => resolve({ status: res.statusCode ?? 0 }));
+      });
+      req.on('error', reject);
+      req.end(JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'browser', version: '1.0.0' } }
+      }));
+    });
+
+    it('should reject a foreign Origin without creating a session', async () => {
+      const response = await initialize({ origin: 'http://evil.example' });
+
+      expect(response.status).toBe(403);
+      expect(handle.sessions.size).toBe(0);
+    });
+
+    it('should reject a foreign Host header', async () => {
+      const response = await initialize({ host: `evil.example:${handle.address.port}` });
+
+      expect(response.status).toBe(403);
+      expect(handle.sessions.size).toBe(0);
+    });
+
+    it('should accept the local origin', async () => {
+      const response = await initialize({ origin: `http://localhost:${handle.address.port}` });
+
+      expect(response.status).toBe(200);
+      expect(handle.sessions.size).toBe(1);
+    });
+
+    it('should accept configured hosts and origins', async () => {
+      await handle.close();
+      handle = await startHttpServer(createTestServer, {
+        port: 0,
+        host: '127.0.0.1',
+        allowedHosts: ['mcp.example.com'],
+        allowedOrigins: ['https://app.example.com']
+      });
+      baseUrl = new URL(`http://127.0.0.1:${handle.address.port}/mcp`);
+
+      const allowed = await initialize({ host: 'mcp.example.com', origin: 'https://app.example.com' });
+      const local = await initialize({});
+
+      expect(allowed.status).toBe(200);
+      expect(local.status).toBe(403);
+    });
+  });
+
+  it('should return 404 for other paths', async () => {
+    const response = await fetch(new URL('/other', baseUrl));
+    expect(response.status).toBe(404);
+  });
+});
@@ -5,6 +5,10 @@ describe('CLIArguments', () => {
     const validArgs: CLIArguments = {
       tools: 'exa_search,research_paper_search',
       'list-tools': false,
+      transport: 'stdio',
+      port: 3000,
+      host: '127.0.0.1',
+      format: 'text',
       _: ['arg1', 123],
       $0: 'exa-mcp-server',
     };
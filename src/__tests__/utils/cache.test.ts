@@ -1,4 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 
 // Clear all mocks before imports to ensure clean state
 beforeEach(() => {
@@ -13,6 +16,9 @@ jest.mock('../../config/index.js', () => ({
     cache: {
       enabled: true,
       maxSize: 10,
+      maxMemoryMb: 64,
+      compression: 'brotli',
+      compressionThreshold: 1024,
       ttlMinutes: 1
     },
     exa: {
@@ -41,7 +47,9 @@ jest.mock('../../utils/pinoLogger.js', () => ({
 }));
 
 // Now import the modules after mocks are set up
-import { RequestCache, globalCache, createCachedRequest, CacheStats, getGlobalCache, resetGlobalCache } from '../../utils/cache.js';
+import { RequestCache, globalCache, createCachedRequest, CacheExport, CacheStats, getGlobalCache, resetGlobalCache } from '../../utils/cache.js';
+import { FileCacheStore, PersistedCacheEntry } from '../../utils/persistentCache.js';
+import { structuredLogger } from '../../utils/pinoLogger.js';
 
 describe('RequestCache', () => {
   let cache: RequestCache;
@@ -202,6 +210,20 @@ describe('RequestCache', () => {
       const stats = cache.getStats();
       expect(stats.hits).toBe(3);
     });
+
+    it('should not count peeks as hits or misses', () => {
+      const endpoint = '/search';
+      const requestData = { query: 'test' };
+      const responseData = { results: ['result1'] };
+
+      expect(cache.peek(endpoint, requestData)).toBeNull();
+      cache.set(endpoint, requestData, responseData);
+      expect(cache.peek(endpoint, requestData)).toEqual(responseData);
+
+      const stats = cache.getStats();
+      expect(stats.hits).toBe(0);
+      expect(stats.misses).toBe(0);
+    });
   });
 
   describe('LRU eviction', () => {
@@ -231,6 +253,292 @@ describe('RequestCache', () => {
       expect(cache.get(endpoint, { query: 'test1' })).toBeNull();
     });
   });
+
+  describe('size and per-entry TTL', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should evict by response size as well as entry count', () => {
+      // 1 MB budget: two ~400 KB responses fit, a third evicts the least recently used
+      const sizedCache = new RequestCache({ enabled: true, maxSize: 100, maxMemoryMb: 1, ttlMinutes: 1, compression: 'none' });
+      const page = 'x'.repeat(400 * 1024);
+      ['a', 'b', 'c'].forEach(query => sizedCache.set('/contents', { query }, page));
+
+      expect(sizedCache.has('/contents', { query: 'a' })).toBe(false);
+      expect(sizedCache.has('/contents', { query: 'c' })).toBe(true);
+      expect(sizedCache.getStats()).toMatchObject({ size: 2, evictions: 1, bytes: 2 * JSON.stringify(page).length });
+    });
+
+    it('should not cache a response larger than the whole budget', () => {
+      const sizedCache = new RequestCache({ enabled: true, maxSize: 100, maxMemoryMb: 1, ttlMinutes: 1, compression: 'none' });
+      sizedCache.set('/contents', { query: 'huge' }, 'x'.repeat(2 * 1024 * 1024));
+
+      expect(sizedCache.get('/contents', { query: 'huge' })).toBeNull();
+    });
+
+    it('should honour a per-entry TTL and prune expired entries', () => {
+      const now = Date.now();
+      jest.useFakeTimers({ now });
+      const ttlCache = new RequestCache({ enabled: true, maxSize: 10, ttlMinutes: 5 });
+      ttlCache.set('/search', { query: 'short' }, { results: [] }, { ttlMs: 1000 });
+      ttlCache.set('/search', { query: 'default' }, { results: [] });
+
+      jest.setSystemTime(now + 1001);
+      expect(ttlCache.prune()).toBe(1);
+      expect(ttlCache.has('/search', { query: 'short' })).toBe(false);
+      expect(ttlCache.get('/search', { query: 'default' })).toEqual({ results: [] });
+    });
+
+    it('should serve expired entries as stale through lookup() within the stale window only', () => {
+      const now = Date.now();
+      jest.useFakeTimers({ now });
+      const swrCache = new RequestCache({ enabled: true, maxSize: 10, ttlMinutes: 5 });
+      swrCache.set('/search', { query: 'test' }, { results: [] }, { ttlMs: 1000, staleMs: 5000 });
+      expect(swrCache.lookup('/search', { query: 'test' })).toEqual({ data: { results: [] }, stale: false, ageMs: 0 });
+
+      jest.setSystemTime(now + 2000);
+      expect(swrCache.get('/search', { query: 'test' })).toBeNull();
+      expect(swrCache.has('/search', { query: 'test' })).toBe(false);
+      expect(swrCache.lookup('/search', { query: 'test' }, { allowStale: false })).toBeNull();
+      expect(swrCache.lookup('/search', { query: 'test' })).toEqual({ data: { results: [] }, stale: true, ageMs: 2000 });
+
+      jest.setSystemTime(now + 6001);
+      expect(swrCache.lookup('/search', { query: 'test' })).toBeNull();
+      expect(swrCache.getStats()).toMatchObject({ hits: 2, staleHits: 1, misses: 3 });
+    });
+
+    it('should delete single entries', () => {
+      cache.set('/search', { query: 'test' }, { results: [] });
+
+      expect(cache.delete('/search', { query: 'test' })).toBe(true);
+      expect(cache.delete('/search', { query: 'test' })).toBe(false);
+      expect(cache.get('/search', { query: 'test' })).toBeNull();
+    });
+  });
+
+  describe('compression', () => {
+    const page = { url: 'https://example.com', text: 'Vector databases index embeddings. '.repeat(500) };
+
+    it.each(['brotli', 'gzip'] as const)('should store large responses %s-compressed and return them intact', (compression) => {
+      const compressingCache = new RequestCache({ enabled: true, maxSize: 10, ttlMinutes: 1, compression, compressionThreshold: 1024 });
+      compressingCache.set('/contents', { ids: ['a'] }, page);
+      compressingCache.set('/search', { query: 'small' }, { results: [] });
+
+      expect(compressingCache.get('/contents', { ids: ['a'] })).toEqual(page);
+      expect(compressingCache.peek('/search', { query: 'small' })).toEqual({ results: [] });
+
+      const stats = compressingCache.getStats();
+      expect(stats.compressions).toBe(1);
+      expect(stats.compressionRatio).toBeGreaterThan(10);
+      expect(stats.bytes).toBeLessThan(JSON.stringify(page).length / 10);
+      expect(stats.compressionMs).toBeGreaterThan(0);
+      expect(stats.decompressionMs).toBeGreaterThan(0);
+    });
+
+    it('should keep responses as they are below the threshold or when disabled', () => {
+      const plainCache = new RequestCache({ enabled: true, maxSize: 10, ttlMinutes: 1, compression: 'none', compressionThreshold: 1024 });
+      plainCache.set('/contents', { ids: ['a'] }, page);
+
+      expect(plainCache.get('/contents', { ids: ['a'] })).toBe(page);
+      expect(plainCache.getStats()).toMatchObject({ compressions: 0, compressionRatio: 1, bytes: JSON.stringify(page).length });
+    });
+  });
+
+  describe('cache keys', () => {
+    it('should share entries between equivalent requests', () => {
+      cache.set('/search', { query: 'Rust  async ', type: 'auto', numResults: 10, includeDomains: ['GitHub.com', 'docs.rs'] }, { results: ['a'] });
+
+      expect(cache.get('/search', { includeDomains: ['docs.rs', 'github.com'], query: 'rust async', category: undefined })).toEqual({ results: ['a'] });
+      expect(cache.get('/search', { query: 'rust async', numResults: 5 })).toBeNull();
+    });
+
+    it('should only match reworded queries with the semantic cache on', () => {
+      const semanticCache = new RequestCache({ enabled: true, maxSize: 10, ttlMinutes: 1, semantic: true });
+      cache.set('/search', { query: 'best vector databases' }, { results: ['a'] });
+      semanticCache.set('/search', { query: 'best vector databases' }, { results: ['a'] });
+
+      expect(cache.get('/search', { query: 'What are the best vector databases?' })).toBeNull();
+      expect(semanticCache.get('/search', { query: 'What are the best vector databases?' })).toEqual({ results: ['a'] });
+      expect(semanticCache.get('/search', { query: 'What are the best vector databases?', numResults: 5 })).toBeNull();
+      expect(semanticCache.getStats()).toMatchObject({ hits: 1, misses: 1, semanticHits: 1 });
+
+      semanticCache.set('/search', { query: 'migrate from python to rust' }, { results: ['b'] });
+      expect(semanticCache.get('/search', { query: 'Migrate from Rust to Python?' })).toBeNull();
+
+      semanticCache.clearMemory();
+      expect(semanticCache.get('/search', { query: 'vector databases best' })).toBeNull();
+    });
+  });
+
+  describe('administration', () => {
+    beforeEach(() => {
+      cache = new RequestCache({ enabled: true, maxSize: 10, ttlMinutes: 1 });
+      cache.set('/search', { query: 'Vector databases' }, { results: [{ url: 'https://a.com/' }] }, { tool: 'exa_search' });
+      cache.set('/search', { query: 'rust async' }, { results: [{ url: 'https://b.com' }] }, { tool: 'code_search' });
+      cache.set('/contents', { urls: ['https://a.com'] }, { results: [] }, { tool: 'crawling' });
+    });
+
+    it('should break statistics down by endpoint', () => {
+      cache.get('/search', { query: 'vector databases' });
+      cache.get('/answer', { query: 'x' });
+
+      expect(cache.getStats().endpoints).toEqual({
+        '/search': { hits: 1, misses: 0, entries: 2, bytes: expect.any(Number) },
+        '/contents': { hits: 0, misses: 0, entries: 1, bytes: expect.any(Number) },
+        '/answer': { hits: 0, misses: 1, entries: 0, bytes: 0 }
+      });
+    });
+
+    it('should invalidate by tool, endpoint, query and URL', () => {
+      expect(cache.invalidate({ tool: 'exa_search', query: 'RUST' })).toBe(0);
+      expect(cache.invalidate({ url: 'https://a.com' })).toBe(2);
+      expect(cache.has('/contents', { urls: ['https://a.com'] })).toBe(false);
+      expect(cache.invalidate({ endpoint: '/search', query: 'rust' })).toBe(1);
+      expect(cache.getStats().size).toBe(0);
+    });
+
+    it('should export fresh entries and import them elsewhere', () => {
+      const snapshot = cache.export();
+      expect(snapshot).toMatchObject({ version: 1, exportedAt: expect.any(String) });
+      expect(snapshot.entries).toHaveLength(3);
+      expect(snapshot.entries).toContainEqual(expect.objectContaining({
+        endpoint: '/search', request: { query: 'vector databases' }, tool: 'exa_search', data: { results: [{ url: 'https://a.com/' }] }
+      }));
+
+      const other = new RequestCache({ enabled: true, maxSize: 10, ttlMinutes: 1 });
+      const expired = { ...snapshot.entries[0], expiresAt: Date.now() - 1 };
+      expect(other.import({ ...snapshot, entries: [...snapshot.entries, expired] })).toBe(3);
+      expect(other.lookup('/search', { query: 'Vector databases' })).toEqual({ data: { results: [{ url: 'https://a.com/' }] }, stale: false, ageMs: expect.any(Number) });
+      expect(other.invalidate({ tool: 'crawling' })).toBe(1);
+
+      expect(() => other.import({ entries: [] } as unknown as CacheExport)).toThrow('Not a cache export');
+    });
+  });
+
+  describe('persistent tier', () => {
+    const createStore = () => {
+      const entries = new Map<string, PersistedCacheEntry>();
+      return {
+        entries,
+        name: 'memory',
+        get: jest.fn((key: string) => entries.get(key)),
+        set: jest.fn((key: string, entry: PersistedCacheEntry) => { entries.set(key, entry); }),
+        delete: jest.fn((key: string) => { entries.delete(key); }),
+        clear: jest.fn(() => entries.clear()),
+        keys: jest.fn(() => Array.from(entries.keys()))
+      };
+    };
+
+    it('should write through and answer memory misses from the store', () => {
+      const store = createStore();
+      const first = new RequestCache({ enabled: true, maxSize: 5, ttlMinutes: 1, persistent: { store, ttlMinutes: 60 } });
+      first.set('/search', { query: 'test' }, { results: ['a'] });
+
+      const [entry] = Array.from(store.entries.values());
+      expect(entry.expiresAt - entry.timestamp).toBe(60 * 60 * 1000);
+
+      // A fresh instance (e.g. another process or after a restart) shares the store
+      const second = new RequestCache({ enabled: true, maxSize: 5, ttlMinutes: 1, persistent: { store, ttlMinutes: 60 } });
+      expect(second.get('/search', { query: 'test' })).toEqual({ results: ['a'] });
+      expect(second.get('/search', { query: 'test' })).toEqual({ results: ['a'] });
+
+      expect(store.get).toHaveBeenCalledTimes(1);
+      expect(second.getStats()).toMatchObject({ hits: 2, misses: 0, size: 1, persistentHits: 1 });
+    });
+
+    it('should check persistent freshness without reading the entry', () => {
+      const store = { ...createStore(), isFresh: jest.fn((key: string) => store.entries.has(key)) };
+      const writer = new RequestCache({ enabled: true, maxSize: 5, ttlMinutes: 1, persistent: { store, ttlMinutes: 60 } });
+      writer.set('/search', { query: 'test' }, { results: ['a'] });
+      const reader = new RequestCache({ enabled: true, maxSize: 5, ttlMinutes: 1, persistent: { store, ttlMinutes: 60 } });
+
+      expect(reader.has('/search', { query: 'test' })).toBe(true);
+      expect(reader.has('/search', { query: 'other' })).toBe(false);
+      expect(store.isFresh).toHaveBeenCalledTimes(2);
+      expect(store.get).not.toHaveBeenCalled();
+    });
+
+    it('should treat store failures as misses', () => {
+      const store = createStore();
+      store.get.mockImplementation(() => { throw new Error('disk gone'); });
+      store.set.mockImplementation(() => { throw new Error('disk full'); });
+      const persistentCache = new RequestCache({ enabled: true, maxSize: 5, ttlMinutes: 1, persistent: { store, ttlMinutes: 60 } });
+
+      expect(() => persistentCache.set('/search', { query: 'test' }, { results: [] })).not.toThrow();
+      expect(persistentCache.get('/search', { query: 'other' })).toBeNull();
+      expect(persistentCache.getStats().misses).toBe(1);
+    });
+
+    it('should keep the store when disabled but empty it on clear', () => {
+      const store = createStore();
+      const persistentCache = new RequestCache({ enabled: true, maxSize: 5, ttlMinutes: 1, persistent: { store, ttlMinutes: 60 } });
+      persistentCache.set('/search', { query: 'test' }, { results: [] });
+
+      persistentCache.setEnabled(false);
+      expect(store.entries.size).toBe(1);
+
+      persistentCache.clear();
+      expect(store.entries.size).toBe(0);
+    });
+
+    it('should cap the stored lifetime at a per-entry TTL and keep the store on clearMemory', () => {
+      const store = createStore();
+      const persistentCache = new RequestCache({ enabled: true, maxSize: 5, ttlMinutes: 1, persistent: { store, ttlMinutes: 60 } });
+      persistentCache.set('/search', { query: 'test' }, { results: [] }, { ttlMs: 30000 });
+
+      const [entry] = Array.from(store.entries.values());
+      expect(entry.expiresAt - entry.timestamp).toBe(30000);
+
+      persistentCache.clearMemory();
+      expect(persistentCache.getStats().size).toBe(0);
+      expect(persistentCache.get('/search', { query: 'test' })).toEqual({ results: [] });
+    });
+
+    it('should serve a newer entry from the shared store instead of a stale memory entry', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'exa-mcp-cache-'));
+      const now = Date.now();
+      jest.useFakeTimers({ now });
+      try {
+        const createCache = () => new RequestCache({
+          enabled: true, maxSize: 5, ttlMinutes: 1,
+          persistent: { store: new FileCacheStore(dir, { maxBytes: 1024 * 1024, maxEntries: 100 }), ttlMinutes: 60 }
+        });
+        const first = createCache();
+        const second = createCache();
+        first.set('/search', { query: 'test' }, { results: ['old'] }, { ttlMs: 1000, staleMs: 60000 });
+        expect(second.get('/search', { query: 'test' })).toEqual({ results: ['old'] });
+
+        // The first process refreshes the stale entry; the second finds the refresh on disk
+        jest.setSystemTime(now + 2000);
+        expect(first.lookup('/search', { query: 'test' })).toMatchObject({ stale: true });
+        first.set('/search', { query: 'test' }, { results: ['new'] }, { ttlMs: 1000, staleMs: 60000 });
+
+        expect(second.lookup('/search', { query: 'test' })).toEqual({ data: { results: ['new'] }, stale: false, ageMs: 0 });
+        expect(second.getStats()).toMatchObject({ staleHits: 0, persistentHits: 2 });
+
+        // Without a newer copy on disk, the stale memory entry is still served
+        jest.setSystemTime(now + 4000);
+        expect(first.lookup('/search', { query: 'test' })).toMatchObject({ data: { results: ['new'] }, stale: true });
+      } finally {
+        jest.useRealTimers();
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should invalidate and export persistent entries', () => {
+      const store = createStore();
+      const first = new RequestCache({ enabled: true, maxSize: 10, ttlMinutes: 1, persistent: { store, ttlMinutes: 60 } });
+      first.set('/search', { query: 'a' }, { results: [] }, { tool: 'exa_search' });
+      first.set('/search', { query: 'b' }, { results: [] });
+      store.entries.set('legacy', { data: {}, timestamp: Date.now(), expiresAt: Date.now() + 60000 });
+
+      const second = new RequestCache({ enabled: true, maxSize: 10, ttlMinutes: 1, persistent: { store, ttlMinutes: 60 } });
+      expect(second.export().entries.map(entry => entry.request)).toEqual([{ query: 'a' }, { query: 'b' }]);
+      expect(second.invalidate({ tool: 'exa_search' })).toBe(1);
+      expect(store.entries.size).toBe(2);
+    });
+  });
 });
 
 describe('globalCache', () => {
@@ -279,6 +587,19 @@ describe('globalCache', () => {
     expect(globalCache.getStats().size).toBe(0);
   });
 
+  it('should warn once when options arrive after the cache was created', () => {
+    const cache = getGlobalCache();
+    const options = { maxSize: 5 };
+
+    expect(getGlobalCache(options)).toBe(cache);
+    const logger = jest.mocked(structuredLogger.child).mock.results.at(-1)!.value as { warn: jest.Mock };
+    expect(logger.warn).toHaveBeenCalledWith({ options: ['maxSize'] }, 'Ignoring cache options: the global cache was already created');
+
+    const loggersCreated = jest.mocked(structuredLogger.child).mock.calls.length;
+    getGlobalCache(options);
+    expect(jest.mocked(structuredLogger.child).mock.calls.length).toBe(loggersCreated);
+  });
+
   it('should handle configuration errors gracefully', () => {
     // Even if config fails, should create a disabled cache
     const cache = getGlobalCache();
@@ -0,0 +1,56 @@
+import { describe, it, expect } from '@jest/globals';
+
+import { canonicalizeRequest, semanticQuery, semanticRequest } from '../../utils/cacheKey.js';
+
+describe('canonicalizeRequest', () => {
+  it('should sort keys recursively and drop undefined fields', () => {
+    const canonical = canonicalizeRequest('/contents', { urls: ['b', 'a'], text: { maxCharacters: 100, includeHtmlTags: undefined }, livecrawl: undefined });
+
+    expect(JSON.stringify(canonical)).toBe('{"text":{"maxCharacters":100},"urls":["b","a"]}');
+  });
+
+  it('should drop fields equal to the endpoint default', () => {
+    expect(canonicalizeRequest('/search', { query: 'a', type: 'auto', numResults: 10 })).toEqual({ query: 'a' });
+    expect(canonicalizeRequest('/search', { query: 'a', type: 'neural', numResults: 5 })).toEqual({ query: 'a', type: 'neural', numResults: 5 });
+    expect(canonicalizeRequest('/context', { query: 'a', tokensNum: 'dynamic' })).toEqual({ query: 'a' });
+    expect(canonicalizeRequest('/contents', { ids: ['a'], numResults: 10 })).toEqual({ ids: ['a'], numResults: 10 });
+  });
+
+  it('should normalize queries, case-folding them only where the endpoint ignores case', () => {
+    expect(canonicalizeRequest('/search', { query: '  Rust\n async  IO ' })).toEqual({ query: 'rust async io' });
+    expect(canonicalizeRequest('/context', { query: ' useEffect  cleanup ' })).toEqual({ query: 'useEffect cleanup' });
+  });
+
+  it('should normalize domain filters and drop empty ones', () => {
+    expect(canonicalizeRequest('/search', { query: 'a', includeDomains: ['GitHub.com', 'docs.rs', 'github.com'], excludeDomains: [] }))
+      .toEqual({ query: 'a', includeDomains: ['docs.rs', 'github.com'] });
+  });
+});
+
+describe('semanticQuery', () => {
+  it('should ignore case, punctuation and leading filler', () => {
+    expect(semanticQuery('What are the best vector databases?')).toBe('best vector databases');
+    expect(semanticQuery('Tell me about: Rust async!')).toBe(semanticQuery('rust async'));
+    expect(semanticQuery('rust async')).not.toBe(semanticQuery('rust sync'));
+  });
+
+  it('should keep word order and every word after the filler', () => {
+    expect(semanticQuery('migrate from python to rust')).not.toBe(semanticQuery('migrate from rust to python'));
+    expect(semanticQuery('vector databases best')).not.toBe(semanticQuery('best vector databases'));
+    expect(semanticQuery('new york news')).not.toBe(semanticQuery('new york'));
+    expect(semanticQuery('AWS pricing')).toBe('aws pricing');
+    expect(semanticQuery('the who')).toBe('who');
+  });
+
+  it('should keep queries made only of filler words', () => {
+    expect(semanticQuery('What is')).toBe('what is');
+    expect(semanticQuery(' ?! ')).toBe('?!');
+  });
+});
+
+describe('semanticRequest', () => {
+  it('should replace the query and keep the other fields', () => {
+    expect(semanticRequest('/search', { query: 'The best databases?', numResults: 5 })).toEqual({ numResults: 5, query: 'best databases' });
+    expect(semanticRequest('/contents', { ids: ['a'] })).toBeUndefined();
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from '@jest/globals';
+import '../setup.js';
+
+import { resolveCachePolicy } from '../../utils/cachePolicy.js';
+import { getConfig } from '../../config/index.js';
+
+describe('resolveCachePolicy', () => {
+  const minutes = (value: number) => value * 60 * 1000;
+  const config = {
+    ...getConfig().cache,
+    ttlMinutes: 10,
+    policy: { livecrawlTtlMinutes: 1, staleWhileRevalidateMinutes: 60, endpoints: { '/research': 1440, '/answer': 0 }, tools: { exa_search: 30 } }
+  };
+
+  it('should use the tool override, then the endpoint override, then the default TTL', () => {
+    expect(resolveCachePolicy('exa_search', '/search', { query: 'a' }, config)).toEqual({ cache: true, ttlMs: minutes(30), staleMs: minutes(60) });
+    expect(resolveCachePolicy('deep_research', '/research', { instructions: 'a' }, config)).toEqual({ cache: true, ttlMs: minutes(1440), staleMs: minutes(60) });
+    expect(resolveCachePolicy('find_similar', '/findSimilar', { url: 'a' }, config)).toEqual({ cache: true, ttlMs: minutes(10), staleMs: minutes(60) });
+    expect(resolveCachePolicy('exa_answer', '/answer', { query: 'a' }, config)).toMatchObject({ cache: false });
+  });
+
+  it('should bypass the cache for maxAgeHours 0 and cap the TTL at maxAgeHours without a stale window', () => {
+    expect(resolveCachePolicy('crawling', '/contents', { ids: ['a'], maxAgeHours: 0 }, config))
+      .toEqual({ cache: false, reason: 'maxAgeHours 0 asks for fresh content' });
+    expect(resolveCachePolicy('deep_research', '/research', { contents: { maxAgeHours: 2 } }, config))
+      .toEqual({ cache: true, ttlMs: minutes(120), staleMs: 0 });
+    expect(resolveCachePolicy('crawling', '/contents', { maxAgeHours: 24 }, config)).toEqual({ cache: true, ttlMs: minutes(10), staleMs: 0 });
+  });
+
+  it('should keep cached-only requests for the full TTL', () => {
+    expect(resolveCachePolicy('exa_search', '/search', { contents: { maxAgeHours: -1 } }, config)).toEqual({ cache: true, ttlMs: minutes(30), staleMs: minutes(60) });
+  });
+
+  it("should cap calls whose caller asks for livecrawl 'always', or bypass them when configured", () => {
+    const request = { query: 'a', contents: { livecrawl: 'always' } };
+    const args = { query: 'a', livecrawl: 'always' };
+    expect(resolveCachePolicy('exa_search', '/search', request, config, args)).toEqual({ cache: true, ttlMs: minutes(1), staleMs: minutes(60) });
+    expect(resolveCachePolicy('exa_search', '/search', request, { ...config, policy: { ...config.policy, livecrawlTtlMinutes: 0 } }, args))
+      .toMatchObject({ cache: false });
+  });
+
+  it("should ignore the livecrawl 'always' that tools add by default", () => {
+    const request = { query: 'a', contents: { livecrawl: 'always' } };
+    expect(resolveCachePolicy('exa_search', '/search', request, config, { query: 'a' })).toEqual({ cache: true, ttlMs: minutes(30), staleMs: minutes(60) });
+    expect(resolveCachePolicy('web_search', '/search', request, config, { query: 'a' })).toEqual({ cache: true, ttlMs: minutes(10), staleMs: minutes(60) });
+  });
+});
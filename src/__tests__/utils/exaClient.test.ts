@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
 import axios from 'axios';
 
 // Mock dependencies
@@ -11,16 +11,18 @@ jest.mock('../../config/index.js', () => ({
       timeout: 25000, 
       retries: 3 
     },
+    rateLimit: { maxRequests: 100, windowMs: 60000, maxBurst: 10, retryAfterMs: 1000, adaptive: true },
     server: { name: 'test-server', version: '1.0.0' },
     logging: { level: 'ERROR', redactLogs: true },
     environment: { nodeEnv: 'test' },
-    cache: { enabled: true, maxSize: 100, ttlMinutes: 5 },
+    cache: { enabled: true, maxSize: 100, maxMemoryMb: 64, compression: 'brotli', compressionThreshold: 1024, ttlMinutes: 5 },
     tools: { defaultNumResults: 5, defaultMaxCharacters: 3000 }
   }))
 }));
 jest.mock('../../utils/pinoLogger.js');
 
-import { createExaClient } from '../../utils/exaClient.js';
+import { createExaClient, getSharedExaClient, getApiKeyFingerprint, resetSharedExaClient } from '../../utils/exaClient.js';
+import { getGlobalRateLimiter, getTenantRateLimiter, resetGlobalRateLimiter } from '../../utils/rateLimiter.js';
 
 describe('ExaClient', () => {
   const mockedAxios = axios as jest.Mocked<typeof axios>;
@@ -62,6 +64,118 @@ describe('ExaClient', () => {
     });
   });
 
+  describe('Per-session API keys', () => {
+    beforeEach(() => {
+      resetSharedExaClient();
+      (mockedAxios as any).create = jest.fn(() => ({
+        get: jest.fn(),
+        post: jest.fn(),
+        interceptors: {
+          request: { use: jest.fn() },
+          response: { use: jest.fn() }
+        }
+      }));
+    });
+
+    it('should use a session key instead of the configured key', () => {
+      createExaClient('tenant-key');
+
+      expect(mockedAxios.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'x-api-key': 'tenant-key' })
+        })
+      );
+    });
+
+    it('should cache one client per session key', () => {
+      const shared = getSharedExaClient();
+      const tenantA = getSharedExaClient('tenant-a');
+      const tenantB = getSharedExaClient('tenant-b');
+
+      expect(getSharedExaClient()).toBe(shared);
+      expect(getSharedExaClient('tenant-a')).toBe(tenantA);
+      expect(tenantA).not.toBe(shared);
+      expect(tenantA).not.toBe(tenantB);
+    });
+
+    it('should fall back to the shared client when the session key matches the configured key', () => {
+      expect(getSharedExaClient('test-api-key')).toBe(getSharedExaClient());
+    });
+
+    it('should produce a stable fingerprint that does not contain the key', () => {
+      const fingerprint = getApiKeyFingerprint('secret-key-value');
+
+      expect(fingerprint).toBe(getApiKeyFingerprint('secret-key-value'));
+      expect(fingerprint).not.toContain('secret');
+      expect(fingerprint).not.toBe(getApiKeyFingerprint('other-key'));
+    });
+  });
+
+  describe('Adaptive rate limiting', () => {
+    type Interceptor = (value: any) => any;
+
+    // The last response interceptor; axios-retry registers its own first
+    const responseInterceptors = (): [Interceptor, Interceptor] => {
+      const client = (mockedAxios.create as jest.Mock).mock.results[0].value as any;
+      return client.interceptors.response.use.mock.calls.at(-1);
+    };
+
+    afterEach(() => {
+      resetGlobalRateLimiter();
+    });
+
+    it('should feed rate-limit headers to the global rate limiter', () => {
+      createExaClient();
+      const [onResponse] = responseInterceptors();
+
+      const response = { status: 200, headers: { 'ratelimit-limit': '30', 'ratelimit-policy': '30;w=60', 'ratelimit-remaining': '4' } };
+      expect(onResponse(response)).toBe(response);
+
+      const status = getGlobalRateLimiter().getStatus();
+      expect(status.maxRequests).toBe(30);
+      expect(status.learned).toMatchObject({ maxRequests: 30, windowMs: 60000, remaining: 4 });
+      expect(status.tokensAvailable).toBe(4);
+    });
+
+    it('should pause the global rate limiter on 429 and rethrow', async () => {
+      (mockedAxios.isAxiosError as unknown as jest.Mock).mockReturnValueOnce(true);
+      createExaClient();
+      const [, onError] = responseInterceptors();
+
+      const error = { response: { status: 429, headers: { 'retry-after': '30' } } };
+      await expect(onError(error)).rejects.toBe(error);
+
+      const status = getGlobalRateLimiter().getStatus();
+      expect(status.pausedForMs).toBeGreaterThan(29000);
+      expect(getGlobalRateLimiter().canProceed()).toBe(false);
+    });
+
+    it('should keep the shared and per-session keys\' limiters apart', async () => {
+      (mockedAxios as any).create = jest.fn(() => ({
+        interceptors: {
+          request: { use: jest.fn() },
+          response: { use: jest.fn() }
+        }
+      }));
+      (mockedAxios.isAxiosError as unknown as jest.Mock).mockReturnValueOnce(true);
+      createExaClient();
+      createExaClient('tenant-key');
+      const [shared, tenant] = (mockedAxios.create as jest.Mock).mock.results
+        .map(result => (result.value as any).interceptors.response.use.mock.calls.at(-1) as [Interceptor, Interceptor]);
+      const tenantLimiter = getTenantRateLimiter(getApiKeyFingerprint('tenant-key'));
+
+      await expect(shared[1]({ response: { status: 429, headers: { 'retry-after': '30' } } })).rejects.toBeDefined();
+
+      expect(getGlobalRateLimiter().canProceed()).toBe(false);
+      expect(tenantLimiter.canProceed()).toBe(true);
+
+      tenant[0]({ status: 200, headers: { 'ratelimit-limit': '5', 'ratelimit-policy': '5;w=60', 'ratelimit-remaining': '2' } });
+
+      expect(tenantLimiter.getStatus().maxRequests).toBe(5);
+      expect(getGlobalRateLimiter().getStatus().maxRequests).not.toBe(5);
+    });
+  });
+
   describe('Request Handling', () => {
     it('should handle successful requests', async () => {
       const mockClient = {
@@ -10,13 +10,10 @@ jest.mock('../../utils/memoryOptimizer.js', () => ({
   }))
 }));
 
-jest.mock('../../utils/optimizedCache.js', () => ({
-  OptimizedCache: jest.fn().mockImplementation(() => ({
-    clear: jest.fn(),
-    set: jest.fn(),
-    get: jest.fn()
-  }))
-}));
+jest.mock('../../utils/cache.js', () => {
+  const cache = { clear: jest.fn(), set: jest.fn(), get: jest.fn() };
+  return { getGlobalCache: jest.fn(() => cache) };
+});
 
 jest.mock('../../utils/requestBatcher.js', () => ({
   RequestBatcher: jest.fn().mockImplementation(() => ({
@@ -41,12 +38,13 @@ jest.mock('../../utils/urlValidator.js', () => ({
 import { 
   ServiceFactory,
   getMemoryOptimizer,
-  getOptimizedCache,
+  getCache,
   getRateLimiter,
   getURLValidator,
   createRequestBatcher,
   resetServices
 } from '../../utils/factory.js';
+import { getGlobalCache } from '../../utils/cache.js';
 
 describe('ServiceFactory', () => {
   beforeEach(() => {
@@ -79,12 +77,14 @@ describe('ServiceFactory', () => {
       expect(ServiceFactory.hasInstance('memoryOptimizer')).toBe(true);
     });
 
-    it('should create and cache OptimizedCache', () => {
-      const cache1 = ServiceFactory.getOptimizedCache();
-      const cache2 = ServiceFactory.getOptimizedCache();
+    it('should return the shared response cache', () => {
+      ServiceFactory.configure({ cache: { maxSize: 50 } });
+      const cache1 = ServiceFactory.getCache();
+      const cache2 = ServiceFactory.getCache();
       
       expect(cache1).toBe(cache2);
-      expect(ServiceFactory.hasInstance('optimizedCache')).toBe(true);
+      expect(cache1).toBe(getGlobalCache());
+      expect(getGlobalCache).toHaveBeenCalledWith({ maxSize: 50 });
     });
 
     it('should create RequestBatcher instances', () => {
@@ -130,7 +130,6 @@ describe('ServiceFactory', () => {
 
     it('should reset all instances', () => {
       ServiceFactory.getMemoryOptimizer();
-      ServiceFactory.getOptimizedCache();
       ServiceFactory.getRateLimiter();
       
       expect(ServiceFactory.hasInstance('memoryOptimizer')).toBe(true);
@@ -138,7 +137,6 @@ describe('ServiceFactory', () => {
       ServiceFactory.reset();
       
       expect(ServiceFactory.hasInstance('memoryOptimizer')).toBe(false);
-      expect(ServiceFactory.hasInstance('optimizedCache')).toBe(false);
       expect(ServiceFactory.hasInstance('rateLimiter')).toBe(false);
     });
 
@@ -160,10 +158,10 @@ describe('ServiceFactory', () => {
       expect(optimizer).toBe(ServiceFactory.getMemoryOptimizer());
     });
 
-    it('should provide getOptimizedCache helper', () => {
-      const cache = getOptimizedCache();
+    it('should provide getCache helper', () => {
+      const cache = getCache();
       expect(cache).toBeDefined();
-      expect(cache).toBe(ServiceFactory.getOptimizedCache());
+      expect(cache).toBe(ServiceFactory.getCache());
     });
 
     it('should provide getRateLimiter helper', () => {
@@ -25,6 +25,9 @@ jest.mock('../../config/index.js', () => ({
     cache: {
       enabled: true,
       maxSize: 100,
+      maxMemoryMb: 64,
+      compression: 'brotli',
+      compressionThreshold: 1024,
       ttlMinutes: 5
     },
     logging: {
@@ -47,7 +50,10 @@ jest.mock('../../utils/cache.js', () => ({
       hits: 50,
       misses: 50,
       size: 25,
-      hitRate: 50
+      hitRate: 50,
+      evictions: 3,
+      bytes: 4096,
+      compressionRatio: 4.567
     })),
     isEnabled: jest.fn(() => true)
   }))
@@ -59,7 +65,10 @@ jest.mock('../../utils/rateLimiter.js', () => ({
       tokensAvailable: 10,
       maxTokens: 20,
       queueLength: 0,
-      timeUntilRefill: 1000
+      timeUntilRefill: 1000,
+      maxRequests: 100,
+      windowMs: 60000,
+      pausedForMs: 0
     }))
   }))
 }));
@@ -162,6 +171,7 @@ describe('HealthCheckService', () => {
       expect(status.components.cache.name).toBe('Cache');
       expect(status.components.cache.details?.enabled).toBe(true);
       expect(status.components.cache.details?.hitRate).toBe('50.00%');
+      expect(status.components.cache.details).toMatchObject({ evictions: 3, bytes: 4096, compressionRatio: 4.57 });
     });
 
     it('should check rate limiter health', async () => {
@@ -173,6 +183,39 @@ describe('HealthCheckService', () => {
       expect(status.components.rateLimiter.name).toBe('Rate Limiter');
       expect(status.components.rateLimiter.details?.tokensAvailable).toBe(10);
       expect(status.components.rateLimiter.details?.maxTokens).toBe(20);
+      expect(status.components.rateLimiter.details).toMatchObject({
+        limit: '100 requests per 60000ms',
+        limitSource: 'config'
+      });
+    });
+
+    it('should report limits learned from Exa and pauses', async () => {
+      mockedAxios.get.mockResolvedValueOnce({ status: 200, headers: {} } as any);
+      mockedGetGlobalRateLimiter.mockImplementationOnce(() => ({
+        getStatus: () => ({
+          tokensAvailable: 0,
+          maxTokens: 10,
+          queueLength: 2,
+          timeUntilRefill: 0,
+          maxRequests: 30,
+          windowMs: 60000,
+          pausedForMs: 5000,
+          learned: { maxRequests: 30, windowMs: 60000, reportedLimit: 30, remaining: 0, updatedAt: Date.parse('2026-01-01T00:00:00Z') }
+        })
+      }));
+
+      const status = await service.check();
+
+      expect(status.components.rateLimiter.healthy).toBe(true);
+      expect(status.components.rateLimiter.message).toContain('paused for 5000ms');
+      expect(status.components.rateLimiter.details).toMatchObject({
+        limit: '30 requests per 60000ms',
+        limitSource: 'exa',
+        exaLimit: 30,
+        exaRemaining: 0,
+        learnedAt: '2026-01-01T00:00:00.000Z',
+        pausedFor: '5000ms'
+      });
     });
 
     it('should check configuration health', async () => {
@@ -193,7 +236,7 @@ describe('HealthCheckService', () => {
           timeout: 5000,
           retries: 3
         },
-        cache: { enabled: true, maxSize: 100, ttlMinutes: 5 },
+        cache: { enabled: true, maxSize: 100, maxMemoryMb: 64, compression: 'brotli', compressionThreshold: 1024, ttlMinutes: 5 },
         logging: { level: 'ERROR', redactLogs: true },
         environment: { nodeEnv: 'test' },
         server: { name: 'exa-mcp-server', version: '1.0.0' }
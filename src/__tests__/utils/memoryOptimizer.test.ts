@@ -7,14 +7,14 @@ jest.mock('../../config/index.js', () => ({
     server: { name: 'test-server', version: '1.0.0' },
     logging: { level: 'ERROR', redactLogs: true },
     environment: { nodeEnv: 'test' },
-    cache: { enabled: true, maxSize: 100, ttlMinutes: 5 },
+    cache: { enabled: true, maxSize: 100, maxMemoryMb: 64, compression: 'brotli', compressionThreshold: 1024, ttlMinutes: 5 },
     tools: { defaultNumResults: 5, defaultMaxCharacters: 3000 }
   }))
 }));
 jest.mock('../../utils/pinoLogger.js');
-jest.mock('../../utils/optimizedCache.js', () => ({
-  getOptimizedCache: jest.fn(() => ({
-    clear: jest.fn(),
+jest.mock('../../utils/cache.js', () => ({
+  getGlobalCache: jest.fn(() => ({
+    clearMemory: jest.fn(),
     prune: jest.fn(() => 5)
   }))
 }));
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import '../setup.js';
+
+import { createPersistentCacheStore, FileCacheStore, PersistedCacheEntry } from '../../utils/persistentCache.js';
+
+describe('FileCacheStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'exa-mcp-cache-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const entry = (data: unknown, ttlMs = 60000): PersistedCacheEntry => ({
+    data,
+    timestamp: Date.now(),
+    expiresAt: Date.now() + ttlMs
+  });
+
+  it('should share entries between instances on the same directory', () => {
+    const directory = path.join(dir, 'responses');
+    new FileCacheStore(directory, { maxBytes: 1024 * 1024, maxEntries: 100 }).set('abc123', entry({ results: ['a'] }));
+
+    const other = new FileCacheStore(directory, { maxBytes: 1024 * 1024, maxEntries: 100 });
+    expect(other.get('abc123')?.data).toEqual({ results: ['a'] });
+
+    other.delete('abc123');
+    expect(other.get('abc123')).toBeUndefined();
+  });
+
+  it('should list the keys of stored entries', () => {
+    const store = new FileCacheStore(dir, { maxBytes: 1024 * 1024, maxEntries: 100 });
+    expect(store.keys()).toEqual([]);
+
+    store.set('abc', entry('a'));
+    store.set('def', entry('d'));
+    fs.writeFileSync(path.join(dir, 'ghi.json.123.tmp'), '');
+
+    expect(store.keys().sort()).toEqual(['abc', 'def']);
+  });
+
+  it('should drop expired and corrupt entries on read', () => {
+    const store = new FileCacheStore(dir, { maxBytes: 1024 * 1024, maxEntries: 100 });
+    store.set('expired', { data: 'old', timestamp: Date.now() - 2000, expiresAt: Date.now() - 1000 });
+    fs.writeFileSync(path.join(dir, 'corrupt.json'), '{"data":');
+
+    expect(store.get('expired')).toBeUndefined();
+    expect(store.get('corrupt')).toBeUndefined();
+    expect(fs.readdirSync(dir)).toEqual([]);
+  });
+
+  it('should check freshness from the file time alone', () => {
+    const store = new FileCacheStore(dir, { maxBytes: 1024 * 1024, maxEntries: 100 });
+    store.set('fresh', entry({ results: [] }));
+    store.set('expired', entry({ results: [] }, -1000));
+    fs.writeFileSync(path.join(dir, 'fresh.json'), 'not read');
+    fs.utimesSync(path.join(dir, 'fresh.json'), new Date(), new Date(Date.now() + 60000));
+
+    expect(store.isFresh('fresh')).toBe(true);
+    expect(store.isFresh('expired')).toBe(false);
+    expect(store.isFresh('missing')).toBe(false);
+  });
+
+  it('should reject keys that are not plain file names', () => {
+    const store = new FileCacheStore(dir, { maxBytes: 1024, maxEntries: 10 });
+    expect(() => store.set('../escape', entry('x'))).toThrow('Invalid cache key');
+  });
+
+  it('should prune expired entries, then the soonest-expiring beyond the limits', () => {
+    const store = new FileCacheStore(dir, { maxBytes: 1024 * 1024, maxEntries: 2, pruneEvery: 1000 });
+    store.set('first', entry('a', 10000));
+    store.set('second', entry('b', 20000));
+    store.set('third', entry('c', 30000));
+    store.set('gone', { data: 'x', timestamp: Date.now() - 2000, expiresAt: Date.now() - 1000 });
+
+    expect(store.prune()).toBe(2);
+    expect(fs.readdirSync(dir).sort()).toEqual(['second.json', 'third.json']);
+  });
+
+  it('should enforce the size limit when pruning on write', () => {
+    const store = new FileCacheStore(dir, { maxBytes: 300, maxEntries: 100, pruneEvery: 1 });
+    for (let i = 0; i < 5; i++) {
+      store.set(`entry${i}`, entry('x'.repeat(100), 10000 + i));
+    }
+
+    const files = fs.readdirSync(dir);
+    const totalBytes = files.reduce((sum, name) => sum + fs.statSync(path.join(dir, name)).size, 0);
+    expect(totalBytes).toBeLessThanOrEqual(300);
+    expect(files).toContain('entry4.json');
+  });
+
+  it('should only be created when enabled', () => {
+    const config = { enabled: false, backend: 'file' as const, directory: dir, maxSizeMb: 1, maxEntries: 10, ttlHours: 1 };
+    expect(createPersistentCacheStore(config)).toBeUndefined();
+    expect(createPersistentCacheStore({ ...config, enabled: true })).toBeInstanceOf(FileCacheStore);
+  });
+});
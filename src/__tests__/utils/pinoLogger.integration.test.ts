@@ -11,16 +11,17 @@ describe('PinoLogger Integration', () => {
     process.env.EXA_API_KEY = 'test-key';
 
     // Mock config
-    jest.doMock('../../config/index.js', () => ({
-      getConfig: jest.fn(() => ({
+    jest.doMock('../../config/index.js', () => {
+      const config = () => ({
         exa: { apiKey: 'test-key', baseUrl: 'https://api.exa.ai' },
         server: { name: 'test-server', version: '1.0.0' },
         logging: { level: 'ERROR', redactLogs: true },
         environment: { nodeEnv: 'test' },
-        cache: { enabled: true, maxSize: 100, ttlMinutes: 5 },
+        cache: { enabled: true, maxSize: 100, maxMemoryMb: 64, compression: 'brotli', compressionThreshold: 1024, ttlMinutes: 5 },
         tools: { defaultNumResults: 5, defaultMaxCharacters: 3000 }
-      }))
-    }));
+      });
+      return { getConfig: jest.fn(config), getConfigIfValid: jest.fn(config) };
+    });
 
     // Unmock pinoLogger so we get the real implementation
     jest.unmock('../../utils/pinoLogger.js');
@@ -38,8 +38,8 @@ jest.mock('pino', () => {
 });
 
 // Mock the config
-jest.mock('../../config/index.js', () => ({
-  getConfig: () => ({
+jest.mock('../../config/index.js', () => {
+  const config = () => ({
     logging: {
       level: 'DEBUG',
       redactLogs: false
@@ -51,8 +51,9 @@ jest.mock('../../config/index.js', () => ({
     environment: {
       nodeEnv: 'test'
     }
-  })
-}));
+  });
+  return { getConfig: config, getConfigIfValid: config };
+});
 
 describe('Pino Structured Logger', () => {
   const originalEnv = process.env;
@@ -1,5 +1,13 @@
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
-import { RateLimiter, RateLimitError, getGlobalRateLimiter, resetGlobalRateLimiter } from '../../utils/rateLimiter.js';
+import {
+  RateLimiter,
+  RateLimitError,
+  getGlobalRateLimiter,
+  getTenantRateLimiter,
+  resetGlobalRateLimiter,
+  parseRateLimitHeaders
+} from '../../utils/rateLimiter.js';
+import { RequestCancelledError } from '../../utils/cancellation.js';
 
 // Mock pinoLogger
 jest.mock('../../utils/pinoLogger.js', () => ({
@@ -101,6 +109,33 @@ describe('RateLimiter', () => {
       // Should resolve now
       await expect(queuePromise).resolves.toBeUndefined();
     });
+
+    it('should reject immediately when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(rateLimiter.queue(controller.signal)).rejects.toThrow(RequestCancelledError);
+      expect(rateLimiter.getStatus().tokensAvailable).toBe(5);
+    });
+
+    it('should release the queue slot when a queued request is cancelled', async () => {
+      for (let i = 0; i < 5; i++) {
+        await rateLimiter.consume();
+      }
+
+      const controller = new AbortController();
+      const cancelled = rateLimiter.queue(controller.signal);
+      const waiting = rateLimiter.queue();
+      expect(rateLimiter.getStatus().queueLength).toBe(2);
+
+      controller.abort();
+
+      await expect(cancelled).rejects.toThrow(RequestCancelledError);
+      expect(rateLimiter.getStatus().queueLength).toBe(1);
+
+      // The remaining request gets the next token
+      await expect(waiting).resolves.toBeUndefined();
+    });
   });
 
   describe('Status reporting', () => {
@@ -122,6 +157,98 @@ describe('RateLimiter', () => {
     });
   });
 
+  describe('Adaptive limits', () => {
+    it('should parse X-RateLimit, RateLimit and Retry-After headers', () => {
+      const now = Date.parse('2026-01-01T00:00:00Z');
+
+      expect(parseRateLimitHeaders({
+        'x-ratelimit-limit': '60',
+        'x-ratelimit-remaining': '12',
+        'x-ratelimit-reset': String(now / 1000 + 30)
+      }, now)).toEqual({ limit: 60, remaining: 12, resetMs: 30000 });
+
+      expect(parseRateLimitHeaders({
+        'ratelimit-limit': '10, 10;w=1',
+        'ratelimit-policy': '10;w=1',
+        'ratelimit-remaining': '0',
+        'ratelimit-reset': '2',
+        'retry-after': 'Thu, 01 Jan 2026 00:00:05 GMT'
+      }, now)).toEqual({ limit: 10, windowMs: 1000, remaining: 0, resetMs: 2000, retryAfterMs: 5000 });
+
+      expect(parseRateLimitHeaders({ 'retry-after': '1.5' }, now)).toEqual({ retryAfterMs: 1500 });
+      expect(parseRateLimitHeaders({ 'x-ratelimit-limit': 'unlimited' }, now)).toEqual({});
+    });
+
+    it('should adopt a limit with a known window and cap tokens at the remaining count', () => {
+      rateLimiter.observe(200, { 'ratelimit-limit': '2', 'ratelimit-policy': '2;w=1', 'ratelimit-remaining': '1' });
+
+      const status = rateLimiter.getStatus();
+      expect(status.maxRequests).toBe(2);
+      expect(status.windowMs).toBe(1000);
+      expect(status.maxTokens).toBe(2);
+      expect(status.tokensAvailable).toBe(1);
+      expect(status.learned).toMatchObject({ maxRequests: 2, windowMs: 1000, reportedLimit: 2, remaining: 1 });
+    });
+
+    it('should only report a limit whose window is unknown', () => {
+      // "2" might be per second: applying it per the configured window could throttle everything
+      rateLimiter.observe(200, { 'x-ratelimit-limit': '2', 'x-ratelimit-remaining': '1' });
+
+      const status = rateLimiter.getStatus();
+      expect(status.maxRequests).toBe(5);
+      expect(status.windowMs).toBe(100);
+      expect(status.maxTokens).toBe(5);
+      expect(status.tokensAvailable).toBe(1);
+      expect(status.learned).toEqual({ reportedLimit: 2, remaining: 1, updatedAt: expect.any(Number) });
+    });
+
+    it('should keep the configured limit for responses without headers', () => {
+      rateLimiter.observe(200, {});
+
+      const status = rateLimiter.getStatus();
+      expect(status.maxRequests).toBe(5);
+      expect(status.learned).toBeUndefined();
+    });
+
+    it('should pause the queue until Retry-After on 429', async () => {
+      rateLimiter.observe(429, { 'retry-after': '0.2' });
+
+      expect(rateLimiter.canProceed()).toBe(false);
+      expect(rateLimiter.getStatus().pausedForMs).toBeGreaterThan(100);
+      await expect(rateLimiter.consume()).rejects.toThrow(RateLimitError);
+
+      const startTime = Date.now();
+      await rateLimiter.queue();
+
+      expect(Date.now() - startTime).toBeGreaterThanOrEqual(180);
+      expect(rateLimiter.getStatus().pausedForMs).toBe(0);
+    });
+
+    it('should pause until the reset time when the window is exhausted', () => {
+      rateLimiter.observe(200, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '10' });
+
+      expect(rateLimiter.canProceed()).toBe(false);
+      expect(rateLimiter.getStatus().pausedForMs).toBeGreaterThan(9000);
+    });
+
+    it('should not shorten a longer pause', () => {
+      rateLimiter.pause(10000);
+      rateLimiter.observe(429, { 'retry-after': '1' });
+
+      expect(rateLimiter.getStatus().pausedForMs).toBeGreaterThan(9000);
+    });
+
+    it('should forget learned limits and pauses on reset', () => {
+      rateLimiter.observe(429, { 'ratelimit-limit': '1', 'ratelimit-policy': '1;w=10', 'retry-after': '10' });
+      rateLimiter.reset();
+
+      const status = rateLimiter.getStatus();
+      expect(status.maxRequests).toBe(5);
+      expect(status.pausedForMs).toBe(0);
+      expect(status.learned).toBeUndefined();
+    });
+  });
+
   describe('Reset functionality', () => {
     it('should reset to initial state', async () => {
       // Consume some tokens
@@ -145,6 +272,14 @@ describe('RateLimiter', () => {
       expect(limiter1).toBe(limiter2);
     });
 
+    it('should use the rateLimit config section', () => {
+      const status = getGlobalRateLimiter().getStatus();
+
+      expect(status.maxRequests).toBe(100);
+      expect(status.windowMs).toBe(60000);
+      expect(status.maxTokens).toBe(10);
+    });
+
     it('should reset global instance', () => {
       const limiter1 = getGlobalRateLimiter();
       resetGlobalRateLimiter();
@@ -152,5 +287,17 @@ describe('RateLimiter', () => {
       
       expect(limiter1).not.toBe(limiter2);
     });
+
+    it('should give each per-session key its own limiter', async () => {
+      expect(getTenantRateLimiter()).toBe(getGlobalRateLimiter());
+      expect(getTenantRateLimiter('key-a')).toBe(getTenantRateLimiter('key-a'));
+      expect(getTenantRateLimiter('key-a')).not.toBe(getTenantRateLimiter('key-b'));
+
+      // A 429 on the shared key doesn't hold up tenant calls
+      getGlobalRateLimiter().observe(429, { 'retry-after': '30' });
+
+      expect(getGlobalRateLimiter().canProceed()).toBe(false);
+      await expect(getTenantRateLimiter('key-a').queue()).resolves.toBeUndefined();
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import '../setup.js';
+
+import { ResearchJobStore } from '../../utils/researchJobStore.js';
+
+describe('ResearchJobStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'exa-mcp-jobs-'));
+    filePath = path.join(dir, 'state', 'research-jobs.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const addJob = (store: ResearchJobStore, taskId: string, tenant?: string) =>
+    store.add({ taskId, objective: `Objective ${taskId}`, structured: false, status: 'pending', tenant });
+
+  it('should persist jobs so a new instance sees them', async () => {
+    await addJob(new ResearchJobStore(filePath), 'task-1');
+
+    const reopened = new ResearchJobStore(filePath);
+    expect(reopened.get('task-1')).toMatchObject({ objective: 'Objective task-1', status: 'pending' });
+
+    await reopened.update('task-1', { status: 'processing', progress: 40 });
+    expect(new ResearchJobStore(filePath).get('task-1')).toMatchObject({ status: 'processing', progress: 40 });
+  });
+
+  it('should keep tenants apart', async () => {
+    const store = new ResearchJobStore(filePath);
+    await addJob(store, 'shared-task');
+    await addJob(store, 'tenant-task', 'key-abc');
+
+    expect(store.get('tenant-task')).toBeUndefined();
+    expect(await store.update('tenant-task', { status: 'cancelled' })).toBeUndefined();
+    expect(store.list().map(job => job.taskId)).toEqual(['shared-task']);
+    expect(store.list({ tenant: 'key-abc' }).map(job => job.taskId)).toEqual(['tenant-task']);
+  });
+
+  it('should list newest first with status filter and limit', async () => {
+    const store = new ResearchJobStore(filePath);
+    await Promise.all(['a', 'b', 'c'].map(taskId => addJob(store, taskId)));
+    await store.update('b', { status: 'completed' });
+
+    expect(store.list().map(job => job.taskId)).toEqual(['c', 'b', 'a']);
+    expect(store.list({ limit: 2 }).map(job => job.taskId)).toEqual(['c', 'b']);
+    expect(store.list({ status: 'completed' }).map(job => job.taskId)).toEqual(['b']);
+  });
+
+  it('should keep only the newest jobs', async () => {
+    const store = new ResearchJobStore(filePath, 2);
+    await Promise.all(['a', 'b', 'c'].map(taskId => addJob(store, taskId)));
+
+    expect(store.list().map(job => job.taskId)).toEqual(['c', 'b']);
+  });
+
+  it('should treat an unreadable file as empty', async () => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, '{not json');
+    const store = new ResearchJobStore(filePath);
+
+    expect(store.list()).toEqual([]);
+    await addJob(store, 'task-1');
+    expect(store.list()).toHaveLength(1);
+  });
+
+  it('should not lose jobs added concurrently through separate instances', async () => {
+    const first = new ResearchJobStore(filePath);
+    const second = new ResearchJobStore(filePath);
+
+    await Promise.all(['a', 'b', 'c', 'd'].flatMap(taskId => [
+      addJob(first, `first-${taskId}`),
+      addJob(second, `second-${taskId}`)
+    ]));
+
+    expect(first.list()).toHaveLength(8);
+    expect(fs.existsSync(`${filePath}.lock`)).toBe(false);
+  });
+
+  it('should take over a stale lock', async () => {
+    const lockPath = `${filePath}.lock`;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(lockPath, '12345:crashed');
+    const old = new Date(Date.now() - 60000);
+    fs.utimesSync(lockPath, old, old);
+    const store = new ResearchJobStore(filePath);
+
+    await addJob(store, 'task-1');
+
+    expect(store.get('task-1')).toBeDefined();
+    expect(fs.readdirSync(path.dirname(filePath))).toEqual(['research-jobs.json']);
+  });
+
+  it('should drop a change instead of writing without a held lock, without blocking', async () => {
+    const lockPath = `${filePath}.lock`;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(lockPath, '12345:busy');
+    const store = new ResearchJobStore(filePath, 200, 100);
+    let timerFired = false;
+    setTimeout(() => { timerFired = true; }, 20);
+
+    await addJob(store, 'task-1');
+
+    expect(timerFired).toBe(true);
+    expect(store.get('task-1')).toBeUndefined();
+    expect(fs.readFileSync(lockPath, 'utf8')).toBe('12345:busy');
+  });
+});
@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import '../setup.js';
+
+jest.mock('../../utils/pinoLogger.js', () => {
+  const mockLogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  return {
+    structuredLogger: {
+      ...mockLogger,
+      child: jest.fn(() => mockLogger)
+    },
+    flushLogger: jest.fn(() => Promise.resolve())
+  };
+});
+
+import { ShutdownManager, ServerShuttingDownError, installSignalHandlers } from '../../utils/shutdown.js';
+import { getGlobalRateLimiter, resetGlobalRateLimiter } from '../../utils/rateLimiter.js';
+import { ServiceFactory } from '../../utils/factory.js';
+import { flushLogger } from '../../utils/pinoLogger.js';
+
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+describe('ShutdownManager', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetGlobalRateLimiter();
+    ServiceFactory.reset();
+  });
+
+  afterEach(() => {
+    resetGlobalRateLimiter();
+    ServiceFactory.reset();
+  });
+
+  it('should track active calls', async () => {
+    const manager = new ShutdownManager({ drainTimeoutMs: 1000 });
+    const gate = deferred();
+
+    const call = manager.run(undefined, () => gate.promise.then(() => 'done'));
+    expect(manager.getActiveCount()).toBe(1);
+
+    gate.resolve();
+    await expect(call).resolves.toBe('done');
+    expect(manager.getActiveCount()).toBe(0);
+  });
+
+  it('should forward client cancellation to the call signal', async () => {
+    const manager = new ShutdownManager({ drainTimeoutMs: 1000 });
+    const controller = new AbortController();
+    let callSignal: AbortSignal | undefined;
+
+    const call = manager.run(controller.signal, (signal) => {
+      callSignal = signal;
+      return new Promise<void>(resolve => signal.addEventListener('abort', () => resolve()));
+    });
+    controller.abort();
+    await call;
+
+    expect(callSignal?.aborted).toBe(true);
+  });
+
+  it('should wait for active calls and refuse new ones while draining', async () => {
+    const manager = new ShutdownManager({ drainTimeoutMs: 1000 });
+    const gate = deferred();
+    const closer = jest.fn<() => void>();
+    manager.onClose(closer);
+
+    const call = manager.run(undefined, () => gate.promise);
+    const shutdown = manager.shutdown('SIGTERM');
+
+    expect(manager.isShuttingDown()).toBe(true);
+    await expect(manager.run(undefined, async () => 'late')).rejects.toThrow(ServerShuttingDownError);
+    expect(closer).not.toHaveBeenCalled();
+
+    gate.resolve();
+    await call;
+    await shutdown;
+
+    expect(closer).toHaveBeenCalledTimes(1);
+    expect(flushLogger).toHaveBeenCalled();
+  });
+
+  it('should abort calls still running after the drain timeout', async () => {
+    const manager = new ShutdownManager({ drainTimeoutMs: 20 });
+    let callSignal: AbortSignal | undefined;
+
+    const call = manager.run(undefined, (signal) => {
+      callSignal = signal;
+      return new Promise<void>(resolve => signal.addEventListener('abort', () => resolve()));
+    });
+
+    await manager.shutdown('SIGINT');
+    await call;
+
+    expect(callSignal?.aborted).toBe(true);
+  });
+
+  it('should reject requests waiting in the rate limiter queue', async () => {
+    const limiter = getGlobalRateLimiter({ maxRequests: 1, windowMs: 60000, maxBurst: 1 });
+    await limiter.queue();
+    const queued = limiter.queue();
+
+    await new ShutdownManager({ drainTimeoutMs: 0 }).shutdown('SIGTERM');
+
+    await expect(queued).rejects.toThrow(ServerShuttingDownError);
+    expect(limiter.getStatus().queueLength).toBe(0);
+  });
+
+  it('should flush request batchers and reset services', async () => {
+    const processor = jest.fn(async (items: unknown[]) => items.map(item => `processed ${item}`));
+    const batcher = ServiceFactory.createRequestBatcher(processor, { batchDelayMs: 10000, maxWaitMs: 10000 });
+    const pending = batcher.add('a');
+    ServiceFactory.getMemoryOptimizer();
+
+    await new ShutdownManager({ drainTimeoutMs: 0 }).shutdown('SIGTERM');
+
+    await expect(pending).resolves.toBe('processed a');
+    expect(ServiceFactory.hasInstance('memoryOptimizer')).toBe(false);
+  });
+
+  it('should only run the sequence once', async () => {
+    const manager = new ShutdownManager({ drainTimeoutMs: 0 });
+    const closer = jest.fn<() => void>();
+    manager.onClose(closer);
+
+    await Promise.all([manager.shutdown('SIGINT'), manager.shutdown('SIGTERM')]);
+
+    expect(closer).toHaveBeenCalledTimes(1);
+  });
+
+  it('should continue when a closer fails', async () => {
+    const manager = new ShutdownManager({ drainTimeoutMs: 0 });
+    const second = jest.fn<() => void>();
+    manager.onClose(() => { throw new Error('close failed'); });
+    manager.onClose(second);
+
+    await manager.shutdown('SIGTERM');
+
+    expect(second).toHaveBeenCalled();
+  });
+});
+
+describe('installSignalHandlers', () => {
+  it('should shut down and exit on SIGTERM, and exit immediately on a second signal', async () => {
+    const manager = new ShutdownManager({ drainTimeoutMs: 1000 });
+    const gate = deferred();
+    const exit = jest.fn<(code: number) => void>();
+    const uninstall = installSignalHandlers(manager, exit);
+
+    try {
+      const call = manager.run(undefined, () => gate.promise);
+
+      process.emit('SIGTERM');
+      expect(manager.isShuttingDown()).toBe(true);
+      expect(exit).not.toHaveBeenCalled();
+
+      process.emit('SIGINT');
+      expect(exit).toHaveBeenCalledWith(1);
+
+      gate.resolve();
+      await call;
+      await manager.shutdown('SIGTERM');
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(exit).toHaveBeenLastCalledWith(0);
+    } finally {
+      uninstall();
+    }
+  });
+});
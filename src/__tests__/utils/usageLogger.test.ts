@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import '../setup.js';
+
+import { logExaUsage } from '../../utils/usageLogger.js';
+
+describe('logExaUsage', () => {
+  let dir: string;
+  let csvPath: string;
+  const originalCsv = process.env.EXA_USAGE_CSV;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'exa-mcp-usage-'));
+    csvPath = path.join(dir, 'exa-usage.csv');
+    process.env.EXA_USAGE_CSV = csvPath;
+  });
+
+  afterEach(() => {
+    if (originalCsv === undefined) {
+      delete process.env.EXA_USAGE_CSV;
+    } else {
+      process.env.EXA_USAGE_CSV = originalCsv;
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should start a new file with the header', () => {
+    logExaUsage('web_search_exa', 'ok', 'a, b', 'tenant-a');
+
+    const lines = fs.readFileSync(csvPath, 'utf8').trim().split('\n');
+    expect(lines[0]).toBe('timestamp,tool,status,note,tenant');
+    expect(lines[1]).toMatch(/^[^,]+,web_search_exa,ok,a; b,tenant-a$/);
+  });
+
+  it('should move a file with the old header aside', () => {
+    fs.writeFileSync(csvPath, 'timestamp,tool,status,note\n2025-01-01T00:00:00Z,web_search_exa,ok,\n');
+
+    logExaUsage('web_search_exa', 'ok');
+
+    const lines = fs.readFileSync(csvPath, 'utf8').trim().split('\n');
+    expect(lines[0]).toBe('timestamp,tool,status,note,tenant');
+    expect(lines).toHaveLength(2);
+    const rotated = fs.readdirSync(dir).filter(name => name !== 'exa-usage.csv');
+    expect(rotated).toHaveLength(1);
+    expect(rotated[0]).toMatch(/^exa-usage\.\d{8}T\d{6}Z\.csv$/);
+    expect(fs.readFileSync(path.join(dir, rotated[0]), 'utf8')).toContain('timestamp,tool,status,note\n');
+  });
+});
@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import { CacheExport, CacheInvalidation, CacheStore } from "../utils/cache.js";
+import { CliUsageError, ToolCallOutcome } from "./call.js";
+
+export const CACHE_COMMAND_ACTIONS = ['stats', 'invalidate', 'clear', 'export', 'import'] as const;
+
+export type CacheCommandAction = typeof CACHE_COMMAND_ACTIONS[number];
+
+/**
+ * Options of the `cache` subcommand
+ */
+export interface CacheCommandOptions {
+  /** invalidate: criteria, at least one */
+  filter?: CacheInvalidation;
+  /** export: file to write (stdout when omitted or "-"); import: file to read */
+  file?: string;
+  /** stats: print JSON */
+  json?: boolean;
+}
+
+/**
+ * Entry counts and sizes of an export, per endpoint and tool
+ */
+export interface CacheExportSummary {
+  entries: number;
+  /** Serialized size of the responses */
+  bytes: number;
+  endpoints: Record<string, { entries: number; bytes: number }>;
+  tools: Record<string, { entries: number; bytes: number }>;
+}
+
+/**
+ * Count the entries of an export
+ */
+export function summarizeCacheExport(snapshot: CacheExport): CacheExportSummary {
+  const summary: CacheExportSummary = { entries: 0, bytes: 0, endpoints: {}, tools: {} };
+  for (const entry of snapshot.entries) {
+    const bytes = JSON.stringify(entry.data)?.length ?? 0;
+    const groups = [summary, summary.endpoints[entry.endpoint] ??= { entries: 0, bytes: 0 }];
+    if (entry.tool !== undefined) {
+      groups.push(summary.tools[entry.tool] ??= { entries: 0, bytes: 0 });
+    }
+    for (const group of groups) {
+      group.entries++;
+      group.bytes += bytes;
+    }
+  }
+  return summary;
+}
+
+function formatSummary(summary: CacheExportSummary): string {
+  const lines = [`Entries: ${summary.entries} (${summary.bytes} bytes)`];
+  for (const [title, groups] of [['By endpoint:', summary.endpoints], ['By tool:', summary.tools]] as const) {
+    const sorted = Object.entries(groups).sort(([a], [b]) => a.localeCompare(b));
+    if (sorted.length > 0) {
+      lines.push(title, ...sorted.map(([name, group]) => `- ${name}: ${group.entries} entries (${group.bytes} bytes)`));
+    }
+  }
+  return lines.join('\n');
+}
+
+function readExport(file: string): CacheExport {
+  let raw: string;
+  try {
+    raw = fs.readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new CliUsageError(`Cannot read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  try {
+    return JSON.parse(raw) as CacheExport;
+  } catch (error) {
+    throw new CliUsageError(`${file} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Run a `cache` subcommand against a cache store. Outside the server process
+ * the in-memory tier starts empty, so this works on the persistent tier:
+ * `stats` summarizes its entries rather than reporting hit rates.
+ * @returns Output to print and the exit code
+ * @throws CliUsageError for missing criteria, unreadable files or invalid exports
+ */
+export function runCacheCommand(
+  action: CacheCommandAction,
+  cache: CacheStore,
+  options: CacheCommandOptions = {}
+): ToolCallOutcome {
+  switch (action) {
+    case 'stats': {
+      const summary = summarizeCacheExport(cache.export());
+      return { output: options.json ? JSON.stringify(summary, null, 2) : formatSummary(summary), exitCode: 0 };
+    }
+    case 'invalidate': {
+      const filter = options.filter ?? {};
+      if (Object.values(filter).every(value => value === undefined)) {
+        throw new CliUsageError('cache invalidate needs at least one of --tool, --endpoint, --url or --query');
+      }
+      const invalidated = cache.invalidate(filter);
+      return { output: `Invalidated ${invalidated} cached ${invalidated === 1 ? 'response' : 'responses'}`, exitCode: 0 };
+    }
+    case 'clear':
+      cache.clear();
+      return { output: 'Cache cleared', exitCode: 0 };
+    case 'export': {
+      const snapshot = cache.export();
+      const json = JSON.stringify(snapshot, null, 2);
+      if (options.file === undefined || options.file === '-') {
+        return { output: json, exitCode: 0 };
+      }
+      fs.writeFileSync(options.file, `${json}\n`);
+      return { output: `Exported ${snapshot.entries.length} cached responses to ${options.file}`, exitCode: 0 };
+    }
+    case 'import': {
+      if (options.file === undefined) {
+        throw new CliUsageError('cache import needs a file written by cache export');
+      }
+      const snapshot = readExport(options.file);
+      let imported: number;
+      try {
+        imported = cache.import(snapshot);
+      } catch (error) {
+        throw new CliUsageError(`${options.file}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      const total = Array.isArray(snapshot.entries) ? snapshot.entries.length : 0;
+      return { output: `Imported ${imported} of ${total} cached responses (expired ones are skipped)`, exitCode: 0 };
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { ToolRegistry, ToolResult } from "../tools/config.js";
+import { toolRegistry } from "../tools/index.js";
+
+/**
+ * Thrown for bad command-line input (unknown tool, malformed arguments)
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+/**
+ * Options for a one-shot tool call
+ */
+export interface ToolCallOptions {
+  /** Print the full ToolResult (including structuredContent) as JSON instead of the text */
+  json?: boolean;
+  /** Registry to look the tool up in (defaults to the built-in toolRegistry) */
+  registry?: Record<string, ToolRegistry>;
+}
+
+/**
+ * What the CLI should print and exit with
+ */
+export interface ToolCallOutcome {
+  output: string;
+  exitCode: number;
+}
+
+/**
+ * Parse a `--arg` value: JSON when it parses (numbers, booleans, arrays, objects),
+ * otherwise the raw string
+ */
+function parseArgValue(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Build tool arguments from `--args '{json}'` and repeated `--arg key=value` flags.
+ * `--arg` values override keys from `--args`; repeating a key collects the values into an array.
+ * @throws CliUsageError for invalid JSON or a flag without `=`
+ */
+export function parseToolArguments(argsJson?: string, argPairs: string[] = []): Record<string, unknown> {
+  let args: Record<string, unknown> = {};
+
+  if (argsJson) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(argsJson);
+    } catch (error) {
+      throw new CliUsageError(`--args is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new CliUsageError('--args must be a JSON object');
+    }
+    args = { ...(parsed as Record<string, unknown>) };
+  }
+
+  const seen = new Set<string>();
+  for (const pair of argPairs) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      throw new CliUsageError(`--arg must look like key=value, got "${pair}"`);
+    }
+    const key = pair.slice(0, separator);
+    const value = parseArgValue(pair.slice(separator + 1));
+
+    if (seen.has(key)) {
+      const existing = args[key];
+      args[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+    } else {
+      args[key] = value;
+      seen.add(key);
+    }
+  }
+
+  return args;
+}
+
+/**
+ * Render a tool result for stdout
+ */
+export function formatToolResult(result: ToolResult, json = false): string {
+  if (json) {
+    return JSON.stringify(result, null, 2);
+  }
+  return result.content.map(item => item.text).join('\n');
+}
+
+/**
+ * Run a registered tool's handler once, outside of any MCP session.
+ * Any registry tool can be called, including ones disabled by default.
+ * @returns Output to print and the exit code (1 when the result is an error)
+ * @throws CliUsageError if the tool does not exist
+ */
+export async function runToolCall(
+  toolId: string,
+  args: Record<string, unknown>,
+  options: ToolCallOptions = {}
+): Promise<ToolCallOutcome> {
+  const registry = options.registry ?? toolRegistry;
+  const tool = registry[toolId];
+  if (!tool) {
+    throw new CliUsageError(`Unknown tool: ${toolId}. Available tools: ${Object.keys(registry).join(', ')}`);
+  }
+
+  const result = await tool.handler(args, {});
+
+  return {
+    output: formatToolResult(result, options.json),
+    exitCode: result.isError ? 1 : 0
+  };
+}
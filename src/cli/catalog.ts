@@ -0,0 +1,156 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { ToolExample, ToolRegistry, isZodObject } from "../tools/config.js";
+import { CliUsageError } from "./call.js";
+
+export type CatalogFormat = 'text' | 'json';
+
+/**
+ * JSON Schema object as produced by zod-to-json-schema
+ */
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * Machine-readable description of one tool
+ */
+export interface ToolCatalogEntry {
+  name: string;
+  description: string;
+  /** Whether the tool is enabled by default */
+  enabled: boolean;
+  /** JSON Schema for the tool's arguments */
+  inputSchema: JsonSchema;
+  /** JSON Schema for structuredContent, when the tool declares one */
+  outputSchema?: JsonSchema;
+  annotations?: ToolAnnotations;
+  examples: ToolExample[];
+}
+
+/**
+ * Convert a zod schema to JSON Schema the same way the MCP SDK does for tools/list
+ */
+function toJsonSchema(schema: z.ZodRawShape | z.ZodObject<z.ZodRawShape>): JsonSchema {
+  const zodObject = isZodObject(schema) ? schema : z.object(schema);
+  return zodToJsonSchema(zodObject, { strictUnions: true }) as JsonSchema;
+}
+
+/**
+ * Describe a single tool
+ */
+export function describeTool(tool: ToolRegistry): ToolCatalogEntry {
+  return {
+    name: tool.name,
+    description: tool.description,
+    enabled: tool.enabled,
+    inputSchema: toJsonSchema(tool.schema),
+    ...(tool.outputSchema && { outputSchema: toJsonSchema(tool.outputSchema) }),
+    ...(tool.annotations && { annotations: tool.annotations }),
+    examples: tool.examples ?? []
+  };
+}
+
+/**
+ * Describe every tool in a registry, in registration order
+ */
+export function buildToolCatalog(registry: Record<string, ToolRegistry>): ToolCatalogEntry[] {
+  return Object.values(registry).map(describeTool);
+}
+
+/**
+ * Render `--list-tools` output
+ */
+export function formatToolList(registry: Record<string, ToolRegistry>, format: CatalogFormat = 'text'): string {
+  if (format === 'json') {
+    return JSON.stringify(buildToolCatalog(registry), null, 2);
+  }
+
+  let output = "Available tools:\n";
+  Object.entries(registry).forEach(([id, tool]) => {
+    output += `- ${id}: ${tool.name}\n`;
+    output += `  Description: ${tool.description}\n`;
+    output += `  Enabled by default: ${tool.enabled ? 'Yes' : 'No'}\n\n`;
+  });
+  return output.trimEnd();
+}
+
+/**
+ * Quote a string for a POSIX shell command line
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Summarize a JSON Schema property type for the parameter list
+ */
+function describeType(property: JsonSchema): string {
+  if (Array.isArray(property.enum)) {
+    return property.enum.map(value => JSON.stringify(value)).join(' | ');
+  }
+  if (Array.isArray(property.anyOf)) {
+    return (property.anyOf as JsonSchema[]).map(describeType).join(' | ');
+  }
+  if (property.const !== undefined) {
+    return JSON.stringify(property.const);
+  }
+  if (property.type === 'array' && property.items && typeof property.items === 'object') {
+    return `${describeType(property.items as JsonSchema)}[]`;
+  }
+  if (Array.isArray(property.type)) {
+    return property.type.join(' | ');
+  }
+  return typeof property.type === 'string' ? property.type : 'any';
+}
+
+/**
+ * Render `describe-tool` output
+ * @throws CliUsageError if the tool does not exist
+ */
+export function formatToolDescription(
+  registry: Record<string, ToolRegistry>,
+  toolId: string,
+  format: CatalogFormat = 'text'
+): string {
+  const tool = registry[toolId];
+  if (!tool) {
+    throw new CliUsageError(`Unknown tool: ${toolId}. Available tools: ${Object.keys(registry).join(', ')}`);
+  }
+
+  const entry = describeTool(tool);
+  if (format === 'json') {
+    return JSON.stringify(entry, null, 2);
+  }
+
+  let output = `${entry.name}${entry.enabled ? '' : ' (disabled by default)'}\n\n`;
+  output += `${entry.description}\n\n`;
+
+  const properties = (entry.inputSchema.properties ?? {}) as Record<string, JsonSchema>;
+  const required = new Set((entry.inputSchema.required ?? []) as string[]);
+  output += "Parameters:\n";
+  const names = Object.keys(properties);
+  if (names.length === 0) {
+    output += "  (none)\n";
+  }
+  names.forEach((name) => {
+    const property = properties[name];
+    output += `  ${name}${required.has(name) ? '' : '?'}: ${describeType(property)}`;
+    if (property.default !== undefined) {
+      output += ` (default: ${JSON.stringify(property.default)})`;
+    }
+    output += '\n';
+    if (typeof property.description === 'string') {
+      output += `      ${property.description}\n`;
+    }
+  });
+
+  if (entry.examples.length > 0) {
+    output += "\nExamples:\n";
+    entry.examples.forEach((example) => {
+      output += `  # ${example.description}\n`;
+      output += `  exa-mcp-server call ${entry.name} --args ${shellQuote(JSON.stringify(example.arguments))}\n\n`;
+    });
+  }
+
+  return output.trimEnd();
+}
@@ -0,0 +1,130 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+/**
+ * File names looked up in each search directory, in order
+ */
+export const CONFIG_FILE_NAMES = ['exa-mcp.config.json', 'exa-mcp.config.yaml', 'exa-mcp.config.yml'];
+
+/**
+ * Thrown when a configuration file is missing, unreadable or malformed
+ */
+export class ConfigFileError extends Error {
+  constructor(message: string, public readonly filePath: string) {
+    super(`${filePath}: ${message}`);
+    this.name = 'ConfigFileError';
+  }
+}
+
+/**
+ * Parsed configuration file
+ */
+export interface ConfigFile {
+  path: string;
+  values: Record<string, unknown>;
+}
+
+/**
+ * Directories searched for a configuration file when none is given explicitly:
+ * the working directory, then `$XDG_CONFIG_HOME/exa-mcp` (default `~/.config/exa-mcp`)
+ */
+export function getConfigSearchPaths(cwd: string = process.cwd()): string[] {
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return [cwd, path.join(configHome, 'exa-mcp')];
+}
+
+/**
+ * Locate the configuration file.
+ * An explicit path (`--config` or `EXA_MCP_CONFIG`) must exist; otherwise the
+ * first of CONFIG_FILE_NAMES found in the search paths is used.
+ * @returns Absolute path, or undefined when no file was found
+ * @throws ConfigFileError if an explicit path does not exist
+ */
+export function findConfigFile(explicitPath?: string, cwd: string = process.cwd()): string | undefined {
+  if (explicitPath) {
+    const resolved = path.resolve(cwd, explicitPath);
+    if (!fs.existsSync(resolved)) {
+      throw new ConfigFileError('config file not found', resolved);
+    }
+    return resolved;
+  }
+
+  for (const dir of getConfigSearchPaths(cwd)) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = path.join(dir, name);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read and parse a JSON or YAML configuration file (chosen by extension)
+ * @throws ConfigFileError if the file can't be read or parsed, or isn't an object
+ */
+export function loadConfigFile(filePath: string): ConfigFile {
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    throw new ConfigFileError(`cannot read file (${error instanceof Error ? error.message : String(error)})`, filePath);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = /\.ya?ml$/i.test(filePath) ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new ConfigFileError(`invalid syntax (${error instanceof Error ? error.message : String(error)})`, filePath);
+  }
+
+  // An empty YAML document parses to null; treat it as an empty config
+  if (parsed === null || parsed === undefined) {
+    return { path: filePath, values: {} };
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ConfigFileError('top level must be an object', filePath);
+  }
+  return { path: filePath, values: parsed as Record<string, unknown> };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Deep-merge configuration layers; later layers win.
+ * Undefined values (unset env vars) never override earlier layers, and arrays are replaced, not concatenated.
+ */
+export function mergeConfigLayers(...layers: Record<string, unknown>[]): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value === undefined) {
+        continue;
+      }
+      const existing = result[key];
+      result[key] = isPlainObject(existing) && isPlainObject(value)
+        ? mergeConfigLayers(existing, value)
+        : value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Look up a value by key path (e.g. ['cache', 'maxSize'])
+ */
+export function getValueAtPath(values: unknown, keyPath: (string | number)[]): unknown {
+  let current = values;
+  for (const key of keyPath) {
+    if (!isPlainObject(current) && !Array.isArray(current)) {
+      return undefined;
+    }
+    current = (current as Record<string | number, unknown>)[key];
+  }
+  return current;
+}
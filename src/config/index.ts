@@ -1,11 +1,81 @@
 import { z } from 'zod';
 import dotenv from 'dotenv';
+import { ConfigFile, ConfigFileError, findConfigFile, getValueAtPath, loadConfigFile, mergeConfigLayers } from './file.js';
 
-// Load environment variables once at module initialization
-dotenv.config();
+// Load environment variables once at module initialization (quietly: stdout carries MCP and CLI output)
+dotenv.config({ quiet: true });
 
 /**
- * Environment configuration schema with strict validation
+ * Treats the string 'false' (env var) or boolean false (config file) as false, anything else as true
+ */
+const defaultTrue = (val: unknown) => val === 'false' || val === false ? false : true;
+
+/**
+ * Splits a comma-separated env var into a list; arrays (config file) and undefined pass through
+ */
+const commaList = (val: unknown) => typeof val === 'string'
+  ? val.split(',').map(item => item.trim()).filter(Boolean)
+  : val;
+
+/**
+ * Search request fields a preset tool can fix or expose as parameters.
+ * `maxAgeHours` goes into the request's contents options; the rest are top-level search fields.
+ */
+const presetSearchFieldsSchema = z.object({
+  type: z.enum(['auto', 'instant', 'fast', 'neural', 'deep', 'deep-reasoning']).optional(),
+  category: z.enum(['company', 'research paper', 'news', 'personal site', 'financial report', 'people']).optional(),
+  includeDomains: z.array(z.string()).optional(),
+  excludeDomains: z.array(z.string()).optional(),
+  startPublishedDate: z.string().optional(),
+  endPublishedDate: z.string().optional(),
+  startCrawlDate: z.string().optional(),
+  endCrawlDate: z.string().optional(),
+  includeText: z.string().optional(),
+  excludeText: z.string().optional(),
+  userLocation: z.string().optional(),
+  numResults: z.number().int().min(1).max(100).optional(),
+  maxAgeHours: z.number().min(-1).optional()
+}).strict();
+
+/**
+ * Declarative search tool built on /search: fixed request fields plus the
+ * parameters the caller may set (`query` is always exposed)
+ */
+const presetToolSchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9_]{0,63}$/, 'Must start with a lowercase letter and contain only lowercase letters, digits and underscores (max 64)'),
+  description: z.string().min(1),
+  enabled: z.boolean().default(true),
+  request: presetSearchFieldsSchema.default({}),
+  parameters: z.array(presetSearchFieldsSchema.keyof()).default([]),
+  examples: z.array(z.object({
+    description: z.string(),
+    arguments: z.record(z.unknown())
+  }).strict()).optional()
+}).strict().superRefine((preset, ctx) => {
+  preset.parameters.forEach((parameter, index) => {
+    if (preset.request[parameter] !== undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['parameters', index],
+        message: `"${parameter}" is fixed in request and can't also be a parameter`
+      });
+    }
+  });
+});
+
+/**
+ * Preset search tool definition from the config file
+ */
+export type PresetToolConfig = z.infer<typeof presetToolSchema>;
+
+/**
+ * Search field a preset tool can fix or expose
+ */
+export type PresetSearchField = keyof z.infer<typeof presetSearchFieldsSchema>;
+
+/**
+ * Configuration schema with strict validation.
+ * Sections are strict too, so typos in a config file are reported instead of ignored.
  */
 const configSchema = z.object({
   // Required API configuration
@@ -14,49 +84,129 @@ const configSchema = z.object({
     baseUrl: z.string().url().default('https://api.exa.ai'),
     timeout: z.coerce.number().int().min(1000).max(60000).default(25000),
     retries: z.coerce.number().int().min(0).max(10).default(3)
-  }),
+  }).strict(),
+
+  // Client-side limit on Exa API requests (token bucket shared by all tools).
+  // Limits Exa reports in rate-limit headers replace maxRequests/windowMs when adaptive is on
+  rateLimit: z.object({
+    maxRequests: z.coerce.number().int().min(1).max(100000).default(100),
+    windowMs: z.coerce.number().int().min(1000).max(3600000).default(60000),
+    maxBurst: z.coerce.number().int().min(1).max(10000).default(10),
+    // Pause after a 429 response that carries neither Retry-After nor a reset header
+    retryAfterMs: z.coerce.number().int().min(100).max(600000).default(1000),
+    adaptive: z.preprocess(defaultTrue, z.boolean().default(true))
+  }).strict().default({}),
   
   // Server configuration
   server: z.object({
     name: z.string().default('exa-search-server'),
-    version: z.string().default('0.3.6')
-  }),
+    version: z.string().default('0.3.6'),
+    drainTimeoutMs: z.coerce.number().int().min(0).max(300000).default(10000),
+    // HTTP transport: Host headers and browser origins to accept (defaults follow --host/--port)
+    allowedHosts: z.preprocess(commaList, z.array(z.string().min(1)).optional()),
+    allowedOrigins: z.preprocess(commaList, z.array(z.string().min(1)).optional()),
+    // HTTP transport: close sessions idle this long (0 keeps them until DELETE) and cap how many are open
+    sessionIdleMinutes: z.coerce.number().min(0).max(24 * 60).default(30),
+    maxSessions: z.coerce.number().int().min(1).max(100000).default(1000)
+  }).strict(),
   
   // Logging configuration
   logging: z.object({
-    level: z.enum(['ERROR', 'WARN', 'INFO', 'DEBUG']).default(
-      process.env.NODE_ENV === 'production' ? 'ERROR' : 'DEBUG'
+    level: z.preprocess(
+      (val) => typeof val === 'string' ? val.toUpperCase() : val,
+      z.enum(['ERROR', 'WARN', 'INFO', 'DEBUG']).default(
+        process.env.NODE_ENV === 'production' ? 'ERROR' : 'DEBUG'
+      )
     ),
-    redactLogs: z.preprocess(
-      (val) => val === 'false' ? false : true,
-      z.boolean().default(true)
-    )
-  }),
+    redactLogs: z.preprocess(defaultTrue, z.boolean().default(true))
+  }).strict(),
   
   // Environment settings
   environment: z.object({
     nodeEnv: z.enum(['development', 'test', 'production']).default('development')
-  }),
+  }).strict(),
   
   // Tool defaults
   tools: z.object({
     defaultNumResults: z.coerce.number().int().min(1).max(50).default(3),
     defaultMaxCharacters: z.coerce.number().int().min(100).max(10000).default(3000)
-  }),
+  }).strict(),
   
   // Cache configuration
   cache: z.object({
-    enabled: z.preprocess(
-      (val) => val === 'false' ? false : true,
-      z.boolean().default(true)
-    ),
+    enabled: z.preprocess(defaultTrue, z.boolean().default(true)),
     maxSize: z.coerce.number().int().min(10).max(1000).default(100),
-    ttlMinutes: z.coerce.number().int().min(1).max(60).default(5)
+    // Approximate bound on the size of cached responses in memory
+    maxMemoryMb: z.coerce.number().min(1).max(4096).default(64),
+    // Responses larger than compressionThreshold bytes are kept compressed in memory
+    compression: z.enum(['brotli', 'gzip', 'none']).default('brotli'),
+    compressionThreshold: z.coerce.number().int().min(0).default(1024),
+    // Treat queries that differ only in case, punctuation or leading filler words as the same
+    semantic: z.preprocess(
+      (val) => val === 'true' || val === true,
+      z.boolean().default(false)
+    ),
+    // TTL overrides in minutes by tool name or endpoint (0 = never cache); a request's
+    // maxAgeHours or the caller's livecrawl still narrows them (see utils/cachePolicy.ts)
+    policy: z.object({
+      livecrawlTtlMinutes: z.coerce.number().min(0).max(60).default(1),
+      // Serve expired responses for this long while refreshing them in the background (0 = off)
+      staleWhileRevalidateMinutes: z.coerce.number().min(0).max(24 * 60).default(0),
+      endpoints: z.record(z.string(), z.number().min(0).max(30 * 24 * 60)).default({ '/research': 24 * 60 }),
+      tools: z.record(z.string(), z.number().min(0).max(30 * 24 * 60)).default({})
+    }).strict().default({}),
+    ttlMinutes: z.coerce.number().int().min(1).max(60).default(5),
+    // Second tier on disk, shared by server processes and kept across restarts
+    persistent: z.object({
+      enabled: z.preprocess(
+        (val) => val === 'true' || val === true,
+        z.boolean().default(false)
+      ),
+      backend: z.enum(['file']).default('file'),
+      // Default: $XDG_CACHE_HOME/exa-mcp/responses
+      directory: z.string().min(1).optional(),
+      maxSizeMb: z.coerce.number().min(1).max(10240).default(100),
+      maxEntries: z.coerce.number().int().min(10).max(1000000).default(10000),
+      ttlHours: z.coerce.number().min(0.1).max(24 * 30).default(24)
+    }).strict().default({})
+  }).strict(),
+
+  // Async deep_research jobs
+  research: z.object({
+    // Where job metadata is persisted (default: $XDG_STATE_HOME/exa-mcp/research-jobs.json)
+    jobsFile: z.string().min(1).optional()
+  }).strict().default({}),
+
+  // Runtime administration
+  admin: z.object({
+    toolAdmin: z.preprocess(
+      (val) => val === 'true' || val === true,
+      z.boolean().default(false)
+    ),
+    // cache_stats, cache_invalidate and cache_clear tools
+    cacheAdmin: z.preprocess(
+      (val) => val === 'true' || val === true,
+      z.boolean().default(false)
+    )
+  }).strict().default({}),
+
+  // Tool plugins: module paths or package names (config file only; --plugins adds more)
+  plugins: z.array(z.string().min(1)).default([]),
+
+  // Preset search tools (config file only)
+  presets: z.array(presetToolSchema).default([]).superRefine((presets, ctx) => {
+    const seen = new Set<string>();
+    presets.forEach((preset, index) => {
+      if (seen.has(preset.name)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'name'], message: `Duplicate preset tool name "${preset.name}"` });
+      }
+      seen.add(preset.name);
+    });
   })
 }).strict();
 
 /**
- * Raw environment variable mapping for validation
+ * Raw environment variable mapping for validation (the highest-precedence layer)
  */
 function createRawConfig() {
   return {
@@ -66,12 +216,24 @@ function createRawConfig() {
       timeout: process.env.EXA_TIMEOUT,
       retries: process.env.EXA_RETRIES
     },
+    rateLimit: {
+      maxRequests: process.env.EXA_RATE_LIMIT_MAX_REQUESTS,
+      windowMs: process.env.EXA_RATE_LIMIT_WINDOW_MS,
+      maxBurst: process.env.EXA_RATE_LIMIT_BURST,
+      retryAfterMs: process.env.EXA_RATE_LIMIT_RETRY_AFTER_MS,
+      adaptive: process.env.EXA_RATE_LIMIT_ADAPTIVE
+    },
     server: {
       name: process.env.SERVER_NAME,
-      version: process.env.SERVER_VERSION
+      version: process.env.SERVER_VERSION,
+      drainTimeoutMs: process.env.SHUTDOWN_DRAIN_TIMEOUT_MS,
+      allowedHosts: process.env.HTTP_ALLOWED_HOSTS,
+      allowedOrigins: process.env.HTTP_ALLOWED_ORIGINS,
+      sessionIdleMinutes: process.env.HTTP_SESSION_IDLE_MINUTES,
+      maxSessions: process.env.HTTP_MAX_SESSIONS
     },
     logging: {
-      level: process.env.LOG_LEVEL?.toUpperCase(),
+      level: process.env.LOG_LEVEL,
       redactLogs: process.env.REDACT_LOGS
     },
     environment: {
@@ -84,7 +246,28 @@ function createRawConfig() {
     cache: {
       enabled: process.env.CACHE_ENABLED,
       maxSize: process.env.CACHE_MAX_SIZE,
-      ttlMinutes: process.env.CACHE_TTL_MINUTES
+      maxMemoryMb: process.env.CACHE_MAX_MEMORY_MB,
+      compression: process.env.CACHE_COMPRESSION,
+      compressionThreshold: process.env.CACHE_COMPRESSION_THRESHOLD,
+      semantic: process.env.CACHE_SEMANTIC,
+      ttlMinutes: process.env.CACHE_TTL_MINUTES,
+      policy: {
+        livecrawlTtlMinutes: process.env.CACHE_LIVECRAWL_TTL_MINUTES,
+        staleWhileRevalidateMinutes: process.env.CACHE_STALE_WHILE_REVALIDATE_MINUTES
+      },
+      persistent: {
+        enabled: process.env.CACHE_PERSISTENT,
+        directory: process.env.CACHE_DIR,
+        maxSizeMb: process.env.CACHE_PERSISTENT_MAX_MB,
+        ttlHours: process.env.CACHE_PERSISTENT_TTL_HOURS
+      }
+    },
+    research: {
+      jobsFile: process.env.EXA_RESEARCH_JOBS_FILE
+    },
+    admin: {
+      toolAdmin: process.env.EXA_TOOL_ADMIN,
+      cacheAdmin: process.env.EXA_CACHE_ADMIN
     }
   };
 }
@@ -99,6 +282,71 @@ export type Config = z.infer<typeof configSchema>;
  */
 let cachedConfig: Config | null = null;
 
+/**
+ * Config file given with --config (takes precedence over EXA_MCP_CONFIG and the search path)
+ */
+let explicitConfigFile: string | undefined;
+
+/**
+ * Config file the cached configuration was loaded from, if any
+ */
+let loadedConfigFile: string | undefined;
+
+/**
+ * Configuration layers before validation
+ */
+interface RawConfigLayers {
+  file?: ConfigFile;
+  env: ReturnType<typeof createRawConfig>;
+  merged: Record<string, unknown>;
+}
+
+/**
+ * Read the config file (if any) and environment variables and merge them.
+ * Precedence, lowest to highest: schema defaults, config file, environment variables (including .env).
+ * @throws ConfigFileError if the config file can't be found, read or parsed
+ */
+function loadRawConfig(): RawConfigLayers {
+  const filePath = findConfigFile(explicitConfigFile ?? process.env.EXA_MCP_CONFIG);
+  const file = filePath ? loadConfigFile(filePath) : undefined;
+  const env = createRawConfig();
+  return { file, env, merged: mergeConfigLayers(file?.values ?? {}, env) };
+}
+
+/**
+ * Name where an invalid value came from: the key path, prefixed with the
+ * config file when the value was set there rather than in the environment
+ */
+function describeIssueLocation(issue: z.ZodIssue, layers: RawConfigLayers): string {
+  const keyPaths = issue.code === 'unrecognized_keys'
+    ? issue.keys.map(key => [...issue.path, key])
+    : [issue.path];
+
+  return keyPaths.map((keyPath) => {
+    const label = keyPath.join('.') || '(root)';
+    const fromFile = layers.file
+      && getValueAtPath(layers.env, keyPath) === undefined
+      && (issue.code === 'unrecognized_keys' || getValueAtPath(layers.file.values, keyPath) !== undefined);
+    return fromFile ? `${layers.file!.path}: ${label}` : label;
+  }).join(', ');
+}
+
+/**
+ * Use a specific config file instead of searching for one (the --config flag).
+ * Clears the cached configuration so the next getConfig() reloads it.
+ */
+export function setConfigFile(filePath: string | undefined): void {
+  explicitConfigFile = filePath;
+  cachedConfig = null;
+}
+
+/**
+ * Path of the config file the current configuration was loaded from, if any
+ */
+export function getLoadedConfigFile(): string | undefined {
+  return loadedConfigFile;
+}
+
 /**
  * Validates and returns the application configuration
  * Fails fast with detailed error messages on validation failure
@@ -108,25 +356,32 @@ export function getConfig(): Config {
     return cachedConfig;
   }
   
+  let layers: RawConfigLayers | undefined;
   try {
-    const rawConfig = createRawConfig();
-    const validatedConfig = configSchema.parse(rawConfig);
+    layers = loadRawConfig();
+    const validatedConfig = configSchema.parse(layers.merged);
     
     // Freeze the configuration to prevent runtime modifications
     cachedConfig = Object.freeze(validatedConfig) as Config;
+    loadedConfigFile = layers.file?.path;
     
     return cachedConfig;
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      /* eslint-disable no-console */
+    /* eslint-disable no-console */
+    if (error instanceof ConfigFileError) {
+      console.error(`\n❌ Configuration file error: ${error.message}\n`);
+    } else if (error instanceof z.ZodError && layers) {
       console.error('\n❌ Configuration validation failed:');
       console.error('=====================================');
+      if (layers.file) {
+        console.error(`Config file: ${layers.file.path}`);
+      }
       
       // Group errors by path for better readability
       const errorsByPath = new Map<string, string[]>();
       
       error.errors.forEach(err => {
-        const path = err.path.join('.');
+        const path = describeIssueLocation(err, layers!);
         const message = err.message;
         
         if (!errorsByPath.has(path)) {
@@ -147,7 +402,8 @@ export function getConfig(): Config {
       console.error('- LOG_LEVEL: ERROR, WARN, INFO, or DEBUG');
       console.error('- REDACT_LOGS: true or false (default: true)');
       console.error('- NODE_ENV: development, test, or production');
-      console.error('\n💡 See .env.example for a complete configuration template');
+      console.error('- EXA_MCP_CONFIG: path to an exa-mcp.config.json/.yaml file');
+      console.error('\n💡 See .env.example and examples/exa-mcp.config.yaml for complete configuration templates');
       console.error('=====================================\n');
     } else {
       console.error('❌ Unexpected configuration error:', error);
@@ -163,11 +419,28 @@ export function getConfig(): Config {
   }
 }
 
+/**
+ * Returns the configuration if it is valid, or null otherwise.
+ * Unlike getConfig() it never prints or exits, so modules loaded before
+ * validation (e.g. the logger) can fall back to defaults.
+ */
+export function getConfigIfValid(): Config | null {
+  if (cachedConfig) {
+    return cachedConfig;
+  }
+  try {
+    const result = configSchema.safeParse(loadRawConfig().merged);
+    return result.success ? getConfig() : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Validates configuration without caching (useful for testing)
  */
 export function validateConfig(rawConfig?: Record<string, unknown>): Config {
-  const configToValidate = rawConfig || createRawConfig();
+  const configToValidate = rawConfig || loadRawConfig().merged;
   return configSchema.parse(configToValidate);
 }
 
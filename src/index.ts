@@ -1,17 +1,45 @@
 #!/usr/bin/env node
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, RegisteredTool } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import yargs from 'yargs';
 import { hideBin } from 'yargs/helpers';
-import { z } from 'zod';
 
 // Import configuration first to validate environment variables
-import { getConfig } from "./config/index.js";
+import { getConfig, getConfigIfValid, getLoadedConfigFile, setConfigFile } from "./config/index.js";
 // Import the tool registry system
 import { toolRegistry } from "./tools/index.js";
-import { ToolHandlerExtra } from "./tools/config.js";
-import { logInfo, logError } from "./utils/pinoLogger.js";
+import { promptRegistry } from "./prompts/index.js";
+import { ToolHandlerExtra, ToolRegistry, toolInputShape } from "./tools/config.js";
+import { ToolStateManager } from "./tools/tool-state.js";
+import { createToolAdminTool } from "./tools/toolAdmin.js";
+import { createCacheAdminTools } from "./tools/cacheAdmin.js";
+import { registerPresetTools } from "./tools/presets.js";
+import { loadPlugins } from "./tools/plugins.js";
+import { getResearchJobStore } from "./utils/researchJobStore.js";
+import { getGlobalCache } from "./utils/cache.js";
+import { createPersistentCacheStore } from "./utils/persistentCache.js";
+import { logInfo, logError, flushLogger, setLogLevel } from "./utils/pinoLogger.js";
 import { CLIArguments } from "./types/cli.js";
+import { CliUsageError, parseToolArguments, runToolCall } from "./cli/call.js";
+import { formatToolDescription, formatToolList } from "./cli/catalog.js";
+import { CACHE_COMMAND_ACTIONS, runCacheCommand } from "./cli/cache.js";
+import { startHttpServer, HttpSessionContext } from "./transports/http.js";
+import { getApiKeyFingerprint } from "./utils/exaClient.js";
+import { getResourceStore, registerResources } from "./resources/index.js";
+import { ShutdownManager, ServerShuttingDownError, installSignalHandlers } from "./utils/shutdown.js";
+
+/**
+ * Transport selection from the command line
+ */
+interface TransportOptions {
+  transport: 'stdio' | 'http';
+  port: number;
+  host: string;
+  allowedHosts?: string[];
+  allowedOrigins?: string[];
+  sessionIdleTimeoutMs?: number;
+  maxSessions?: number;
+}
 
 /**
  * Exa AI Web Search MCP Server
@@ -27,65 +55,178 @@ import { CLIArguments } from "./types/cli.js";
  */
 
 class ExaServer {
-  private server: McpServer;
-  private specifiedTools: Set<string>;
+  private toolState: ToolStateManager;
+  private toolAdmin: ToolRegistry | null;
+  private cacheAdmin: ToolRegistry[];
+  private shutdown: ShutdownManager;
 
-  constructor(specifiedTools: Set<string>) {
-    this.server = new McpServer({
-      name: "exa-search-server",
-      version: "0.3.6"
-    });
-    this.specifiedTools = specifiedTools;
+  constructor(specifiedTools: Set<string>, options: { toolAdmin?: boolean; cacheAdmin?: boolean; shutdown: ShutdownManager }) {
+    this.shutdown = options.shutdown;
+    this.toolState = new ToolStateManager(
+      Object.keys(toolRegistry),
+      Object.entries(toolRegistry)
+        // If specific tools were provided, only enable those.
+        // Otherwise, enable all tools marked as enabled by default
+        .filter(([toolId, tool]) => specifiedTools.size > 0
+          ? specifiedTools.has(toolId)
+          : tool.enabled)
+        .map(([toolId]) => toolId)
+    );
+    this.toolAdmin = options.toolAdmin ? createToolAdminTool(this.toolState) : null;
+    this.cacheAdmin = options.cacheAdmin ? createCacheAdminTools(getGlobalCache()) : [];
     
     logInfo("Server initialized");
   }
 
-  private setupTools(): string[] {
-    // Register tools based on specifications
-    const registeredTools: string[] = [];
+  /**
+   * Build a new McpServer with every registry tool registered and the inactive ones disabled.
+   * Stdio uses a single instance; the HTTP transport builds one per session.
+   * Runtime enable/disable toggles the registered tools, which notifies clients via
+   * `notifications/tools/list_changed`.
+   */
+  private createMcpServer(context: HttpSessionContext = {}): McpServer {
+    const server = new McpServer({
+      name: "exa-search-server",
+      version: "0.3.6"
+    });
+
+    const exaSession = context.apiKey
+      ? { apiKey: context.apiKey, tenant: getApiKeyFingerprint(context.apiKey) }
+      : undefined;
 
-    Object.entries(toolRegistry).forEach(([toolId, tool]) => {
-      // If specific tools were provided, only enable those.
-      // Otherwise, enable all tools marked as enabled by default
-      const shouldRegister = this.specifiedTools.size > 0
-        ? this.specifiedTools.has(toolId)
-        : tool.enabled;
-
-      if (shouldRegister) {
-        // Convert ZodObject to ZodRawShape for MCP server compatibility
-        const schema = tool.schema instanceof z.ZodObject ? tool.schema.shape : tool.schema;
-
-        // Wrap the handler to inject the server instance for progress notifications
-        const enhancedHandler = async (args: Record<string, unknown>, extra: Record<string, unknown>) => {
-          // Pass the server instance to tools for v1.18.0 progress notifications
-          const enhancedExtra: ToolHandlerExtra = {
-            ...(extra || {}),
-            server: this.server
-          };
-          return tool.handler(args, enhancedExtra);
+    const registerTool = (tool: ToolRegistry): RegisteredTool => {
+      // Convert ZodObject to ZodRawShape for MCP server compatibility
+      const schema = toolInputShape(tool.schema);
+
+      // Wrap the handler to inject the server instance for progress notifications
+      const enhancedHandler = async (args: Record<string, unknown>, extra: Record<string, unknown>) => {
+        // Pass the server instance to tools for v1.18.0 progress notifications
+        const enhancedExtra: ToolHandlerExtra = {
+          ...(extra || {}),
+          server,
+          exaSession
         };
 
-        this.server.tool(
-          tool.name,
-          tool.description,
-          schema,
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          enhancedHandler as any
-        );
-        registeredTools.push(toolId);
+        // Track the call so shutdown can drain it; refuse new calls once draining
+        try {
+          return await this.shutdown.run(extra?.signal as AbortSignal | undefined, (signal) =>
+            tool.handler(args, { ...enhancedExtra, signal })
+          );
+        } catch (error) {
+          if (error instanceof ServerShuttingDownError) {
+            return {
+              content: [{ type: "text" as const, text: `${tool.name} unavailable: server is shutting down` }],
+              isError: true
+            };
+          }
+          throw error;
+        }
+      };
+
+      return server.registerTool(
+        tool.name,
+        {
+          description: tool.description,
+          inputSchema: schema,
+          outputSchema: tool.outputSchema?.shape,
+          annotations: tool.annotations
+        },
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        enhancedHandler as any
+      );
+    };
+
+    const registeredTools = new Map<string, RegisteredTool>();
+    Object.entries(toolRegistry).forEach(([toolId, tool]) => {
+      const registered = registerTool(tool);
+      if (!this.toolState.isEnabled(toolId)) {
+        registered.disable();
+      }
+      registeredTools.set(toolId, registered);
+    });
+
+    // Tool state and the cache are server-wide, so sessions with their own API key can't administer them
+    if (!exaSession) {
+      if (this.toolAdmin) {
+        registerTool(this.toolAdmin);
+      }
+      this.cacheAdmin.forEach(registerTool);
+    }
+
+    // Register workflow prompts; each is only listed while all of its tools are enabled
+    const registeredPrompts = Object.values(promptRegistry).map((prompt) => {
+      const registered = server.registerPrompt(
+        prompt.name,
+        { description: prompt.description, argsSchema: prompt.schema },
+        (args) => ({ messages: prompt.build(args) })
+      );
+      return { prompt, registered };
+    });
+
+    const syncPrompts = () => {
+      registeredPrompts.forEach(({ prompt, registered }) => {
+        const available = prompt.requiredTools.every(toolId => this.toolState.isEnabled(toolId));
+        if (available !== registered.enabled) {
+          if (available) {
+            registered.enable();
+          } else {
+            registered.disable();
+          }
+        }
+      });
+    };
+    syncPrompts();
+
+    const stopToolStateUpdates = this.toolState.onChange((change) => {
+      const registered = registeredTools.get(change.toolId);
+      if (registered && registered.enabled !== change.enabled) {
+        if (change.enabled) {
+          registered.enable();
+        } else {
+          registered.disable();
+        }
       }
+      syncPrompts();
     });
 
-    return registeredTools;
+    // Expose fetched pages and result sets; stop notifying once the session closes
+    const stopResourceNotifications = registerResources(server, getResourceStore(), exaSession?.tenant);
+    server.server.onclose = () => {
+      stopToolStateUpdates();
+      stopResourceNotifications();
+    };
+
+    return server;
   }
 
-  async run(): Promise<void> {
+  async run(options: TransportOptions): Promise<void> {
     try {
-      // Set up tools before connecting
-      const registeredTools = this.setupTools();
+      const activeTools = this.toolState.getEnabledToolIds();
       
-      logInfo(`Starting Exa MCP server with ${registeredTools.length} tools: ${registeredTools.join(', ')}`);
+      logInfo(`Starting Exa MCP server with ${activeTools.length} tools: ${activeTools.join(', ')}`);
+      if (this.toolAdmin) {
+        logInfo(`Runtime tool administration enabled via ${this.toolAdmin.name}`);
+      }
+      if (this.cacheAdmin.length > 0) {
+        logInfo(`Cache administration enabled via ${this.cacheAdmin.map(tool => tool.name).join(', ')}`);
+      }
+      this.shutdown.onClose(() => this.toolState.dispose());
+
+      if (options.transport === 'http') {
+        const handle = await startHttpServer((context) => this.createMcpServer(context), {
+          port: options.port,
+          host: options.host,
+          allowedHosts: options.allowedHosts,
+          allowedOrigins: options.allowedOrigins,
+          sessionIdleTimeoutMs: options.sessionIdleTimeoutMs,
+          maxSessions: options.maxSessions
+        });
+        this.shutdown.onClose(() => handle.close());
+        logInfo(`Exa Search MCP server running on http://${handle.address.host}:${handle.address.port}/mcp`);
+        return;
+      }
       
+      const server = this.createMcpServer();
       const transport = new StdioServerTransport();
       
       // Handle connection errors
@@ -93,7 +234,8 @@ class ExaServer {
         logError(`Transport error: ${error.message}`);
       };
       
-      await this.server.connect(transport);
+      await server.connect(transport);
+      this.shutdown.onClose(() => server.close());
       logInfo("Exa Search MCP server running on stdio");
     } catch (error) {
       logError(`Server initialization error: ${error instanceof Error ? error.message : String(error)}`);
@@ -102,6 +244,50 @@ class ExaServer {
   }
 }
 
+/**
+ * Run the `call` subcommand
+ * @returns Process exit code: 0 on success, 1 when the tool returned an error, 2 on usage errors
+ */
+async function runCallCommand(toolId: string, argv: CLIArguments): Promise<number> {
+  try {
+    const args = parseToolArguments(argv.args, argv.arg);
+    const outcome = await runToolCall(toolId, args, { json: argv.json });
+    process.stdout.write(`${outcome.output}\n`);
+    return outcome.exitCode;
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      process.stderr.write(`${error.message}\n`);
+      return 2;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run the `cache` subcommand against the persistent tier
+ * @returns Process exit code: 0 on success, 2 on usage errors
+ */
+function runCacheCliCommand(argv: CLIArguments, persistent: boolean): number {
+  try {
+    if (!persistent) {
+      throw new CliUsageError('cache commands work on the persistent cache; enable cache.persistent (CACHE_PERSISTENT=true)');
+    }
+    const outcome = runCacheCommand(argv.action!, getGlobalCache(), {
+      filter: { tool: argv.tool, endpoint: argv.endpoint, url: argv.url, query: argv.query },
+      file: argv.file,
+      json: argv.json
+    });
+    process.stdout.write(`${outcome.output}\n`);
+    return outcome.exitCode;
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      process.stderr.write(`${error.message}\n`);
+      return 2;
+    }
+    throw error;
+  }
+}
+
 // Main entry point
 async function main() {
   try {
@@ -117,6 +303,101 @@ async function main() {
         description: 'List all available tools and exit',
         default: false
       })
+      .option('format', {
+        type: 'string',
+        choices: ['text', 'json'],
+        description: 'Output format for --list-tools and describe-tool (json includes JSON Schemas)',
+        default: 'text'
+      })
+      .option('config', {
+        type: 'string',
+        description: 'Path to an exa-mcp.config.json or .yaml file (default: search ./ and ~/.config/exa-mcp/; env vars override file values)'
+      })
+      .option('plugins', {
+        type: 'string',
+        description: 'Comma-separated plugin module paths or package names that export extra tools (added to config file plugins)'
+      })
+      .option('transport', {
+        type: 'string',
+        choices: ['stdio', 'http'],
+        description: 'Transport to serve MCP over (stdio for local clients, http for shared deployments)',
+        default: 'stdio'
+      })
+      .option('port', {
+        type: 'number',
+        description: 'Port for the HTTP transport',
+        default: 3000
+      })
+      .option('host', {
+        type: 'string',
+        description: 'Host interface for the HTTP transport',
+        default: '127.0.0.1'
+      })
+      .command('describe-tool <tool>', 'Show a tool\'s parameters, schemas and example invocations', (command) => command
+        .positional('tool', {
+          type: 'string',
+          description: 'Tool to describe'
+        })
+        .example('$0 describe-tool exa_search', 'Human-readable description')
+        .example('$0 describe-tool exa_search --format json', 'Catalog entry with JSON Schemas')
+      )
+      .command('call <tool>', 'Invoke a tool once, print its result and exit', (command) => command
+        .positional('tool', {
+          type: 'string',
+          description: 'Tool to invoke (any registered tool, even if disabled by default)'
+        })
+        .option('args', {
+          type: 'string',
+          description: 'Tool arguments as a JSON object'
+        })
+        .option('arg', {
+          type: 'string',
+          array: true,
+          description: 'Single argument as key=value (value parsed as JSON when possible); repeatable'
+        })
+        .option('json', {
+          type: 'boolean',
+          description: 'Print the full result, including structuredContent, as JSON',
+          default: false
+        })
+        .example('$0 call exa_search --args \'{"query":"MCP servers"}\'', 'Search with JSON arguments')
+        .example('$0 call exa_search --arg query="MCP servers" --arg numResults=3 --json', 'Search with key=value arguments, JSON output')
+      )
+      .command('cache <action> [file]', 'Inspect, invalidate, clear, export or import the persistent response cache', (command) => command
+        .positional('action', {
+          type: 'string',
+          choices: CACHE_COMMAND_ACTIONS,
+          description: 'stats, invalidate, clear, export (to file or stdout) or import (from file)'
+        })
+        .positional('file', {
+          type: 'string',
+          description: 'Export or import file'
+        })
+        .option('tool', {
+          type: 'string',
+          description: 'invalidate: responses cached by this tool'
+        })
+        .option('endpoint', {
+          type: 'string',
+          description: 'invalidate: responses of this Exa endpoint (e.g. /search)'
+        })
+        .option('url', {
+          type: 'string',
+          description: 'invalidate: responses that requested or returned this URL'
+        })
+        .option('query', {
+          type: 'string',
+          description: 'invalidate: responses whose query contains this text'
+        })
+        .option('json', {
+          type: 'boolean',
+          description: 'stats: print JSON',
+          default: false
+        })
+        .example('$0 cache stats', 'Entries per endpoint and tool')
+        .example('$0 cache invalidate --url https://example.com/pricing', 'Drop responses that include a changed page')
+        .example('$0 cache export seed.json', 'Write fresh entries to a file; import it elsewhere with `cache import seed.json`')
+      )
       .help()
       .parseAsync() as CLIArguments;
 
@@ -126,28 +407,83 @@ async function main() {
       toolsString ? toolsString.split(',').map((tool: string) => tool.trim()) : []
     );
 
+    if (argv.config) {
+      setConfigFile(argv.config);
+    }
+
+    // Preset and plugin tools come from the config file and --plugins. Listing and describing
+    // tools works without a valid configuration (e.g. no API key) but then skips the config file's tools.
+    const fileConfig = getConfigIfValid();
+    // Create the global cache first: presets and plugins (via context.cache) may use it,
+    // and once it exists its persistent tier can no longer be added
+    const persistentCacheStore = fileConfig ? createPersistentCacheStore(fileConfig.cache.persistent) : undefined;
+    if (fileConfig && persistentCacheStore) {
+      getGlobalCache({ persistent: { store: persistentCacheStore, ttlMinutes: fileConfig.cache.persistent.ttlHours * 60 } });
+    }
+    if (fileConfig) {
+      registerPresetTools(fileConfig.presets);
+    }
+    const plugins = [
+      ...(fileConfig?.plugins ?? []),
+      ...(argv.plugins ? argv.plugins.split(',').map((plugin: string) => plugin.trim()).filter(Boolean) : [])
+    ];
+    if (plugins.length > 0) {
+      await loadPlugins(plugins);
+    }
+
     // List all available tools if requested
     if (argv['list-tools']) {
-      /* eslint-disable no-console */
-      console.log("Available tools:");
-
-      Object.entries(toolRegistry).forEach(([id, tool]) => {
-        console.log(`- ${id}: ${tool.name}`);
-        console.log(`  Description: ${tool.description}`);
-        console.log(`  Enabled by default: ${tool.enabled ? 'Yes' : 'No'}`);
-        console.log();
-      });
-      /* eslint-enable no-console */
-
+      process.stdout.write(`${formatToolList(toolRegistry, argv.format)}\n`);
       process.exit(0);
     }
 
+    // Describe a single tool (parameters, schemas, examples)
+    if (argv._[0] === 'describe-tool' && argv.tool) {
+      try {
+        process.stdout.write(`${formatToolDescription(toolRegistry, argv.tool, argv.format)}\n`);
+        process.exit(0);
+      } catch (error) {
+        if (error instanceof CliUsageError) {
+          process.stderr.write(`${error.message}\n`);
+          process.exit(2);
+        }
+        throw error;
+      }
+    }
+
     // Validate configuration early (after handling list-tools to allow listing without a key)
     const config = getConfig();
-    logInfo(`Configuration loaded successfully for environment: ${config.environment.nodeEnv}`);
+    setLogLevel(config.logging.level);
+    const configFile = getLoadedConfigFile();
+    logInfo(`Configuration loaded successfully for environment: ${config.environment.nodeEnv}${configFile ? ` (config file: ${configFile})` : ''}`);
+    getResearchJobStore(config.research.jobsFile);
+
+    if (argv._[0] === 'cache' && argv.action) {
+      const exitCode = runCacheCliCommand(argv, persistentCacheStore !== undefined);
+      await flushLogger();
+      process.exit(exitCode);
+    }
 
-    const server = new ExaServer(specifiedTools);
-    await server.run();
+    // One-shot tool invocation without an MCP client
+    if (argv._[0] === 'call' && argv.tool) {
+      const exitCode = await runCallCommand(argv.tool, argv);
+      await flushLogger();
+      process.exit(exitCode);
+    }
+
+    const shutdown = new ShutdownManager({ drainTimeoutMs: config.server.drainTimeoutMs });
+    installSignalHandlers(shutdown);
+
+    const server = new ExaServer(specifiedTools, { toolAdmin: config.admin.toolAdmin, cacheAdmin: config.admin.cacheAdmin, shutdown });
+    await server.run({
+      transport: argv.transport,
+      port: argv.port,
+      host: argv.host,
+      allowedHosts: config.server.allowedHosts,
+      allowedOrigins: config.server.allowedOrigins,
+      sessionIdleTimeoutMs: config.server.sessionIdleMinutes * 60 * 1000,
+      maxSessions: config.server.maxSessions
+    });
   } catch (error) {
     logError(`Fatal server error: ${error instanceof Error ? error.message : String(error)}`);
     process.exit(1);
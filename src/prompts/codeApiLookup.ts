@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { definePrompt, userMessage } from "./config.js";
+
+const codeApiLookupSchema = {
+  library: z.string().min(1).describe("Library, framework, or API name (e.g., 'zod', 'React Router')"),
+  task: z.string().min(1).describe("What you want to do with it (e.g., 'validate a discriminated union')"),
+  language: z.string().optional().describe("Programming language (e.g., 'TypeScript')"),
+  version: z.string().optional().describe("Library version to target (e.g., 'v3')")
+};
+
+export const codeApiLookupPrompt = definePrompt({
+  name: "code_api_lookup",
+  description: "Look up how to use a library or API for a specific task and return a working, sourced example.",
+  schema: codeApiLookupSchema,
+  requiredTools: ["code_search", "crawling"],
+  build: ({ library, task, language, version }) => {
+    const subject = `${library}${version ? ` ${version}` : ""}`;
+    const steps = [
+      `1. Call \`code_search\` with a query describing how to ${task} using ${subject}${language ? ` in ${language}` : ""}.`,
+      `2. If the snippets are ambiguous or look outdated, call \`crawling\` on the official documentation page they reference to confirm the current API.`,
+      `3. Write a minimal, complete example${language ? ` in ${language}` : ""} and explain each API call it uses.`,
+      `4. Note version caveats or deprecated alternatives, and list the source URLs.`
+    ];
+
+    return [
+      userMessage(`Show me how to ${task} with ${subject}.\n\n${steps.join("\n")}`)
+    ];
+  }
+});
@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { definePrompt, userMessage } from "./config.js";
+
+const competitiveAnalysisSchema = {
+  company: z.string().min(1).describe("Company to analyze (name or website)"),
+  productDescription: z.string().min(1).describe("What the company does in a few words, without its name (e.g., 'web search API')"),
+  companyDomain: z.string().optional().describe("The company's website, excluded from competitor results (e.g., 'exa.ai')"),
+  maxCompetitors: z.string().regex(/^\d+$/, "must be a whole number").optional().describe("How many competitors to research in depth (default: 5)"),
+  focus: z.string().optional().describe("Comparison dimensions to emphasize (e.g., 'pricing, enterprise features')")
+};
+
+export const competitiveAnalysisPrompt = definePrompt({
+  name: "competitive_analysis",
+  description: "Find a company's competitors, research each one, and produce a side-by-side comparison.",
+  schema: competitiveAnalysisSchema,
+  requiredTools: ["competitor_finder", "company_research"],
+  build: ({ company, productDescription, companyDomain, maxCompetitors, focus }) => {
+    const limit = maxCompetitors ? Number(maxCompetitors) : 5;
+    const steps = [
+      `1. Call \`competitor_finder\` with query "${productDescription}"${companyDomain ? ` and excludeDomain "${companyDomain}"` : ""} to identify competitors of ${company}.`,
+      `2. Pick the ${limit} most relevant competitors from the results.`,
+      `3. Call \`company_research\` for ${company} and for each selected competitor, using their website domain as the query.`,
+      `4. Compare them in a table covering: product offering, target customers, pricing model, differentiators${focus ? `, and ${focus}` : ""}.`,
+      `5. Finish with a short summary of where ${company} is stronger and weaker than the field, citing the source URLs you used.`
+    ];
+
+    return [
+      userMessage(`Run a competitive analysis of ${company}.\n\n${steps.join("\n")}`)
+    ];
+  }
+});
@@ -0,0 +1,44 @@
+import { z } from "zod";
+import { PromptMessage } from "@modelcontextprotocol/sdk/types.js";
+
+/**
+ * Prompt arguments are always strings on the wire (MCP spec),
+ * so schemas are restricted to string-valued zod types.
+ */
+export type PromptArgsShape = {
+  [key: string]: z.ZodType<string, z.ZodTypeDef, string> | z.ZodOptional<z.ZodType<string, z.ZodTypeDef, string>>;
+};
+
+/**
+ * Base interface for prompt registration in the MCP server.
+ * Prompts expand typed arguments into messages that drive existing tools.
+ */
+export interface PromptRegistry<T extends PromptArgsShape = PromptArgsShape> {
+  /** Unique identifier for the prompt (snake_case) */
+  name: string;
+  /** Human-readable description shown to the user when picking a prompt */
+  description: string;
+  /** Zod schema defining the prompt's arguments */
+  schema: T;
+  /** Tools the expanded messages refer to; the prompt is only offered when all are active */
+  requiredTools: string[];
+  /** Expand validated arguments into prompt messages */
+  build: (args: z.objectOutputType<T, z.ZodTypeAny>) => PromptMessage[];
+}
+
+/**
+ * Helper to define a prompt with argument types inferred from its schema
+ */
+export function definePrompt<T extends PromptArgsShape>(prompt: PromptRegistry<T>): PromptRegistry {
+  return prompt as unknown as PromptRegistry;
+}
+
+/**
+ * Wrap text as a user message
+ */
+export function userMessage(text: string): PromptMessage {
+  return {
+    role: "user",
+    content: { type: "text", text }
+  };
+}
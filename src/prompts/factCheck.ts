@@ -0,0 +1,27 @@
+import { z } from "zod";
+import { definePrompt, userMessage } from "./config.js";
+
+const factCheckSchema = {
+  claim: z.string().min(1).describe("Statement to verify"),
+  context: z.string().optional().describe("Where the claim came from or what it refers to"),
+  maxAgeHours: z.string().regex(/^\d+$/, "must be a whole number").optional().describe("Only trust sources fresher than this many hours (for time-sensitive claims)")
+};
+
+export const factCheckPrompt = definePrompt({
+  name: "fact_check",
+  description: "Verify a claim against independent sources and report a verdict with evidence.",
+  schema: factCheckSchema,
+  requiredTools: ["answer_question", "exa_search"],
+  build: ({ claim, context, maxAgeHours }) => {
+    const steps = [
+      `1. Call \`answer_question\` with the claim phrased as a question to get a cited answer.`,
+      `2. Call \`exa_search\` with the key terms of the claim${maxAgeHours ? ` and maxAgeHours ${maxAgeHours}` : ""} to find independent sources, including ones that might contradict it.`,
+      `3. Compare what the sources say. Prefer primary sources and note disagreements or outdated information.`,
+      `4. Give a verdict of True, Mostly true, Misleading, False, or Unverifiable, followed by the supporting and contradicting evidence with source URLs.`
+    ];
+
+    return [
+      userMessage(`Fact-check this claim: "${claim}"${context ? `\n\nContext: ${context}` : ""}\n\n${steps.join("\n")}`)
+    ];
+  }
+});
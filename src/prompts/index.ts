@@ -0,0 +1,12 @@
+import { competitiveAnalysisPrompt } from './competitiveAnalysis.js';
+import { literatureReviewPrompt } from './literatureReview.js';
+import { factCheckPrompt } from './factCheck.js';
+import { codeApiLookupPrompt } from './codeApiLookup.js';
+import { PromptRegistry } from './config.js';
+
+export const promptRegistry: Record<string, PromptRegistry> = {
+  [competitiveAnalysisPrompt.name]: competitiveAnalysisPrompt,
+  [literatureReviewPrompt.name]: literatureReviewPrompt,
+  [factCheckPrompt.name]: factCheckPrompt,
+  [codeApiLookupPrompt.name]: codeApiLookupPrompt,
+};
@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { definePrompt, userMessage } from "./config.js";
+
+const literatureReviewSchema = {
+  topic: z.string().min(1).describe("Research topic or question to review"),
+  startDate: z.string().optional().describe("Only include papers published after this date (ISO 8601)"),
+  maxPapers: z.string().regex(/^\d+$/, "must be a whole number").optional().describe("Number of papers to review (default: 10)"),
+  audience: z.string().optional().describe("Who the review is for (e.g., 'ML engineers new to the area')")
+};
+
+export const literatureReviewPrompt = definePrompt({
+  name: "literature_review",
+  description: "Search academic papers on a topic, read the most relevant ones, and write a structured literature review.",
+  schema: literatureReviewSchema,
+  requiredTools: ["research_paper_search", "batch_extract"],
+  build: ({ topic, startDate, maxPapers, audience }) => {
+    const limit = maxPapers ? Number(maxPapers) : 10;
+    const steps = [
+      `1. Call \`research_paper_search\` with query "${topic}" and numResults ${limit}${startDate ? `, restricted to papers published after ${startDate}` : ""}.`,
+      `2. Call \`batch_extract\` on the URLs of the most relevant papers (up to 10 per call) with includeSummary true to read their abstracts and key sections.`,
+      `3. Group the papers into themes or approaches, noting how they build on or disagree with each other.`,
+      `4. Write the review with sections: Overview, Themes, Key Findings, Open Questions, and References (title, authors if known, year, URL).`
+    ];
+
+    return [
+      userMessage(`Write a literature review on "${topic}"${audience ? ` for ${audience}` : ""}.\n\n${steps.join("\n")}`)
+    ];
+  }
+});
@@ -0,0 +1,392 @@
+import { createHash } from 'crypto';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getGlobalCache } from '../utils/cache.js';
+import { structuredLogger } from '../utils/pinoLogger.js';
+
+export const PAGE_URI_TEMPLATE = 'exa://page/{url}';
+export const SEARCH_URI_TEMPLATE = 'exa://search/{id}';
+
+/**
+ * Upper bound on indexed pages/result sets; content itself lives in RequestCache
+ */
+const MAX_INDEX_ENTRIES = 1000;
+
+/**
+ * Where a resource's content can be found in the request cache
+ */
+interface CacheLocation {
+  endpoint: string;
+  request: unknown;
+  /** Tenant whose call fetched it (undefined for the shared API key); only its sessions see it */
+  tenant?: string;
+}
+
+/**
+ * Indexed page extracted from a tool response
+ */
+export interface PageResourceEntry extends CacheLocation {
+  url: string;
+  title?: string;
+  toolName: string;
+  storedAt: number;
+}
+
+/**
+ * Indexed result set from a tool response
+ */
+export interface SearchResourceEntry extends CacheLocation {
+  id: string;
+  query?: string;
+  resultCount: number;
+  toolName: string;
+  storedAt: number;
+}
+
+/**
+ * Minimal shape of a result entry needed to expose it as a page
+ */
+interface PageLikeResult {
+  url?: string;
+  title?: string;
+  text?: string;
+  summary?: string;
+  publishedDate?: string;
+  author?: string;
+}
+
+/**
+ * Build the resource URI for a crawled page
+ */
+export function pageUri(url: string): string {
+  return `exa://page/${encodeURIComponent(url)}`;
+}
+
+/**
+ * Build the resource URI for a stored result set
+ */
+export function searchUri(id: string): string {
+  return `exa://search/${id}`;
+}
+
+/**
+ * Index key of an entry: the same page or result set is indexed once per tenant
+ */
+function scopedKey(key: string, tenant?: string): string {
+  return `${tenant ?? ''}\n${key}`;
+}
+
+function decodeVariable(value: string | string[]): string {
+  const raw = Array.isArray(value) ? value.join(',') : value;
+  try {
+    return decodeURIComponent(raw);
+  } catch {
+    return raw;
+  }
+}
+
+function getResults(data: unknown): PageLikeResult[] | null {
+  if (data !== null && typeof data === 'object' && 'results' in data && Array.isArray((data as { results: unknown }).results)) {
+    return (data as { results: PageLikeResult[] }).results;
+  }
+  return null;
+}
+
+/**
+ * Render a cached page as markdown
+ */
+function formatPage(result: PageLikeResult): string {
+  let output = `# ${result.title || result.url}\n\n`;
+  output += `URL: ${result.url}\n`;
+  if (result.publishedDate) {
+    output += `Published: ${result.publishedDate}\n`;
+  }
+  if (result.author) {
+    output += `Author: ${result.author}\n`;
+  }
+  if (result.summary) {
+    output += `\n**Summary:** ${result.summary}\n`;
+  }
+  if (result.text) {
+    output += `\n${result.text}\n`;
+  }
+  return output;
+}
+
+/**
+ * Index of pages and result sets that tools have fetched.
+ * Only locations are kept here; content is read back from RequestCache,
+ * so entries disappear when the underlying cache entry expires.
+ * Entries are scoped to the tenant (per-session API key) whose call fetched
+ * them: queries and results of one tenant are never listed to another.
+ */
+export class ResourceStore {
+  private readonly pages = new Map<string, PageResourceEntry>();
+  private readonly searches = new Map<string, SearchResourceEntry>();
+  private readonly listeners = new Set<(tenant?: string) => void>();
+  private readonly logger = structuredLogger.child({ component: 'ResourceStore' });
+
+  /**
+   * Index the pages and result set from a tool response.
+   * Never throws: resource indexing must not fail the tool call.
+   * @param tenant Tenant of the call (undefined for the shared API key)
+   * @returns The result set id, or undefined if nothing was indexed
+   */
+  record(toolName: string, endpoint: string, request: unknown, data: unknown, tenant?: string): string | undefined {
+    try {
+      const results = getResults(data);
+      if (!results || !getGlobalCache().isEnabled()) {
+        return undefined;
+      }
+
+      let changed = false;
+      const now = Date.now();
+      const id = createHash('sha256').update(JSON.stringify({ endpoint, request })).digest('hex').substring(0, 16);
+
+      const searchKey = scopedKey(id, tenant);
+      if (!this.searches.has(searchKey)) {
+        changed = true;
+      }
+      const query = request !== null && typeof request === 'object' && typeof (request as { query?: unknown }).query === 'string'
+        ? (request as { query: string }).query
+        : undefined;
+      this.searches.delete(searchKey);
+      this.searches.set(searchKey, {
+        id, endpoint, request, query, resultCount: results.length, toolName, storedAt: now,
+        ...(tenant !== undefined && { tenant })
+      });
+
+      for (const result of results) {
+        if (!result.url || !result.text) {
+          continue;
+        }
+        const pageKey = scopedKey(result.url, tenant);
+        if (!this.pages.has(pageKey)) {
+          changed = true;
+        }
+        this.pages.delete(pageKey);
+        this.pages.set(pageKey, {
+          url: result.url, title: result.title, endpoint, request, toolName, storedAt: now,
+          ...(tenant !== undefined && { tenant })
+        });
+      }
+
+      this.enforceLimit(this.pages);
+      this.enforceLimit(this.searches);
+
+      if (changed) {
+        this.notifyListChanged(tenant);
+      }
+      return id;
+    } catch (error) {
+      this.logger.warn({ toolName, error: error instanceof Error ? error.message : String(error) }, 'Failed to index tool resources');
+      return undefined;
+    }
+  }
+
+  /**
+   * List a tenant's pages whose content is still cached
+   */
+  listPages(tenant?: string): PageResourceEntry[] {
+    return this.pruneExpired(this.pages, tenant);
+  }
+
+  /**
+   * List a tenant's result sets whose content is still cached
+   */
+  listSearches(tenant?: string): SearchResourceEntry[] {
+    return this.pruneExpired(this.searches, tenant);
+  }
+
+  /**
+   * Read a cached page by URL, if the tenant fetched it
+   */
+  readPage(url: string, tenant?: string): PageLikeResult | null {
+    const key = scopedKey(url, tenant);
+    const entry = this.pages.get(key);
+    if (!entry) {
+      return null;
+    }
+    const results = getResults(getGlobalCache().peek(entry.endpoint, entry.request));
+    const page = results?.find(result => result.url === url);
+    if (!page) {
+      this.pages.delete(key);
+      return null;
+    }
+    return page;
+  }
+
+  /**
+   * Read a cached result set by id, if the tenant fetched it
+   */
+  readSearch(id: string, tenant?: string): unknown | null {
+    const key = scopedKey(id, tenant);
+    const entry = this.searches.get(key);
+    if (!entry) {
+      return null;
+    }
+    const data = getGlobalCache().peek(entry.endpoint, entry.request);
+    if (data === null) {
+      this.searches.delete(key);
+    }
+    return data;
+  }
+
+  /**
+   * Subscribe to new-resource notifications
+   * @param listener Called with the tenant whose entries changed
+   * @returns Function that removes the listener
+   */
+  onListChanged(listener: (tenant?: string) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Drop all indexed entries
+   */
+  clear(): void {
+    this.pages.clear();
+    this.searches.clear();
+  }
+
+  /**
+   * Remove the tenant's entries whose cache entry has expired and return the rest.
+   * Uses the cache's has(), which neither reads nor decompresses the responses;
+   * other tenants' entries are checked when they list.
+   */
+  private pruneExpired<T extends CacheLocation>(index: Map<string, T>, tenant?: string): T[] {
+    const cache = getGlobalCache();
+    const live: T[] = [];
+    for (const [key, entry] of index) {
+      if (entry.tenant !== tenant) {
+        continue;
+      }
+      if (cache.has(entry.endpoint, entry.request)) {
+        live.push(entry);
+      } else {
+        index.delete(key);
+      }
+    }
+    return live;
+  }
+
+  private enforceLimit<T>(index: Map<string, T>): void {
+    while (index.size > MAX_INDEX_ENTRIES) {
+      const oldest = index.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      index.delete(oldest);
+    }
+  }
+
+  private notifyListChanged(tenant?: string): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(tenant);
+      } catch (error) {
+        this.logger.warn({ error: error instanceof Error ? error.message : String(error) }, 'Resource list listener failed');
+      }
+    }
+  }
+}
+
+let _resourceStore: ResourceStore | null = null;
+
+/**
+ * Get the global resource store (lazy initialization)
+ */
+export function getResourceStore(): ResourceStore {
+  if (!_resourceStore) {
+    _resourceStore = new ResourceStore();
+  }
+  return _resourceStore;
+}
+
+/**
+ * Reset the global resource store (useful for testing)
+ */
+export function resetResourceStore(): void {
+  _resourceStore = null;
+}
+
+/**
+ * Register the page and result-set resource templates on an MCP server and
+ * forward new entries as `notifications/resources/list_changed`.
+ * The session only sees, and is only notified about, its tenant's entries.
+ * @param tenant Tenant of the session (undefined for the shared API key)
+ * @returns Function that stops forwarding notifications (call on session close)
+ */
+export function registerResources(
+  server: McpServer,
+  store: ResourceStore = getResourceStore(),
+  tenant?: string
+): () => void {
+  server.registerResource(
+    'exa_page',
+    new ResourceTemplate(PAGE_URI_TEMPLATE, {
+      list: async () => ({
+        resources: store.listPages(tenant).map(entry => ({
+          uri: pageUri(entry.url),
+          name: entry.title || entry.url,
+          description: `Page fetched by ${entry.toolName}`,
+          mimeType: 'text/markdown'
+        }))
+      })
+    }),
+    {
+      title: 'Fetched page',
+      description: 'Content of a page returned by an Exa tool call, served from the request cache',
+      mimeType: 'text/markdown'
+    },
+    async (uri, variables) => {
+      const url = decodeVariable(variables.url);
+      const page = store.readPage(url, tenant);
+      if (!page) {
+        throw new Error(`Page not found or expired from cache: ${url}`);
+      }
+      return {
+        contents: [{ uri: uri.href, mimeType: 'text/markdown', text: formatPage(page) }]
+      };
+    }
+  );
+
+  server.registerResource(
+    'exa_search',
+    new ResourceTemplate(SEARCH_URI_TEMPLATE, {
+      list: async () => ({
+        resources: store.listSearches(tenant).map(entry => ({
+          uri: searchUri(entry.id),
+          name: entry.query ? `${entry.toolName}: ${entry.query}` : `${entry.toolName} (${entry.resultCount} results)`,
+          description: `${entry.resultCount} results from ${entry.endpoint}`,
+          mimeType: 'application/json'
+        }))
+      })
+    }),
+    {
+      title: 'Stored result set',
+      description: 'Full JSON response of an Exa tool call, served from the request cache',
+      mimeType: 'application/json'
+    },
+    async (uri, variables) => {
+      const id = decodeVariable(variables.id);
+      const data = store.readSearch(id, tenant);
+      if (data === null) {
+        throw new Error(`Result set not found or expired from cache: ${id}`);
+      }
+      return {
+        contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }]
+      };
+    }
+  );
+
+  return store.onListChanged((changedTenant) => {
+    if (changedTenant === tenant && server.isConnected()) {
+      server.server.sendResourceListChanged().catch((error) => {
+        structuredLogger.debug({ error: error instanceof Error ? error.message : String(error) }, 'Failed to send resource list change');
+      });
+    }
+  });
+}
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { createTool } from "./tool-builder.js";
+import { answerOutput } from "./output-schemas.js";
 
 interface ExaAnswerResponse {
   answer: string;
@@ -63,5 +64,10 @@ export const answerTool = createTool({
     "Searching for relevant sources...",
     "Synthesizing answer...",
     "Formatting citations..."
-  ]
+  ],
+  examples: [
+    { description: "Answer a factual question", arguments: { query: "What is the Model Context Protocol?" } },
+    { description: "Include highlights from fewer sources", arguments: { query: "When was the Rust 2024 edition released?", numResults: 3, includeHighlights: true } }
+  ],
+  ...answerOutput
 });
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { createTool } from "./tool-builder.js";
+import { contentsOutput } from "./output-schemas.js";
 
 interface ExaBatchContentsResponse {
   results: Array<{
@@ -105,5 +106,9 @@ export const batchContentsTool = createTool({
     "Initiating batch extraction...",
     "Processing content...",
     "Compiling results..."
-  ]
+  ],
+  examples: [
+    { description: "Extract several pages with summaries", arguments: { urls: ["https://example.com/a", "https://example.com/b"], includeSummary: true } }
+  ],
+  ...contentsOutput
 });
@@ -0,0 +1,206 @@
+import { z } from "zod";
+import { ToolRegistry, ToolHandlerExtra, ToolResult } from "./config.js";
+import { extractToolContext } from "./progress-tracker.js";
+import { CacheInvalidation, CacheStats, CacheStore } from "../utils/cache.js";
+import { createRequestLogger, generateRequestId } from "../utils/pinoLogger.js";
+
+export const CACHE_STATS_NAME = "cache_stats";
+export const CACHE_INVALIDATE_NAME = "cache_invalidate";
+export const CACHE_CLEAR_NAME = "cache_clear";
+
+const cacheStatsSchema = z.object({});
+
+const cacheInvalidateSchema = z.object({
+  tool: z.string().min(1).optional().describe("Remove responses cached by this tool (e.g. exa_search)"),
+  endpoint: z.string().startsWith('/').optional().describe("Remove responses of this Exa endpoint (e.g. /search)"),
+  url: z.string().url().optional().describe("Remove responses that requested this URL or list it among their results"),
+  query: z.string().min(1).optional().describe("Remove responses whose query contains this text (case-insensitive)")
+});
+
+const cacheClearSchema = z.object({});
+
+const endpointStatsSchema = z.object({
+  hits: z.number(),
+  misses: z.number(),
+  entries: z.number(),
+  bytes: z.number()
+});
+
+const cacheStatsOutputSchema = z.object({
+  enabled: z.boolean(),
+  hits: z.number(),
+  misses: z.number(),
+  hitRate: z.number().describe("Percentage of lookups answered from the cache"),
+  size: z.number().describe("In-memory entries"),
+  bytes: z.number(),
+  evictions: z.number(),
+  staleHits: z.number(),
+  semanticHits: z.number(),
+  persistentHits: z.number().optional(),
+  endpoints: z.record(z.string(), endpointStatsSchema)
+});
+
+const cacheInvalidateOutputSchema = z.object({
+  invalidated: z.number().describe("Entries removed from both tiers")
+});
+
+const cacheClearOutputSchema = z.object({
+  clearedEntries: z.number().describe("In-memory entries removed (the persistent tier is emptied too)")
+});
+
+/**
+ * Human-readable cache statistics, shared with the `cache stats` CLI command
+ */
+export function formatCacheStats(stats: CacheStats): string {
+  const lines = [
+    `Hit rate: ${stats.hitRate.toFixed(1)}% (${stats.hits} hits, ${stats.misses} misses, ${stats.staleHits} stale, ${stats.semanticHits} semantic)`,
+    `Entries: ${stats.size} (${stats.bytes} bytes), ${stats.evictions} evicted`
+  ];
+  if (stats.persistentHits !== undefined) {
+    lines.push(`Persistent tier hits: ${stats.persistentHits}`);
+  }
+  const endpoints = Object.entries(stats.endpoints).sort(([a], [b]) => a.localeCompare(b));
+  if (endpoints.length > 0) {
+    lines.push('By endpoint:', ...endpoints.map(([endpoint, endpointStats]) =>
+      `- ${endpoint}: ${endpointStats.entries} entries (${endpointStats.bytes} bytes), ${endpointStats.hits} hits, ${endpointStats.misses} misses`));
+  }
+  return lines.join('\n');
+}
+
+function toStructured(stats: CacheStats, enabled: boolean): Record<string, unknown> {
+  const { hits, misses, hitRate, size, bytes, evictions, staleHits, semanticHits, persistentHits, endpoints } = stats;
+  return {
+    enabled, hits, misses, hitRate, size, bytes, evictions, staleHits, semanticHits, endpoints,
+    ...(persistentHits !== undefined && { persistentHits })
+  };
+}
+
+/**
+ * Shared handler plumbing: argument validation, request logging and error results.
+ * The cache is shared by every session, so sessions with their own API key are refused.
+ */
+function createAdminHandler<T extends z.ZodObject<z.ZodRawShape>>(
+  name: string,
+  schema: T,
+  run: (args: z.infer<T>, log: (message: string) => void) => ToolResult
+) {
+  return async (args: Record<string, unknown>, extra?: ToolHandlerExtra): Promise<ToolResult> => {
+    const context = extractToolContext(extra);
+    const requestId = context.requestId || generateRequestId();
+    const logger = createRequestLogger(requestId, name, context.requestId);
+
+    if (extra?.exaSession) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: `${name} acts on the cache of every session and is only available with the server's own API key`
+        }],
+        isError: true
+      };
+    }
+
+    const validationResult = schema.safeParse(args);
+    if (!validationResult.success) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: `Invalid arguments: ${validationResult.error.issues.map(i => i.message).join(', ')}`
+        }],
+        isError: true
+      };
+    }
+
+    try {
+      return run(validationResult.data, message => logger.log(message));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.error(message);
+      return {
+        content: [{
+          type: "text" as const,
+          text: `Error: ${message}`
+        }],
+        isError: true
+      };
+    }
+  };
+}
+
+/**
+ * Create the admin tools that inspect and invalidate the response cache.
+ * Only registered when `EXA_CACHE_ADMIN=true`, and like manage_tools neither
+ * part of toolRegistry nor registered for sessions that bring their own API key.
+ */
+export function createCacheAdminTools(cache: CacheStore): ToolRegistry[] {
+  const annotations = { destructiveHint: false, openWorldHint: false };
+
+  return [
+    {
+      name: CACHE_STATS_NAME,
+      description: "Show response cache statistics: hit rate, size, evictions and a per-endpoint breakdown.",
+      schema: cacheStatsSchema,
+      enabled: true,
+      outputSchema: cacheStatsOutputSchema,
+      annotations: { ...annotations, readOnlyHint: true, idempotentHint: true },
+      examples: [{ description: "Show cache statistics", arguments: {} }],
+      handler: createAdminHandler(CACHE_STATS_NAME, cacheStatsSchema, () => {
+        const stats = cache.getStats();
+        return {
+          content: [{
+            type: "text" as const,
+            text: cache.isEnabled() ? formatCacheStats(stats) : `Cache disabled\n${formatCacheStats(stats)}`
+          }],
+          structuredContent: toStructured(stats, cache.isEnabled())
+        };
+      })
+    },
+    {
+      name: CACHE_INVALIDATE_NAME,
+      description: "Remove cached responses by tool, endpoint, URL or query text, so the next call fetches them again. Criteria combine (all must match).",
+      schema: cacheInvalidateSchema,
+      enabled: true,
+      outputSchema: cacheInvalidateOutputSchema,
+      annotations: { ...annotations, readOnlyHint: false, idempotentHint: true },
+      examples: [
+        { description: "Drop cached pages and results that include a changed page", arguments: { url: "https://example.com/pricing" } },
+        { description: "Drop cached searches about a topic", arguments: { tool: "exa_search", query: "vector database" } }
+      ],
+      handler: createAdminHandler(CACHE_INVALIDATE_NAME, cacheInvalidateSchema, (args, log) => {
+        const filter: CacheInvalidation = args;
+        if (Object.values(filter).every(value => value === undefined)) {
+          throw new Error(`Give at least one of tool, endpoint, url or query (use ${CACHE_CLEAR_NAME} to remove everything)`);
+        }
+        const invalidated = cache.invalidate(filter);
+        log(`Invalidated ${invalidated} cache entries`);
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Invalidated ${invalidated} cached ${invalidated === 1 ? 'response' : 'responses'}`
+          }],
+          structuredContent: { invalidated }
+        };
+      })
+    },
+    {
+      name: CACHE_CLEAR_NAME,
+      description: "Remove every cached response, in memory and in the persistent tier (for all servers sharing it).",
+      schema: cacheClearSchema,
+      enabled: true,
+      outputSchema: cacheClearOutputSchema,
+      annotations: { ...annotations, readOnlyHint: false, idempotentHint: true },
+      examples: [{ description: "Empty the cache", arguments: {} }],
+      handler: createAdminHandler(CACHE_CLEAR_NAME, cacheClearSchema, (_args, log) => {
+        const clearedEntries = cache.getStats().size;
+        cache.clear();
+        log(`Cleared ${clearedEntries} cache entries`);
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Cache cleared (${clearedEntries} in-memory ${clearedEntries === 1 ? 'entry' : 'entries'})`
+          }],
+          structuredContent: { clearedEntries }
+        };
+      })
+    }
+  ];
+}
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { createTool } from "./tool-builder.js";
+import { codeContextOutput } from "./output-schemas.js";
 import { ExaContextResponse } from "../types.js";
 
 const codeSearchSchema = z.object({
@@ -39,5 +40,10 @@ export const codeSearchTool = createTool({
     "Searching code repositories...",
     "Extracting relevant snippets...",
     "Formatting code results..."
-  ]
+  ],
+  examples: [
+    { description: "Find API usage examples", arguments: { query: "React useEffect cleanup with AbortController" } },
+    { description: "Limit the response size", arguments: { query: "Python asyncio TaskGroup error handling", tokensNum: 2000 } }
+  ],
+  ...codeContextOutput
 });
@@ -46,5 +46,8 @@ export const companyResearchTool = createSearchTool(
     "Crawling main pages...",
     "Extracting subpage content...",
     "Compiling company information..."
+  ],
+  [
+    { description: "Research a company's site", arguments: { query: "stripe.com", subpages: 15, subpageTarget: ["about", "pricing", "docs"] } }
   ]
 );
@@ -34,5 +34,8 @@ export const competitorFinderTool = createCompetitorFinderTool(
     "Searching for similar companies...",
     "Evaluating competitor relevance...",
     "Compiling competitor analysis..."
+  ],
+  [
+    { description: "Find competitors, excluding the company itself", arguments: { query: "payment processing API", numResults: 5, excludeDomain: "stripe.com" } }
   ]
-);
\ No newline at end of file
+);
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
 
 /**
  * Metadata that can be passed with tool requests (v1.18.0+)
@@ -12,6 +13,16 @@ export interface ToolMetadata {
   [key: string]: unknown;
 }
 
+/**
+ * Exa credentials supplied by an individual MCP session (multi-tenant HTTP deployments)
+ */
+export interface ExaSessionCredentials {
+  /** Exa API key used instead of the shared EXA_API_KEY */
+  apiKey: string;
+  /** Non-secret identifier for usage attribution */
+  tenant: string;
+}
+
 /**
  * Extra context passed to tool handlers
  */
@@ -20,6 +31,10 @@ export interface ToolHandlerExtra {
   _meta?: ToolMetadata;
   /** MCP server instance for sending notifications */
   server?: unknown; // Will be typed properly when server is imported
+  /** Per-session Exa credentials; the shared key is used when absent */
+  exaSession?: ExaSessionCredentials;
+  /** Fires when the client cancels the request (notifications/cancelled) */
+  signal?: AbortSignal;
   /** Any other extra data */
   [key: string]: unknown;
 }
@@ -32,7 +47,11 @@ export interface ToolResult {
     type: "text";
     text: string;
   }[];
+  /** Machine-readable result matching the tool's outputSchema */
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
+  /** Result metadata for the client, e.g. `cache` when answered from the cache */
+  _meta?: Record<string, unknown>;
 }
 
 /**
@@ -43,6 +62,16 @@ export type ToolHandler = (
   extra?: ToolHandlerExtra
 ) => Promise<ToolResult>;
 
+/**
+ * Sample invocation shown by `describe-tool`
+ */
+export interface ToolExample {
+  /** What the example demonstrates */
+  description: string;
+  /** Arguments that validate against the tool's schema */
+  arguments: Record<string, unknown>;
+}
+
 /**
  * Base interface for tool registration in the MCP server.
  * Each tool must implement this interface to be registered.
@@ -58,4 +87,36 @@ export interface ToolRegistry {
   handler: ToolHandler;
   /** Whether the tool is enabled by default */
   enabled: boolean;
+  /** Zod schema describing structuredContent on successful results */
+  outputSchema?: z.ZodObject<z.ZodRawShape>;
+  /** MCP behavior hints (readOnlyHint, openWorldHint, ...) */
+  annotations?: ToolAnnotations;
+  /** Sample invocations for CLI help and generated docs */
+  examples?: ToolExample[];
+}
+
+/**
+ * Whether a value is a zod schema. Duck-typed: plugins may bundle their own
+ * copy of zod, whose schemas fail `instanceof` checks against ours.
+ */
+export function isZodType(value: unknown): value is z.ZodTypeAny {
+  return value !== null && typeof value === 'object' && typeof (value as { safeParse?: unknown }).safeParse === 'function';
+}
+
+/**
+ * Whether a value is a zod object schema, from any copy of zod
+ */
+export function isZodObject(value: unknown): value is z.ZodObject<z.ZodRawShape> {
+  if (!isZodType(value)) {
+    return false;
+  }
+  const shape = (value as { shape?: unknown }).shape;
+  return shape !== null && typeof shape === 'object';
+}
+
+/**
+ * Raw shape of a tool's argument schema (ZodObject or raw shape), as McpServer.registerTool expects
+ */
+export function toolInputShape(schema: ToolRegistry['schema']): z.ZodRawShape {
+  return isZodObject(schema) ? schema.shape : schema;
 }
@@ -22,5 +22,10 @@ export const crawlingTool = createCrawlTool(
     ...(maxAgeHours !== undefined ? { maxAgeHours } : { livecrawl: 'always' as const }),
     ...(includeSummary && { summary: true }),
     ...(includeExtras && { extras: { links: true, imageUrls: true } })
-  })
+  }),
+  undefined,
+  [
+    { description: "Extract an article", arguments: { url: "https://example.com/article" } },
+    { description: "Fresh crawl with a summary", arguments: { url: "https://example.com/pricing", maxAgeHours: 0, includeSummary: true } }
+  ]
 );
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { createTool } from "./tool-builder.js";
+import { searchOutput } from "./output-schemas.js";
 
 interface ExaFindSimilarResponse {
   results: Array<{
@@ -81,5 +82,9 @@ export const findSimilarTool = createTool({
     "Computing semantic similarity...",
     "Ranking similar pages...",
     "Fetching page details..."
-  ]
+  ],
+  examples: [
+    { description: "Pages similar to a URL from other sites", arguments: { url: "https://www.anthropic.com/research", numResults: 5, excludeSourceDomain: true } }
+  ],
+  ...searchOutput
 });
@@ -8,6 +8,7 @@ import { answerTool } from './answer.js';
 import { findSimilarTool } from './findSimilar.js';
 import { batchContentsTool } from './batchContents.js';
 import { researchTool } from './research.js';
+import { researchStatusTool, researchResultTool, researchListTool, researchCancelTool } from './researchJobs.js';
 import { codeSearchTool } from './codeSearch.js';
 import { ToolRegistry } from './config.js';
 
@@ -22,5 +23,9 @@ export const toolRegistry: Record<string, ToolRegistry> = {
   [findSimilarTool.name]: findSimilarTool,
   [batchContentsTool.name]: batchContentsTool,
   [researchTool.name]: researchTool,
+  [researchStatusTool.name]: researchStatusTool,
+  [researchResultTool.name]: researchResultTool,
+  [researchListTool.name]: researchListTool,
+  [researchCancelTool.name]: researchCancelTool,
   [codeSearchTool.name]: codeSearchTool,
 };
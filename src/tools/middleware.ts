@@ -0,0 +1,414 @@
+import { ToolResult } from "./config.js";
+import type { ProgressTracker } from "./progress-tracker.js";
+import { createRequestLogger } from "../utils/pinoLogger.js";
+import { getGlobalCache } from "../utils/cache.js";
+import { requestKey } from "../utils/cacheKey.js";
+import { CacheDecision, resolveCachePolicy } from "../utils/cachePolicy.js";
+import { getConfig } from "../config/index.js";
+import { getTenantRateLimiter } from "../utils/rateLimiter.js";
+import { logExaUsage } from "../utils/usageLogger.js";
+import { getResourceStore } from "../resources/index.js";
+import { cancellable, isCancellationError, throwIfCancelled } from "../utils/cancellation.js";
+
+/**
+ * Per-call state shared by the middlewares of one tool invocation
+ */
+export interface ToolMiddlewareContext {
+  readonly toolName: string;
+  readonly endpoint: string;
+  readonly requestId: string;
+  /** Tenant fingerprint for per-session API keys */
+  readonly tenant?: string;
+  /** Fires when the client cancels the call */
+  readonly signal?: AbortSignal;
+  readonly logger: ReturnType<typeof createRequestLogger>;
+  /**
+   * Set by a beforeRequest hook to answer without calling the API (e.g. a
+   * cache hit). Later beforeRequest hooks and the API call are skipped.
+   * `meta` is returned to the client as the result's `_meta`.
+   */
+  response?: { data: unknown; source: string; meta?: Record<string, unknown> };
+  /**
+   * Call the API outside the chain, without progress or cancellation (e.g. a
+   * background cache refresh). Absent for task tools, which are too costly to
+   * run speculatively.
+   */
+  readonly fetch?: (request: unknown) => Promise<unknown>;
+  /** The call's progress notifications, if the tool reports progress */
+  readonly progress?: ProgressTracker;
+  /** Scratch space for middlewares to pass data between their own hooks */
+  readonly state: Record<string, unknown>;
+}
+
+/**
+ * Hooks around a createTool API call. All hooks are optional and may be async.
+ *
+ * - beforeRequest runs in chain order; returning a value replaces the request
+ * - afterResponse runs in reverse order; returning a value replaces the response data
+ * - onError runs in reverse order; returning a ToolResult recovers with that result
+ *
+ * Only middlewares whose beforeRequest was reached get afterResponse/onError,
+ * so a short-circuited call unwinds like an onion.
+ */
+export interface ToolMiddleware {
+  /** Identifies the middleware in logs and errors */
+  name: string;
+  beforeRequest?(args: Record<string, unknown>, request: unknown, context: ToolMiddlewareContext): unknown | Promise<unknown>;
+  afterResponse?(data: unknown, context: ToolMiddlewareContext): unknown | Promise<unknown>;
+  onError?(error: unknown, context: ToolMiddlewareContext): ToolResult | void | Promise<ToolResult | void>;
+}
+
+/**
+ * Where a middleware applies
+ */
+export interface ToolMiddlewareOptions {
+  /** Limit the middleware to these tools (default: every createTool tool) */
+  tools?: string[];
+}
+
+interface RegisteredMiddleware {
+  middleware: ToolMiddleware;
+  tools?: Set<string>;
+}
+
+const globalMiddleware: RegisteredMiddleware[] = [];
+
+/**
+ * Add a middleware to every createTool tool, or to the named tools only.
+ * Applies to calls made after registration, in registration order.
+ * @returns Function that removes the middleware again
+ */
+export function useToolMiddleware(middleware: ToolMiddleware, options: ToolMiddlewareOptions = {}): () => void {
+  const entry: RegisteredMiddleware = {
+    middleware,
+    tools: options.tools ? new Set(options.tools) : undefined
+  };
+  globalMiddleware.push(entry);
+  return () => {
+    const index = globalMiddleware.indexOf(entry);
+    if (index !== -1) {
+      globalMiddleware.splice(index, 1);
+    }
+  };
+}
+
+/**
+ * Remove every registered middleware (useful for testing)
+ */
+export function resetToolMiddleware(): void {
+  globalMiddleware.length = 0;
+}
+
+/**
+ * Globally registered middlewares that apply to a tool
+ */
+export function getToolMiddleware(toolName: string): ToolMiddleware[] {
+  return globalMiddleware
+    .filter(entry => !entry.tools || entry.tools.has(toolName))
+    .map(entry => entry.middleware);
+}
+
+/**
+ * Record a failed call in the usage CSV, classified by cancellation or HTTP status
+ */
+export function logExaUsageError(toolName: string, error: unknown, tenant?: string): void {
+  if (isCancellationError(error)) {
+    logExaUsage(toolName, "cancelled", "", tenant);
+    return;
+  }
+  const err = error as { response?: { status?: number }; message?: string };
+  const statusCode = err?.response?.status;
+  const status = statusCode === 429 ? "rate_limit"
+    : statusCode === 402 ? "quota_error"
+    : "error";
+  logExaUsage(toolName, status, String(err?.message ?? "").slice(0, 80), tenant);
+}
+
+/**
+ * Records the outcome of each call in the usage CSV
+ */
+export const usageMiddleware: ToolMiddleware = {
+  name: 'usage',
+  afterResponse(_data, context) {
+    const source = context.response?.source;
+    logExaUsage(context.toolName, source === 'cache' ? "cache_hit" : source === 'inflight' ? "coalesced" : "ok", "", context.tenant);
+  },
+  onError(error, context) {
+    logExaUsageError(context.toolName, error, context.tenant);
+  }
+};
+
+/**
+ * Stops work for cancelled calls: before the cache lookup, and once a
+ * response has been cached (so a late response is kept for the next caller)
+ */
+export const cancellationMiddleware: ToolMiddleware = {
+  name: 'cancellation',
+  beforeRequest(_args, _request, context) {
+    throwIfCancelled(context.signal);
+  },
+  afterResponse(_data, context) {
+    throwIfCancelled(context.signal);
+  }
+};
+
+/**
+ * `_meta.cache` of a result answered from the cache
+ */
+export interface CacheHitMeta {
+  /** Past its TTL; served while a background refresh updates the cache */
+  stale: boolean;
+  ageSeconds: number;
+}
+
+/**
+ * Background refreshes in flight, by request key
+ */
+const refreshing = new Set<string>();
+
+/**
+ * Refetch a stale response through the rate limiter and update the cache.
+ * Concurrent stale hits on the same request share one refresh; failures only keep the stale entry.
+ */
+function refreshInBackground(
+  request: unknown,
+  decision: Extract<CacheDecision, { cache: true }>,
+  context: ToolMiddlewareContext,
+  fetch: (request: unknown) => Promise<unknown>
+): void {
+  const key = requestKey(context.endpoint, request);
+  if (refreshing.has(key)) {
+    return;
+  }
+  refreshing.add(key);
+
+  void (async () => {
+    try {
+      await getTenantRateLimiter(context.tenant).queue();
+      const data = await fetch(request);
+      logExaUsage(context.toolName, "ok", "background refresh", context.tenant);
+      getGlobalCache().set(context.endpoint, request, data, { ttlMs: decision.ttlMs, staleMs: decision.staleMs, tool: context.toolName });
+      getResourceStore().record(context.toolName, context.endpoint, request, data, context.tenant);
+      context.logger.log(`Refreshed stale cache entry for ${context.toolName}`);
+    } catch (error) {
+      logExaUsageError(context.toolName, error, context.tenant);
+      context.logger.log(`Background refresh failed for ${context.toolName}: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      refreshing.delete(key);
+    }
+  })();
+}
+
+/**
+ * Answers from the request cache when possible and caches API responses,
+ * for as long as the cache policy allows (see resolveCachePolicy).
+ * Within the policy's stale window an expired response is returned at once,
+ * marked stale in `_meta.cache`, while a background refresh replaces it.
+ * Responses are also exposed as MCP resources.
+ */
+export const cacheMiddleware: ToolMiddleware = {
+  name: 'cache',
+  beforeRequest(args, request, context) {
+    const decision = resolveCachePolicy(context.toolName, context.endpoint, request, getConfig().cache, args);
+    context.state.cacheDecision = decision;
+    if (!decision.cache) {
+      context.logger.log(`Cache bypassed for ${context.toolName}: ${decision.reason}`);
+      return;
+    }
+    context.state.cacheRequest = request;
+    // Stale entries are only worth serving if they can be refreshed
+    const cached = getGlobalCache().lookup<unknown>(context.endpoint, request, { allowStale: context.fetch !== undefined });
+    if (!cached) {
+      return;
+    }
+
+    getResourceStore().record(context.toolName, context.endpoint, request, cached.data, context.tenant);
+    const meta: CacheHitMeta = { stale: cached.stale, ageSeconds: Math.round(cached.ageMs / 1000) };
+    if (cached.stale && context.fetch) {
+      context.logger.log(`Stale cache hit for ${context.toolName}, refreshing in the background`);
+      refreshInBackground(request, decision, context, context.fetch);
+    } else {
+      context.logger.log(`Cache hit for ${context.toolName}`);
+    }
+    context.response = { data: cached.data, source: 'cache', meta: { cache: meta } };
+  },
+  afterResponse(data, context) {
+    const decision = context.state.cacheDecision as CacheDecision;
+    // Cache hits are cached already, and shared in-flight responses by the call that fetched them
+    if (context.response || !decision.cache) {
+      return;
+    }
+    const request = context.state.cacheRequest;
+    getGlobalCache().set(context.endpoint, request, data, { ttlMs: decision.ttlMs, staleMs: decision.staleMs, tool: context.toolName });
+    getResourceStore().record(context.toolName, context.endpoint, request, data, context.tenant);
+  }
+};
+
+/**
+ * API call that identical concurrent calls wait on instead of sending their own
+ */
+interface InFlightCall {
+  promise: Promise<unknown>;
+  resolve(data: unknown): void;
+  reject(error: unknown): void;
+  /** The fetching call's progress, relayed to the waiting calls */
+  progress?: ProgressTracker;
+}
+
+/**
+ * API calls in flight, by tenant and canonical request
+ */
+const inFlight = new Map<string, InFlightCall>();
+
+/**
+ * Settle the call this context is fetching for, if any, and stop sharing it
+ */
+function settleInFlight(context: ToolMiddlewareContext, settle: (call: InFlightCall) => void): void {
+  const owned = context.state.inFlight as { key: string; call: InFlightCall } | undefined;
+  if (!owned) {
+    return;
+  }
+  delete context.state.inFlight;
+  if (inFlight.get(owned.key) === owned.call) {
+    inFlight.delete(owned.key);
+  }
+  settle(owned.call);
+}
+
+/**
+ * Coalesces identical concurrent calls (singleflight): while one call fetches
+ * a request, calls with the same canonical request and tenant wait for its
+ * response instead of sending their own, without taking a rate limiter slot.
+ * Each waiting call keeps its own logging, cancellation and progress (relayed
+ * from the fetching call) and is logged as "coalesced". If the fetching call
+ * is cancelled, a waiting call fetches the request itself; any other error is shared.
+ */
+export const inFlightMiddleware: ToolMiddleware = {
+  name: 'inFlight',
+  async beforeRequest(_args, request, context) {
+    // Different API keys neither share each other's billing nor errors
+    const key = `${context.tenant ?? 'shared'}:${requestKey(context.endpoint, request)}`;
+
+    for (let pending = inFlight.get(key); pending; pending = inFlight.get(key)) {
+      context.logger.log(`Waiting for an identical ${context.toolName} request in flight`);
+      const stopFollowing = pending.progress && context.progress?.follow(pending.progress);
+      try {
+        const data = await cancellable(pending.promise, context.signal);
+        context.response = { data, source: 'inflight' };
+        return;
+      } catch (error) {
+        if (!isCancellationError(error) || context.signal?.aborted) {
+          throw error;
+        }
+        context.logger.log(`Identical ${context.toolName} request was cancelled, sending it again`);
+      } finally {
+        stopFollowing?.();
+      }
+    }
+
+    let resolve!: (data: unknown) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<unknown>((onResolve, onReject) => {
+      resolve = onResolve;
+      reject = onReject;
+    });
+    // Nobody may be waiting when the call fails
+    promise.catch(() => undefined);
+    const call: InFlightCall = { promise, resolve, reject, progress: context.progress };
+    inFlight.set(key, call);
+    context.state.inFlight = { key, call };
+  },
+  afterResponse(data, context) {
+    settleInFlight(context, call => call.resolve(data));
+  },
+  onError(error, context) {
+    settleInFlight(context, call => call.reject(error));
+  }
+};
+
+/**
+ * Waits for a slot on the tenant's rate limiter before the API call
+ */
+export const rateLimitMiddleware: ToolMiddleware = {
+  name: 'rateLimit',
+  async beforeRequest(_args, _request, context) {
+    await getTenantRateLimiter(context.tenant).queue(context.signal);
+  }
+};
+
+/**
+ * Built-in chain every createTool tool runs, wrapped around the custom middlewares:
+ * usage logging outermost, then custom middlewares, then cancellation, cache,
+ * in-flight coalescing and rate limiting. Tools whose responses must not be
+ * reused (e.g. task creation) leave out the cache and coalescing.
+ */
+export function buildMiddlewareChain(custom: ToolMiddleware[], options: { cache?: boolean } = {}): ToolMiddleware[] {
+  return [
+    usageMiddleware,
+    ...custom,
+    cancellationMiddleware,
+    ...(options.cache === false ? [] : [cacheMiddleware, inFlightMiddleware]),
+    rateLimitMiddleware
+  ];
+}
+
+/**
+ * Outcome of a middleware pipeline run
+ */
+export type MiddlewareOutcome =
+  | { data: unknown; source: string; meta?: Record<string, unknown> }
+  | { result: ToolResult };
+
+/**
+ * Run the chain around `call`.
+ * @returns Response data (with its source), or a ToolResult an onError hook recovered with
+ * @throws The original error when no onError hook recovers
+ */
+export async function runMiddleware(
+  chain: ToolMiddleware[],
+  args: Record<string, unknown>,
+  request: unknown,
+  context: ToolMiddlewareContext,
+  call: (request: unknown) => Promise<unknown>
+): Promise<MiddlewareOutcome> {
+  const entered: ToolMiddleware[] = [];
+
+  try {
+    let currentRequest = request;
+    for (const middleware of chain) {
+      entered.push(middleware);
+      if (middleware.beforeRequest) {
+        const replacement = await middleware.beforeRequest(args, currentRequest, context);
+        if (replacement !== undefined) {
+          currentRequest = replacement;
+        }
+      }
+      if (context.response) {
+        break;
+      }
+    }
+
+    let data = context.response ? context.response.data : await call(currentRequest);
+    const source = context.response?.source ?? 'api';
+
+    for (const middleware of [...entered].reverse()) {
+      if (middleware.afterResponse) {
+        const replacement = await middleware.afterResponse(data, context);
+        if (replacement !== undefined) {
+          data = replacement;
+        }
+      }
+    }
+    return { data, source, ...(context.response?.meta && { meta: context.response.meta }) };
+  } catch (error) {
+    for (const middleware of [...entered].reverse()) {
+      if (middleware.onError) {
+        const recovered = await middleware.onError(error, context);
+        if (recovered) {
+          return { result: recovered };
+        }
+      }
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,189 @@
+import { z } from "zod";
+import { ExaContextResponse } from "../types.js";
+
+/**
+ * Output schemas and mappers for structuredContent.
+ * Each bundle is spread into a ToolConfig so the tool advertises the schema,
+ * maps API responses onto it, and has a valid value for empty responses.
+ */
+
+/**
+ * Structured output definition for a tool
+ */
+export interface ToolOutput<TResponse> {
+  /** Zod schema advertised as the tool's outputSchema */
+  outputSchema: z.ZodObject<z.ZodRawShape>;
+  /** Maps an API response to structuredContent matching outputSchema */
+  formatStructured: (data: TResponse) => Record<string, unknown>;
+  /** structuredContent returned when the API sends back no data */
+  emptyStructured: Record<string, unknown>;
+}
+
+/**
+ * Remove null/undefined fields so optional schema fields validate
+ */
+function compact<T extends Record<string, unknown>>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== null && v !== undefined)
+  ) as Partial<T>;
+}
+
+const resultSchema = z.object({
+  id: z.string().optional(),
+  url: z.string(),
+  title: z.string().optional(),
+  publishedDate: z.string().optional().describe("Publication date (ISO 8601) when known"),
+  author: z.string().optional(),
+  score: z.number().optional().describe("Relevance or similarity score"),
+  summary: z.string().optional(),
+  highlights: z.array(z.string()).optional(),
+  text: z.string().optional(),
+  links: z.array(z.string()).optional(),
+  imageUrls: z.array(z.string()).optional(),
+  subpages: z.array(z.object({
+    url: z.string(),
+    title: z.string().optional(),
+    text: z.string().optional()
+  })).optional(),
+  error: z.string().optional().describe("Per-URL extraction error (content endpoints)")
+});
+
+/**
+ * Loose shape of a result item shared by search, contents and findSimilar responses
+ */
+interface RawResult {
+  id?: string;
+  url: string;
+  title?: string | null;
+  publishedDate?: string | null;
+  author?: string | null;
+  score?: number | null;
+  summary?: string | null;
+  highlights?: string[] | null;
+  text?: string | null;
+  extras?: { links?: string[]; imageUrls?: string[] } | null;
+  subpages?: Array<{ url: string; title?: string | null; text?: string | null }> | null;
+  error?: string | null;
+}
+
+function toStructuredResult(result: RawResult): Record<string, unknown> {
+  return compact({
+    id: result.id,
+    url: result.url,
+    title: result.title,
+    publishedDate: result.publishedDate,
+    author: result.author,
+    score: result.score,
+    summary: result.summary,
+    highlights: result.highlights,
+    text: result.text,
+    links: result.extras?.links,
+    imageUrls: result.extras?.imageUrls,
+    subpages: result.subpages?.map(subpage => compact({ url: subpage.url, title: subpage.title, text: subpage.text })),
+    error: result.error
+  });
+}
+
+/**
+ * Search, crawl and find-similar results
+ */
+export const searchOutput: ToolOutput<{ requestId?: string; resolvedSearchType?: string; results: RawResult[] }> = {
+  outputSchema: z.object({
+    requestId: z.string().optional(),
+    resolvedSearchType: z.string().optional(),
+    results: z.array(resultSchema)
+  }),
+  formatStructured: (data) => compact({
+    requestId: data.requestId,
+    resolvedSearchType: data.resolvedSearchType,
+    results: (data.results ?? []).map(toStructuredResult)
+  }),
+  emptyStructured: { results: [] }
+};
+
+/**
+ * Batch content extraction, including per-URL statuses
+ */
+export const contentsOutput: ToolOutput<{ requestId?: string; results: RawResult[]; statuses?: Array<{ url: string; status: string; error?: string }> }> = {
+  outputSchema: z.object({
+    requestId: z.string().optional(),
+    results: z.array(resultSchema),
+    statuses: z.array(z.object({
+      url: z.string(),
+      status: z.string(),
+      error: z.string().optional()
+    })).optional()
+  }),
+  formatStructured: (data) => compact({
+    requestId: data.requestId,
+    results: (data.results ?? []).map(toStructuredResult),
+    statuses: data.statuses?.map(status => compact({ ...status }))
+  }),
+  emptyStructured: { results: [] }
+};
+
+/**
+ * Synthesized answers with citations
+ */
+export const answerOutput: ToolOutput<{ answer: string; citations: RawResult[] }> = {
+  outputSchema: z.object({
+    answer: z.string(),
+    citations: z.array(resultSchema)
+  }),
+  formatStructured: (data) => ({
+    answer: data.answer ?? '',
+    citations: (data.citations ?? []).map(toStructuredResult)
+  }),
+  emptyStructured: { answer: '', citations: [] }
+};
+
+/**
+ * Code context snippets
+ */
+export const codeContextOutput: ToolOutput<ExaContextResponse> = {
+  outputSchema: z.object({
+    totalTokens: z.number().optional(),
+    results: z.array(z.object({
+      url: z.string(),
+      text: z.string(),
+      tokens: z.number().optional()
+    }))
+  }),
+  formatStructured: (data) => compact({
+    totalTokens: data.totalTokens,
+    results: (data.results ?? []).map(result => compact({ ...result }))
+  }),
+  emptyStructured: { results: [] }
+};
+
+/**
+ * Deep research task output
+ */
+export const researchOutputSchema = z.object({
+  taskId: z.string(),
+  objective: z.string(),
+  status: z.enum(['pending', 'processing', 'completed', 'failed', 'cancelled']).optional()
+    .describe("Task status; a task started with async: true has no result until completed"),
+  result: z.unknown().describe("Research result; matches the requested outputSchema when one was given")
+});
+
+/**
+ * Async research job, as tracked by research_status and research_list
+ */
+export const researchJobOutputSchema = z.object({
+  taskId: z.string(),
+  objective: z.string(),
+  status: z.enum(['pending', 'processing', 'completed', 'failed', 'cancelled']),
+  progress: z.number().optional().describe("Percent complete, when Exa reports it"),
+  currentStep: z.string().optional(),
+  error: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string()
+});
+
+/**
+ * Async research jobs, newest first
+ */
+export const researchJobListOutputSchema = z.object({
+  jobs: z.array(researchJobOutputSchema)
+});
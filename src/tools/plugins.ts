@@ -0,0 +1,175 @@
+import { createRequire } from "module";
+import * as path from "path";
+import { pathToFileURL } from "url";
+import { z } from "zod";
+import { AxiosInstance } from "axios";
+import { ToolRegistry, isZodObject, isZodType } from "./config.js";
+import { toolRegistry } from "./index.js";
+import { createTool, createSearchTool, createCrawlTool } from "./tool-builder.js";
+import { useToolMiddleware } from "./middleware.js";
+import { getSharedExaClient } from "../utils/exaClient.js";
+import { CacheStore, getGlobalCache } from "../utils/cache.js";
+import { getGlobalRateLimiter, RateLimiter } from "../utils/rateLimiter.js";
+import { structuredLogger } from "../utils/pinoLogger.js";
+
+/**
+ * Thrown when a plugin can't be imported or exports invalid tools
+ */
+export class PluginLoadError extends Error {
+  constructor(public readonly plugin: string, message: string) {
+    super(`Plugin "${plugin}": ${message}`);
+    this.name = 'PluginLoadError';
+  }
+}
+
+/**
+ * Shared services handed to plugin factories. Services are created on first
+ * access, so factories that don't touch them work without an API key
+ * (e.g. for --list-tools).
+ */
+export interface PluginContext {
+  /** Shared Exa API client (same instance the built-in tools use) */
+  readonly client: AxiosInstance;
+  /** Shared request cache */
+  readonly cache: CacheStore;
+  /** Shared rate limiter */
+  readonly rateLimiter: RateLimiter;
+  /** Tool builders, so plugin tools get the same caching, logging and progress handling */
+  readonly createTool: typeof createTool;
+  readonly createSearchTool: typeof createSearchTool;
+  readonly createCrawlTool: typeof createCrawlTool;
+  /** Register a middleware for every tool or selected tools (e.g. auditing or metrics) */
+  readonly useMiddleware: typeof useToolMiddleware;
+}
+
+/**
+ * What a plugin module may export (as `tools` or `default`):
+ * a tool, an array of tools, or a factory returning either (optionally async)
+ */
+export type PluginExport =
+  | ToolRegistry
+  | ToolRegistry[]
+  | ((context: PluginContext) => ToolRegistry | ToolRegistry[] | Promise<ToolRegistry | ToolRegistry[]>);
+
+/**
+ * Raw shape: a plain object of zod schemas
+ */
+function isRawShape(value: unknown): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !isZodType(value)
+    && Object.values(value).every(isZodType);
+}
+
+const pluginToolSchema = z.object({
+  name: z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/, 'must be 1-64 letters, digits, underscores or hyphens'),
+  description: z.string().min(1),
+  schema: z.custom<ToolRegistry['schema']>(
+    (value) => isZodObject(value) || isRawShape(value),
+    'must be a zod object or raw shape'
+  ),
+  handler: z.custom<ToolRegistry['handler']>((value) => typeof value === 'function', 'must be a function'),
+  enabled: z.boolean(),
+  outputSchema: z.custom<z.ZodObject<z.ZodRawShape>>(isZodObject, 'must be a zod object').optional()
+}).passthrough();
+
+function createPluginContext(): PluginContext {
+  return {
+    get client() { return getSharedExaClient(); },
+    get cache() { return getGlobalCache(); },
+    get rateLimiter() { return getGlobalRateLimiter(); },
+    createTool,
+    createSearchTool,
+    createCrawlTool,
+    useMiddleware: useToolMiddleware
+  };
+}
+
+/**
+ * Turn a plugin specifier into something import() accepts.
+ * Paths (starting with `.` or `/`) resolve against the working directory;
+ * package names resolve from the working directory's node_modules first.
+ */
+function resolvePluginSpecifier(plugin: string, cwd: string): string {
+  if (plugin.startsWith('.') || path.isAbsolute(plugin)) {
+    return pathToFileURL(path.resolve(cwd, plugin)).href;
+  }
+  try {
+    return pathToFileURL(createRequire(path.join(cwd, 'noop.js')).resolve(plugin)).href;
+  } catch {
+    // Fall back to resolving from this package (e.g. globally installed plugins next to the server)
+    return plugin;
+  }
+}
+
+/**
+ * Import one plugin and return its validated tools
+ * @throws PluginLoadError if the module can't be imported or its exports are invalid
+ */
+export async function loadPlugin(plugin: string, cwd: string = process.cwd()): Promise<ToolRegistry[]> {
+  let module: Record<string, unknown>;
+  try {
+    module = await import(resolvePluginSpecifier(plugin, cwd));
+  } catch (error) {
+    throw new PluginLoadError(plugin, `cannot import module (${error instanceof Error ? error.message : String(error)})`);
+  }
+
+  const exported = (module.tools ?? module.default) as PluginExport | undefined;
+  if (exported === undefined) {
+    throw new PluginLoadError(plugin, 'module must export tools as "tools" or "default"');
+  }
+
+  let tools: unknown;
+  try {
+    tools = typeof exported === 'function' ? await exported(createPluginContext()) : exported;
+  } catch (error) {
+    throw new PluginLoadError(plugin, `factory failed (${error instanceof Error ? error.message : String(error)})`);
+  }
+
+  const list = Array.isArray(tools) ? tools : [tools];
+  return list.map((tool, index) => {
+    const result = pluginToolSchema.safeParse(tool);
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'tool'} ${issue.message}`).join('; ');
+      throw new PluginLoadError(plugin, `invalid tool at index ${index}: ${issues}`);
+    }
+    return tool as ToolRegistry;
+  });
+}
+
+/**
+ * Load plugins and add their tools to the registry.
+ * All plugins are loaded and checked before anything is registered, so a bad
+ * plugin leaves the registry untouched.
+ * @returns Names of the added tools
+ * @throws PluginLoadError on import/validation failures or name collisions
+ */
+export async function loadPlugins(
+  plugins: string[],
+  registry: Record<string, ToolRegistry> = toolRegistry,
+  cwd: string = process.cwd()
+): Promise<string[]> {
+  const owners = new Map<string, string>();
+  const loaded: ToolRegistry[] = [];
+
+  for (const plugin of new Set(plugins)) {
+    const tools = await loadPlugin(plugin, cwd);
+    for (const tool of tools) {
+      if (registry[tool.name]) {
+        throw new PluginLoadError(plugin, `tool "${tool.name}" conflicts with an existing tool`);
+      }
+      const owner = owners.get(tool.name);
+      if (owner) {
+        throw new PluginLoadError(plugin, `tool "${tool.name}" is also defined by plugin "${owner}"`);
+      }
+      owners.set(tool.name, plugin);
+      loaded.push(tool);
+    }
+  }
+
+  loaded.forEach((tool) => {
+    registry[tool.name] = tool;
+  });
+  if (loaded.length > 0) {
+    structuredLogger.info({ plugins: Array.from(new Set(plugins)), tools: loaded.map(tool => tool.name) }, 'Loaded plugin tools');
+  }
+  return loaded.map(tool => tool.name);
+}
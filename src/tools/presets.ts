@@ -0,0 +1,103 @@
+import { z } from "zod";
+import { createSearchTool } from "./tool-builder.js";
+import { ToolRegistry } from "./config.js";
+import { toolRegistry } from "./index.js";
+import { getConfig, PresetSearchField, PresetToolConfig } from "../config/index.js";
+import { ExaSearchRequest } from "../types.js";
+
+/**
+ * Argument schemas for search fields a preset can expose, matching exa_search's parameters
+ */
+const presetParameterSchemas: Record<PresetSearchField, z.ZodTypeAny> = {
+  type: z.enum(['auto', 'instant', 'fast', 'neural', 'deep', 'deep-reasoning']).optional()
+    .describe("Search type: 'instant' (~200ms), 'fast' (~450ms), 'auto' (default ~1s), 'neural' (embeddings), 'deep' (~5-60s complex queries), 'deep-reasoning'"),
+  category: z.enum(['company', 'research paper', 'news', 'personal site', 'financial report', 'people']).optional()
+    .describe("Filter by content category"),
+  includeDomains: z.array(z.string()).optional()
+    .describe("Only return results from these domains (max 1200)"),
+  excludeDomains: z.array(z.string()).optional()
+    .describe("Exclude results from these domains (max 1200)"),
+  startPublishedDate: z.string().optional()
+    .describe("Filter results published after this date (ISO 8601)"),
+  endPublishedDate: z.string().optional()
+    .describe("Filter results published before this date (ISO 8601)"),
+  startCrawlDate: z.string().optional()
+    .describe("Filter results crawled after this date (ISO 8601)"),
+  endCrawlDate: z.string().optional()
+    .describe("Filter results crawled before this date (ISO 8601)"),
+  includeText: z.string().optional()
+    .describe("Require this phrase in results (max 5 words)"),
+  excludeText: z.string().optional()
+    .describe("Exclude results containing this phrase"),
+  userLocation: z.string().optional()
+    .describe("Filter by region (ISO country code, e.g. 'US')"),
+  numResults: z.coerce.number().min(1).max(100).optional()
+    .describe("Number of search results to return"),
+  maxAgeHours: z.coerce.number().min(-1).optional()
+    .describe("Content freshness: 0 = force fresh crawl, -1 = cached only, positive number = max age in hours")
+};
+
+/**
+ * Build a search tool from a preset definition.
+ * Fixed `request` fields are always sent; exposed `parameters` are added when the caller sets them.
+ */
+export function createPresetTool(preset: PresetToolConfig): ToolRegistry {
+  const shape: z.ZodRawShape = { query: z.string().describe("Search query") };
+  preset.parameters.forEach((parameter) => {
+    shape[parameter] = presetParameterSchemas[parameter];
+  });
+
+  return createSearchTool(
+    preset.name,
+    preset.description,
+    z.object(shape),
+    preset.enabled,
+    (args) => {
+      const config = getConfig();
+      const fields: Partial<Record<PresetSearchField, unknown>> = { ...preset.request };
+      preset.parameters.forEach((parameter) => {
+        if (args[parameter] !== undefined) {
+          fields[parameter] = args[parameter];
+        }
+      });
+      const { type, numResults, maxAgeHours, ...filters } = fields as Partial<ExaSearchRequest> & { maxAgeHours?: number };
+
+      return {
+        ...filters,
+        query: args.query as string,
+        type: type || "auto",
+        numResults: numResults || config.tools.defaultNumResults,
+        contents: {
+          text: {
+            maxCharacters: config.tools.defaultMaxCharacters
+          },
+          ...(maxAgeHours !== undefined ? { maxAgeHours } : { livecrawl: 'always' as const })
+        }
+      };
+    },
+    undefined,
+    undefined,
+    preset.examples
+  );
+}
+
+/**
+ * Add preset tools from the config file to the registry
+ * @returns Names of the added tools
+ * @throws Error if a preset name collides with an existing tool
+ */
+export function registerPresetTools(
+  presets: PresetToolConfig[],
+  registry: Record<string, ToolRegistry> = toolRegistry
+): string[] {
+  presets.forEach((preset) => {
+    if (registry[preset.name]) {
+      throw new Error(`Preset tool "${preset.name}" conflicts with an existing tool`);
+    }
+  });
+
+  return presets.map((preset) => {
+    registry[preset.name] = createPresetTool(preset);
+    return preset.name;
+  });
+}
@@ -1,5 +1,5 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { ToolHandlerExtra, ToolResult } from "./config.js";
+import { ExaSessionCredentials, ToolHandlerExtra, ToolResult } from "./config.js";
 
 /**
  * Sends a progress notification to the MCP client
@@ -42,6 +42,7 @@ export async function sendProgressNotification(
  */
 export class ProgressTracker {
   private current = 0;
+  private followers = new Set<(value: number, total: number, message?: string) => void>();
 
   constructor(
     private readonly total: number,
@@ -65,6 +66,7 @@ export class ProgressTracker {
    */
   async update(value: number, message?: string): Promise<void> {
     this.current = value;
+    this.followers.forEach(follower => follower(value, this.total, message));
     await sendProgressNotification(
       this.progressToken,
       this.server,
@@ -81,6 +83,21 @@ export class ProgressTracker {
   async complete(message?: string): Promise<void> {
     await this.update(this.total, message || "Complete");
   }
+
+  /**
+   * Mirror another tracker's updates, scaled to this tracker's total
+   * (e.g. while waiting on a call that shares another call's request)
+   * @returns Function that stops following
+   */
+  follow(source: ProgressTracker): () => void {
+    const follower = (value: number, total: number, message?: string) => {
+      void this.update(Math.round((value / total) * this.total), message);
+    };
+    source.followers.add(follower);
+    return () => {
+      source.followers.delete(follower);
+    };
+  }
 }
 
 /**
@@ -92,18 +109,23 @@ export function extractToolContext(extra?: ToolHandlerExtra): {
   progressToken?: string;
   requestId?: string;
   server?: Server;
+  exaSession?: ExaSessionCredentials;
+  signal?: AbortSignal;
   metadata?: Record<string, unknown>;
 } {
   if (!extra) {
     return {};
   }
 
-  const { _meta, server, ...rest } = extra;
+  // Credentials and the abort signal are pulled out so they never end up in logged metadata
+  const { _meta, server, exaSession, signal, ...rest } = extra;
 
   return {
     progressToken: _meta?.progressToken,
     requestId: _meta?.requestId,
     server: server as Server | undefined,
+    exaSession,
+    signal,
     metadata: { ..._meta, ...rest }
   };
 }
@@ -1,11 +1,9 @@
 import { z } from "zod";
-import { AxiosInstance } from "axios";
-import { ToolRegistry, ToolHandlerExtra } from "./config.js";
-import { ProgressTracker, extractToolContext } from "./progress-tracker.js";
-import { getSharedExaClient, handleExaError } from "../utils/exaClient.js";
-import { getGlobalRateLimiter } from "../utils/rateLimiter.js";
-import { createRequestLogger, generateRequestId } from "../utils/pinoLogger.js";
-import { logExaUsage } from "../utils/usageLogger.js";
+import { ToolRegistry } from "./config.js";
+import { createTool, PollState } from "./tool-builder.js";
+import { ToolMiddleware } from "./middleware.js";
+import { researchOutputSchema } from "./output-schemas.js";
+import { getResearchJobStore, ResearchJob } from "../utils/researchJobStore.js";
 
 interface ExaResearchRequest {
   objective: string;
@@ -25,7 +23,7 @@ interface ExaResearchTaskResponse {
   estimatedTime: number;
 }
 
-interface ExaResearchStatusResponse {
+export interface ExaResearchStatusResponse {
   taskId: string;
   status: 'pending' | 'processing' | 'completed' | 'failed';
   progress?: number;
@@ -34,46 +32,15 @@ interface ExaResearchStatusResponse {
   error?: string;
 }
 
-class ResearchPoller {
-  private maxAttempts: number;
-  private pollInterval: number;
-
-  constructor(
-    private client: AxiosInstance,
-    private logger: ReturnType<typeof createRequestLogger>
-  ) {
-    this.maxAttempts = 60; // 2 minutes max with 2 second intervals
-    this.pollInterval = 2000; // 2 seconds
-  }
-
-  async pollTask(taskId: string, progress?: ProgressTracker): Promise<unknown> {
-    let attempts = 0;
-
-    while (attempts < this.maxAttempts) {
-      this.logger.log(`Polling attempt ${attempts + 1}/${this.maxAttempts} for task ${taskId}`);
-
-      const response = await this.client.get<ExaResearchStatusResponse>(`/research/status/${taskId}`);
-
-      if (progress && response.data.currentStep) {
-        const pct = response.data.progress ?? (attempts / this.maxAttempts * 100);
-        await progress.update(pct, response.data.currentStep);
-      }
-
-      if (response.data.status === 'completed') {
-        this.logger.log(`Task ${taskId} completed successfully`);
-        return response.data.result;
-      }
-
-      if (response.data.status === 'failed') {
-        throw new Error(response.data.error || 'Research task failed');
-      }
-
-      await new Promise(resolve => setTimeout(resolve, this.pollInterval));
-      attempts++;
-    }
-
-    throw new Error('Research task timed out after 2 minutes');
-  }
+/**
+ * Completed research task, as cached and formatted
+ */
+export interface ResearchData {
+  taskId: string;
+  objective: string;
+  /** Whether an outputSchema was requested, i.e. `result` is structured data */
+  structured: boolean;
+  result: unknown;
 }
 
 const researchSchema = z.object({
@@ -83,122 +50,178 @@ const researchSchema = z.object({
   startDate: z.string().optional().describe("Start date for research scope (ISO format)"),
   endDate: z.string().optional().describe("End date for research scope (ISO format)"),
   domains: z.array(z.string()).optional().describe("Domains to include in research"),
-  excludeDomains: z.array(z.string()).optional().describe("Domains to exclude from research")
+  excludeDomains: z.array(z.string()).optional().describe("Domains to exclude from research"),
+  async: z.boolean().optional().default(false)
+    .describe("Return a task id right away instead of waiting; follow up with research_status and research_result")
 });
 
-export const researchTool: ToolRegistry = {
+/**
+ * Render a research result: structured data as JSON, summaries with findings and sources as markdown
+ */
+export function formatResearchResult(data: ResearchData): string {
+  const { result } = data;
+  let formattedOutput = `## Research Results\n\n`;
+  formattedOutput += `**Objective:** ${data.objective}\n\n`;
+
+  if (data.structured) {
+    // Structured output
+    formattedOutput += "### Structured Data\n\n";
+    formattedOutput += "```json\n";
+    formattedOutput += JSON.stringify(result, null, 2);
+    formattedOutput += "\n```\n";
+  } else if (typeof result === 'string') {
+    formattedOutput += result;
+  } else if (typeof result === 'object' && result !== null) {
+    const resultObj = result as { summary?: string; findings?: unknown[]; sources?: Array<{ title?: string; url?: string }> };
+    if (resultObj.summary) {
+      formattedOutput += `### Summary\n\n${resultObj.summary}\n\n`;
+      if (resultObj.findings) {
+        formattedOutput += `### Key Findings\n\n`;
+        resultObj.findings.forEach((finding, idx) => {
+          formattedOutput += `${idx + 1}. ${finding}\n`;
+        });
+      }
+      if (resultObj.sources) {
+        formattedOutput += `\n### Sources\n\n`;
+        resultObj.sources.forEach((source) => {
+          formattedOutput += `- [${source.title}](${source.url})\n`;
+        });
+      }
+    } else {
+      formattedOutput += JSON.stringify(result, null, 2);
+    }
+  } else {
+    formattedOutput += JSON.stringify(result, null, 2);
+  }
+
+  return formattedOutput;
+}
+
+/**
+ * Records a task created in async mode and hands the job record on for formatting
+ */
+const researchJobMiddleware: ToolMiddleware = {
+  name: 'researchJobs',
+  beforeRequest(_args, request, context) {
+    context.state.researchRequest = request;
+  },
+  async afterResponse(data, context) {
+    const request = context.state.researchRequest as ExaResearchRequest;
+    const task = data as ExaResearchTaskResponse;
+    const job = await getResearchJobStore().add({
+      taskId: task.taskId,
+      objective: request.objective,
+      model: request.model,
+      structured: request.outputSchema !== undefined,
+      status: task.status ?? 'pending',
+      tenant: context.tenant,
+      estimatedTime: task.estimatedTime
+    });
+    context.logger.log(`Research task ${job.taskId} started in async mode`);
+    return job;
+  }
+};
+
+const researchToolConfig = {
   name: "deep_research",
-  description: "Conduct complex multi-step research with structured output using Exa's Research API. Use instead of exa_search when the topic requires synthesis across multiple sources. Use instead of answer_question for open-ended research, not single Q&A. Slower than exa_search — runs async with progress tracking.",
+  description: "Conduct complex multi-step research with structured output using Exa's Research API. Use instead of exa_search when the topic requires synthesis across multiple sources. Use instead of answer_question for open-ended research, not single Q&A. Slower than exa_search — runs async with progress tracking; with async: true it returns a task id to check with research_status and research_result.",
   schema: researchSchema,
   enabled: true,
-  handler: async (args: Record<string, unknown>, extra?: ToolHandlerExtra) => {
-    const context = extractToolContext(extra);
-    const requestId = context.requestId || generateRequestId();
-    const logger = createRequestLogger(requestId, "deep_research", context.requestId);
-
-    const progress = new ProgressTracker(10, context.progressToken, context.server);
-    const client = getSharedExaClient();
-    const poller = new ResearchPoller(client, logger);
-
-    try {
-      // Validate arguments
-      const validationResult = researchSchema.safeParse(args);
-      if (!validationResult.success) {
+  endpoint: '/research',
+  createRequest: (args: z.infer<typeof researchSchema>): ExaResearchRequest => ({
+    objective: args.objective,
+    model: args.model,
+    outputSchema: args.outputSchema,
+    timeRange: (args.startDate || args.endDate) ? {
+      startDate: args.startDate,
+      endDate: args.endDate
+    } : undefined,
+    domains: args.domains,
+    excludeDomains: args.excludeDomains
+  }),
+  getStartContext: (args: z.infer<typeof researchSchema>) => `Research: "${args.objective}"`,
+  outputSchema: researchOutputSchema,
+  examples: [
+    { description: "Open-ended research", arguments: { objective: "Compare the main approaches to retrieval-augmented generation published in 2024" } },
+    {
+      description: "Structured output scoped to a time range",
+      arguments: {
+        objective: "List the largest AI funding rounds",
+        model: "exa-research-pro",
+        startDate: "2024-01-01",
+        outputSchema: {
+          type: "object",
+          properties: { rounds: { type: "array", items: { type: "object", properties: { company: { type: "string" }, amountUsd: { type: "number" } } } } }
+        }
+      }
+    },
+    { description: "Long pro research as a background job", arguments: { objective: "Survey open-source vector databases and their licensing", model: "exa-research-pro", async: true } }
+  ]
+};
+
+/**
+ * Waits for the task, polling its status until it completes
+ */
+const blockingResearchTool = createTool({
+  ...researchToolConfig,
+  poll: {
+    statusPath: (task: ExaResearchTaskResponse) => `/research/status/${task.taskId}`,
+    describeTask: (task) => `Task created. Estimated time: ${task.estimatedTime}s`,
+    checkStatus: (status: ExaResearchStatusResponse, task, request): PollState<ResearchData> => {
+      if (status.status === 'completed') {
         return {
-          content: [{
-            type: "text",
-            text: `Invalid arguments: ${validationResult.error.issues.map(i => i.message).join(', ')}`
-          }],
-          isError: true
+          state: 'completed',
+          data: {
+            taskId: task.taskId,
+            objective: request.objective,
+            structured: request.outputSchema !== undefined,
+            result: status.result
+          }
         };
       }
-
-      const validatedArgs = validationResult.data;
-      logger.start(`Research: "${validatedArgs.objective}"`);
-
-      // Step 1: Create research task
-      await progress.update(0, "Creating research task...");
-
-      const request: ExaResearchRequest = {
-        objective: validatedArgs.objective,
-        model: validatedArgs.model,
-        outputSchema: validatedArgs.outputSchema,
-        timeRange: (validatedArgs.startDate || validatedArgs.endDate) ? {
-          startDate: validatedArgs.startDate,
-          endDate: validatedArgs.endDate
-        } : undefined,
-        domains: validatedArgs.domains,
-        excludeDomains: validatedArgs.excludeDomains
-      };
-
-      await getGlobalRateLimiter().queue();
-      const taskResponse = await client.post<ExaResearchTaskResponse>('/research', request);
-      logger.log(`Task created: ${taskResponse.data.taskId}, estimated time: ${taskResponse.data.estimatedTime}s`);
-
-      // Step 2: Poll for completion
-      await progress.update(10, `Task created. Estimated time: ${taskResponse.data.estimatedTime}s`);
-      const result = await poller.pollTask(taskResponse.data.taskId, progress);
-
-      // Step 3: Format result
-      await progress.update(90, "Formatting results...");
-
-      let formattedOutput = `## Research Results\n\n`;
-      formattedOutput += `**Objective:** ${validatedArgs.objective}\n\n`;
-
-      if (validatedArgs.outputSchema) {
-        // Structured output
-        formattedOutput += "### Structured Data\n\n";
-        formattedOutput += "```json\n";
-        formattedOutput += JSON.stringify(result, null, 2);
-        formattedOutput += "\n```\n";
-      } else {
-        // Unstructured output
-        if (typeof result === 'string') {
-          formattedOutput += result;
-        } else if (typeof result === 'object' && result !== null) {
-          const resultObj = result as { summary?: string; findings?: unknown[]; sources?: Array<{ title?: string; url?: string }> };
-          if (resultObj.summary) {
-            formattedOutput += `### Summary\n\n${resultObj.summary}\n\n`;
-            if (resultObj.findings) {
-              formattedOutput += `### Key Findings\n\n`;
-              resultObj.findings.forEach((finding, idx) => {
-                formattedOutput += `${idx + 1}. ${finding}\n`;
-              });
-            }
-            if (resultObj.sources) {
-              formattedOutput += `\n### Sources\n\n`;
-              resultObj.sources.forEach((source) => {
-                formattedOutput += `- [${source.title}](${source.url})\n`;
-              });
-            }
-          } else {
-            formattedOutput += JSON.stringify(result, null, 2);
-          }
-        } else {
-          formattedOutput += JSON.stringify(result, null, 2);
-        }
+      if (status.status === 'failed') {
+        return { state: 'failed', error: status.error || 'Research task failed' };
       }
+      return { state: 'running', progress: status.progress, message: status.currentStep };
+    },
+    intervalMs: 2000,
+    maxAttempts: 60 // 2 minutes max with 2 second intervals
+  },
+  formatResponse: formatResearchResult,
+  formatStructured: (data) => ({
+    taskId: data.taskId,
+    objective: data.objective,
+    status: 'completed',
+    result: data.result
+  })
+});
 
-      logExaUsage("deep_research", "ok");
-      await progress.complete("Research completed successfully");
-      logger.complete();
-
-      return {
-        content: [{
-          type: "text",
-          text: formattedOutput
-        }]
-      };
+/**
+ * Creates the task and returns its id; never cached, since every call starts a new task
+ */
+const asyncResearchTool = createTool({
+  ...researchToolConfig,
+  cache: false,
+  middleware: [researchJobMiddleware],
+  formatResponse: (job: ResearchJob) => [
+    `## Research Task Started`,
+    ``,
+    `**Task ID:** ${job.taskId}`,
+    `**Objective:** ${job.objective}`,
+    ...(job.estimatedTime !== undefined ? [`**Estimated time:** ${job.estimatedTime}s`] : []),
+    ``,
+    `Check progress with research_status and fetch the result with research_result (taskId "${job.taskId}").`
+  ].join('\n'),
+  formatStructured: (job) => ({
+    taskId: job.taskId,
+    objective: job.objective,
+    status: job.status
+  })
+});
 
-    } catch (error) {
-      const err = error as { response?: { status?: number }; message?: string };
-      const statusCode = err?.response?.status;
-      const status = statusCode === 429 ? "rate_limit"
-        : statusCode === 402 ? "quota_error"
-        : "error";
-      logExaUsage("deep_research", status, String(err?.message ?? "").slice(0, 80));
-      logger.error(`Research failed: ${error}`);
-      return handleExaError(error, "deep_research", logger);
-    }
-  }
-};
\ No newline at end of file
+export const researchTool: ToolRegistry = {
+  ...blockingResearchTool,
+  handler: (args, extra) => args.async === true
+    ? asyncResearchTool.handler(args, extra)
+    : blockingResearchTool.handler(args, extra)
+};
@@ -0,0 +1,253 @@
+import { z } from "zod";
+import { AxiosInstance } from "axios";
+import { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { ToolRegistry, ToolHandlerExtra, ToolResult, ToolExample } from "./config.js";
+import { extractToolContext } from "./progress-tracker.js";
+import { logExaUsageError } from "./middleware.js";
+import { ExaResearchStatusResponse, formatResearchResult } from "./research.js";
+import { researchJobListOutputSchema, researchJobOutputSchema, researchOutputSchema } from "./output-schemas.js";
+import { getSharedExaClient, handleExaError } from "../utils/exaClient.js";
+import { getTenantRateLimiter } from "../utils/rateLimiter.js";
+import { createRequestLogger, generateRequestId } from "../utils/pinoLogger.js";
+import { logExaUsage } from "../utils/usageLogger.js";
+import { cancelledResult, isCancellationError } from "../utils/cancellation.js";
+import { FINAL_RESEARCH_STATUSES, getResearchJobStore, ResearchJob } from "../utils/researchJobStore.js";
+
+/**
+ * Per-call services for the job tools
+ */
+interface ResearchJobToolContext {
+  toolName: string;
+  tenant?: string;
+  signal?: AbortSignal;
+  logger: ReturnType<typeof createRequestLogger>;
+  client: () => AxiosInstance;
+}
+
+const taskIdSchema = z.object({
+  taskId: z.string().min(1).describe("Task id returned by deep_research with async: true")
+});
+
+const researchListSchema = z.object({
+  status: z.enum(['pending', 'processing', 'completed', 'failed', 'cancelled']).optional()
+    .describe("Only list tasks with this status"),
+  limit: z.number().int().min(1).max(200).optional().default(20).describe("Maximum number of tasks (newest first)")
+});
+
+function errorResult(text: string): ToolResult {
+  return { content: [{ type: "text", text }], isError: true };
+}
+
+function unknownTaskResult(taskId: string): ToolResult {
+  return errorResult(`Unknown research task "${taskId}". Start one with deep_research and async: true, or see research_list.`);
+}
+
+function toStructured(job: ResearchJob): Record<string, unknown> {
+  return Object.fromEntries(Object.entries({
+    taskId: job.taskId,
+    objective: job.objective,
+    status: job.status,
+    progress: job.progress,
+    currentStep: job.currentStep,
+    error: job.error,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt
+  }).filter(([, value]) => value !== undefined));
+}
+
+function formatJob(job: ResearchJob): string {
+  const progress = job.progress !== undefined ? ` (${job.progress}%${job.currentStep ? `: ${job.currentStep}` : ''})`
+    : job.currentStep ? ` (${job.currentStep})` : '';
+  const lines = [
+    `- **${job.taskId}**: ${job.status}${progress}`,
+    `  Objective: ${job.objective}`,
+    `  Started: ${job.createdAt}`
+  ];
+  if (job.error) {
+    lines.push(`  Error: ${job.error}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Fetch the task's current status from Exa and store it with the job
+ */
+async function refreshJob(
+  job: ResearchJob,
+  context: ResearchJobToolContext
+): Promise<{ job: ResearchJob; status: ExaResearchStatusResponse }> {
+  await getTenantRateLimiter(context.tenant).queue(context.signal);
+  const response = await context.client().get<ExaResearchStatusResponse>(`/research/status/${job.taskId}`, { signal: context.signal });
+  logExaUsage(context.toolName, "ok", "", context.tenant);
+
+  const status = response.data;
+  const updated = await getResearchJobStore().update(job.taskId, {
+    status: status.status,
+    progress: status.progress,
+    currentStep: status.currentStep,
+    error: status.status === 'failed' ? status.error || 'Research task failed' : undefined
+  }, context.tenant);
+  return { job: updated ?? job, status };
+}
+
+/**
+ * Shared handler plumbing: validation, logging, per-session client and error handling
+ */
+function createResearchJobTool<T extends z.ZodObject<z.ZodRawShape>>(config: {
+  name: string;
+  description: string;
+  schema: T;
+  outputSchema: z.ZodObject<z.ZodRawShape>;
+  annotations: ToolAnnotations;
+  examples: ToolExample[];
+  run: (args: z.infer<T>, context: ResearchJobToolContext) => Promise<ToolResult>;
+}): ToolRegistry {
+  return {
+    name: config.name,
+    description: config.description,
+    schema: config.schema,
+    enabled: true,
+    outputSchema: config.outputSchema,
+    annotations: config.annotations,
+    examples: config.examples,
+    handler: async (args: Record<string, unknown>, extra?: ToolHandlerExtra) => {
+      const toolContext = extractToolContext(extra);
+      const requestId = toolContext.requestId || generateRequestId();
+      const logger = createRequestLogger(requestId, config.name, toolContext.requestId);
+      const tenant = toolContext.exaSession?.tenant;
+
+      const validationResult = config.schema.safeParse(args);
+      if (!validationResult.success) {
+        return errorResult(`Invalid arguments for ${config.name}: ${validationResult.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')}`);
+      }
+
+      logger.start(JSON.stringify(validationResult.data));
+      try {
+        const result = await config.run(validationResult.data, {
+          toolName: config.name,
+          tenant,
+          signal: toolContext.signal,
+          logger,
+          client: () => getSharedExaClient(toolContext.exaSession?.apiKey)
+        });
+        logger.complete();
+        return result;
+      } catch (error) {
+        logExaUsageError(config.name, error, tenant);
+        if (isCancellationError(error)) {
+          logger.log(`Request cancelled for ${config.name}`);
+          return cancelledResult(config.name);
+        }
+        return handleExaError(error, config.name, logger);
+      }
+    }
+  };
+}
+
+export const researchStatusTool = createResearchJobTool({
+  name: "research_status",
+  description: "Check the status and progress of a research task started with deep_research and async: true.",
+  schema: taskIdSchema,
+  outputSchema: researchJobOutputSchema,
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  examples: [{ description: "Check a running task", arguments: { taskId: "task_abc123" } }],
+  run: async ({ taskId }, context) => {
+    let job = getResearchJobStore().get(taskId, context.tenant);
+    if (!job) {
+      return unknownTaskResult(taskId);
+    }
+    if (!FINAL_RESEARCH_STATUSES.includes(job.status)) {
+      ({ job } = await refreshJob(job, context));
+    }
+    return {
+      content: [{ type: "text", text: `## Research Task Status\n\n${formatJob(job)}` }],
+      structuredContent: toStructured(job)
+    };
+  }
+});
+
+export const researchResultTool = createResearchJobTool({
+  name: "research_result",
+  description: "Fetch the result of a research task started with deep_research and async: true. Reports the status instead while the task is still running.",
+  schema: taskIdSchema,
+  outputSchema: researchOutputSchema,
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  examples: [{ description: "Fetch a finished task's result", arguments: { taskId: "task_abc123" } }],
+  run: async ({ taskId }, context) => {
+    const stored = getResearchJobStore().get(taskId, context.tenant);
+    if (!stored) {
+      return unknownTaskResult(taskId);
+    }
+    if (stored.status === 'cancelled' || stored.status === 'failed') {
+      return errorResult(`Research task ${taskId} ${stored.status}${stored.error ? `: ${stored.error}` : ''}`);
+    }
+
+    // Results stay with Exa, so even completed tasks are fetched again
+    const { job, status } = await refreshJob(stored, context);
+    if (job.status === 'failed') {
+      return errorResult(`Research task ${taskId} failed: ${job.error}`);
+    }
+    if (job.status !== 'completed') {
+      return {
+        content: [{ type: "text", text: `Research task ${taskId} is still running.\n\n${formatJob(job)}\n\nTry research_result again later.` }],
+        structuredContent: { taskId: job.taskId, objective: job.objective, status: job.status }
+      };
+    }
+    return {
+      content: [{
+        type: "text",
+        text: formatResearchResult({ taskId: job.taskId, objective: job.objective, structured: job.structured, result: status.result })
+      }],
+      structuredContent: { taskId: job.taskId, objective: job.objective, status: job.status, result: status.result }
+    };
+  }
+});
+
+export const researchListTool = createResearchJobTool({
+  name: "research_list",
+  description: "List research tasks started with deep_research and async: true, newest first, with their last known status. Includes tasks from before a server restart.",
+  schema: researchListSchema,
+  outputSchema: researchJobListOutputSchema,
+  annotations: { readOnlyHint: true, openWorldHint: true },
+  examples: [
+    { description: "Recent tasks", arguments: {} },
+    { description: "Tasks with results ready", arguments: { status: "completed" } }
+  ],
+  run: async ({ status, limit }, context) => {
+    const jobs = getResearchJobStore().list({ tenant: context.tenant, status, limit });
+    return {
+      content: [{
+        type: "text",
+        text: jobs.length > 0
+          ? `## Research Tasks\n\n${jobs.map(formatJob).join('\n')}`
+          : `No research tasks${status ? ` with status ${status}` : ''}.`
+      }],
+      structuredContent: { jobs: jobs.map(toStructured) }
+    };
+  }
+});
+
+export const researchCancelTool = createResearchJobTool({
+  name: "research_cancel",
+  description: "Cancel a research task started with deep_research and async: true. The server stops tracking it and research_result no longer returns it; the Exa task itself is not stopped.",
+  schema: taskIdSchema,
+  outputSchema: researchJobOutputSchema,
+  annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+  examples: [{ description: "Cancel a task", arguments: { taskId: "task_abc123" } }],
+  run: async ({ taskId }, context) => {
+    const job = getResearchJobStore().get(taskId, context.tenant);
+    if (!job) {
+      return unknownTaskResult(taskId);
+    }
+    if (job.status === 'completed' || job.status === 'failed') {
+      return errorResult(`Research task ${taskId} already ${job.status}`);
+    }
+
+    const cancelled = await getResearchJobStore().update(taskId, { status: 'cancelled' }, context.tenant) ?? job;
+    context.logger.log(`Cancelled research task ${taskId}`);
+    return {
+      content: [{ type: "text", text: `Cancelled research task ${taskId}.\n\n${formatJob(cancelled)}` }],
+      structuredContent: toStructured(cancelled)
+    };
+  }
+});
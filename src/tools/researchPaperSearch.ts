@@ -37,5 +37,8 @@ export const researchPaperSearchTool = createSearchTool(
     "Retrieving paper metadata...",
     "Extracting paper content...",
     "Formatting research results..."
+  ],
+  [
+    { description: "Find papers on a topic", arguments: { query: "neural network optimization", numResults: 3, maxCharacters: 2000 } }
   ]
-);
\ No newline at end of file
+);
@@ -1,18 +1,50 @@
 import { z } from "zod";
-import { ToolRegistry, ToolHandlerExtra } from "./config.js";
+import { AxiosInstance } from "axios";
+import { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { ToolRegistry, ToolHandlerExtra, ToolResult, ToolExample } from "./config.js";
 import { ExaCrawlRequest, ExaSearchRequest, ExaSearchResponse } from "../types.js";
 import { getSharedExaClient, handleExaError } from "../utils/exaClient.js";
-import { getGlobalRateLimiter } from "../utils/rateLimiter.js";
 import { createRequestLogger, generateRequestId } from "../utils/pinoLogger.js";
 import { ResponseFormatter } from "../utils/formatter.js";
-import { getGlobalCache } from "../utils/cache.js";
 import { ProgressTracker, extractToolContext } from "./progress-tracker.js";
-import { logExaUsage } from "../utils/usageLogger.js";
+import { cancellableDelay, cancelledResult, isCancellationError } from "../utils/cancellation.js";
+import { CacheHitMeta, ToolMiddleware, ToolMiddlewareContext, buildMiddlewareChain, getToolMiddleware, runMiddleware } from "./middleware.js";
+import { searchOutput } from "./output-schemas.js";
+
+/**
+ * Where a polled task stands, as read from one status response
+ */
+export type PollState<TResponse> =
+  | { state: 'completed'; data: TResponse }
+  | { state: 'running'; /** 0-100, when the API reports it */ progress?: number; message?: string }
+  | { state: 'failed'; error: string };
+
+/**
+ * Long-running create-then-poll endpoint: `endpoint` creates a task, then
+ * `statusPath` is polled until the task completes. Only the create call goes
+ * through the rate limiter; the completed result is what gets cached.
+ */
+export interface PollConfig<TRequest, TCreated, TStatus, TResponse> {
+  /** Status URL for the created task */
+  statusPath: (created: TCreated) => string;
+  /** Interpret a status response; `data` of a completed task is what the tool formats */
+  checkStatus: (status: TStatus, created: TCreated, request: TRequest) => PollState<TResponse>;
+  /** Progress message once the task has been created */
+  describeTask?: (created: TCreated) => string;
+  /** Delay before the first re-check (default 2000ms) */
+  intervalMs?: number;
+  /** Multiply the delay by this after every check (default 1, a fixed interval) */
+  backoffFactor?: number;
+  /** Upper bound for the delay with backoff (default 30000ms) */
+  maxIntervalMs?: number;
+  /** Give up after this many status checks (default 60) */
+  maxAttempts?: number;
+}
 
 /**
  * Tool configuration types for different API endpoints
  */
-type ToolConfig<T extends z.ZodObject<z.ZodRawShape>, TRequest, TResponse> = {
+type ToolConfig<T extends z.ZodObject<z.ZodRawShape>, TRequest, TResponse, TCreated = unknown, TStatus = unknown> = {
   name: string;
   description: string;
   schema: T;
@@ -23,6 +55,31 @@ type ToolConfig<T extends z.ZodObject<z.ZodRawShape>, TRequest, TResponse> = {
   getStartContext: (args: z.infer<T>) => string;
   /** Optional progress steps for progress tracking */
   progressSteps?: string[];
+  /** Optional zod schema for structuredContent returned alongside the text */
+  outputSchema?: z.ZodObject<z.ZodRawShape>;
+  /** Maps the API response onto outputSchema */
+  formatStructured?: (data: TResponse) => Record<string, unknown>;
+  /** structuredContent for an empty API response (must satisfy outputSchema) */
+  emptyStructured?: Record<string, unknown>;
+  /** MCP tool annotations, merged over DEFAULT_TOOL_ANNOTATIONS */
+  annotations?: ToolAnnotations;
+  /** Sample invocations for CLI help and generated docs */
+  examples?: ToolExample[];
+  /** Serve from and store in the request cache (default true) */
+  cache?: boolean;
+  /** Middlewares for this tool only, run after globally registered ones (see useToolMiddleware) */
+  middleware?: ToolMiddleware[];
+  /** Treat `endpoint` as a create-then-poll task endpoint */
+  poll?: PollConfig<TRequest, TCreated, TStatus, TResponse>;
+};
+
+/**
+ * Every builder-made tool only queries Exa: it changes nothing locally
+ * and reaches out to the open web.
+ */
+export const DEFAULT_TOOL_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: true,
+  openWorldHint: true
 };
 
 /**
@@ -45,6 +102,11 @@ function hasResults(data: unknown): data is ResponseWithResults {
 /**
  * Unified tool creator that handles all tool types with proper type inference
  * Provides strong typing during tool creation while maintaining compatibility with ToolRegistry
+ *
+ * Each call validates the arguments, builds the request, runs it through the
+ * middleware chain (usage logging, custom middlewares, cancellation, cache,
+ * in-flight coalescing, rate limiting; see middleware.ts) around the API call,
+ * then formats the result.
  * 
  * @template T - Zod schema type
  * @template TRequest - API request type
@@ -55,15 +117,36 @@ function hasResults(data: unknown): data is ResponseWithResults {
 export function createTool<
   T extends z.ZodObject<z.ZodRawShape>,
   TRequest,
-  TResponse
+  TResponse,
+  TCreated = unknown,
+  TStatus = unknown
 >(
-  config: ToolConfig<T, TRequest, TResponse>
+  config: ToolConfig<T, TRequest, TResponse, TCreated, TStatus>
 ): ToolRegistry {
+  /**
+   * Build a successful result with the text rendering and, when the tool
+   * declares an outputSchema, the matching structuredContent
+   */
+  const buildResult = (text: string, data?: TResponse): ToolResult => ({
+    content: [{
+      type: "text" as const,
+      text
+    }],
+    ...(config.outputSchema && {
+      structuredContent: data !== undefined && config.formatStructured
+        ? config.formatStructured(data)
+        : config.emptyStructured ?? {}
+    })
+  });
+
   return {
     name: config.name,
     description: config.description,
     schema: config.schema,
     enabled: config.enabled,
+    outputSchema: config.outputSchema,
+    annotations: { ...DEFAULT_TOOL_ANNOTATIONS, ...config.annotations },
+    examples: config.examples,
     handler: async (args, extra) => {
       // Extract v1.18.0 metadata and context
       const context = extractToolContext(extra as ToolHandlerExtra);
@@ -71,11 +154,13 @@ export function createTool<
       // Use metadata requestId if available, otherwise generate one
       const requestId = context.requestId || generateRequestId();
       const logger = createRequestLogger(requestId, config.name, context.requestId);
+      const tenant = context.exaSession?.tenant;
 
-      // Create progress tracker if steps are defined
-      const progress = config.progressSteps
+      // Create progress tracker if steps are defined; polled tasks report percentages
+      const progressTotal = config.progressSteps?.length ?? (config.poll ? 100 : undefined);
+      const progress = progressTotal !== undefined
         ? new ProgressTracker(
-            config.progressSteps.length,
+            progressTotal,
             context.progressToken,
             context.server
           )
@@ -104,119 +189,197 @@ export function createTool<
         await progress.update(0, "Starting request...");
       }
 
-      try {
-        // Get cache instance using lazy initialization
-        const cache = getGlobalCache();
-        
-        // Check cache first
-        const cachedResponse = cache.get<TResponse>(config.endpoint, config.createRequest(validatedArgs));
-        if (cachedResponse) {
-          logger.log(`Cache hit for ${config.name}`);
-          if (progress) {
-            await progress.complete("Using cached response");
-          }
-          const formattedResponse = config.formatResponse(cachedResponse, config.name);
-          const result = {
-            content: [{
-              type: "text" as const,
-              text: formattedResponse
-            }]
-          };
-          logExaUsage(config.name, "cache_hit");
-          logger.complete();
-          return result;
-        }
-
-        // Update progress for cache miss
-        if (progress && config.progressSteps && config.progressSteps.length > 0) {
-          await progress.increment(config.progressSteps[0] || "Preparing request...");
-        }
-
-        const client = getSharedExaClient();
-        const request = config.createRequest(validatedArgs);
+      /**
+       * The API call itself (plus polling for task endpoints), reporting progress if given a tracker
+       */
+      const fetchData = async (finalRequest: unknown, signal?: AbortSignal, tracker: ProgressTracker | null = null): Promise<unknown> => {
+        const client = getSharedExaClient(context.exaSession?.apiKey);
 
         logger.log(`Sending request to Exa API for ${config.name}`);
 
         // Update progress before API call
-        if (progress && config.progressSteps && config.progressSteps.length > 1) {
-          await progress.increment(config.progressSteps[1] || "Sending API request...");
+        if (tracker && config.progressSteps && config.progressSteps.length > 1) {
+          await tracker.increment(config.progressSteps[1] || "Sending API request...");
         }
 
-        await getGlobalRateLimiter().queue();
-        const response = await client.post<TResponse>(
+        const response = await client.post(
           config.endpoint,
-          request
+          finalRequest,
+          { signal }
         );
 
-        // Cache the response data
-        cache.set(config.endpoint, request, response.data);
-
         logger.log(`Received response from Exa API for ${config.name}`);
 
+        if (config.poll) {
+          return pollTask(config.poll, client, response.data as TCreated, finalRequest as TRequest, {
+            toolName: config.name,
+            logger,
+            progress: tracker,
+            signal
+          });
+        }
+
         // Update progress after API response
-        if (progress && config.progressSteps && config.progressSteps.length > 2) {
-          await progress.increment(config.progressSteps[2] || "Processing response...");
+        if (tracker && config.progressSteps && config.progressSteps.length > 2) {
+          await tracker.increment(config.progressSteps[2] || "Processing response...");
+        }
+        return response.data;
+      };
+
+      const middlewareContext: ToolMiddlewareContext = {
+        toolName: config.name,
+        endpoint: config.endpoint,
+        requestId,
+        tenant,
+        signal: context.signal,
+        logger,
+        state: {},
+        ...(progress && { progress }),
+        ...(!config.poll && { fetch: (request: unknown) => fetchData(request) })
+      };
+      const chain = buildMiddlewareChain(
+        [...getToolMiddleware(config.name), ...(config.middleware ?? [])],
+        { cache: config.cache ?? true }
+      );
+
+      try {
+        const request = config.createRequest(validatedArgs);
+
+        const outcome = await runMiddleware(chain, validatedArgs, request, middlewareContext, async (finalRequest) => {
+          // Update progress for cache miss
+          if (progress && config.progressSteps && config.progressSteps.length > 0) {
+            await progress.increment(config.progressSteps[0] || "Preparing request...");
+          }
+          return fetchData(finalRequest, context.signal, progress);
+        });
+
+        if ('result' in outcome) {
+          logger.complete();
+          return outcome.result;
+        }
+        const data = outcome.data as TResponse;
+
+        if (outcome.source === 'cache') {
+          if (progress) {
+            await progress.complete("Using cached response");
+          }
+          const cacheMeta = outcome.meta?.cache as CacheHitMeta | undefined;
+          const text = config.formatResponse(data, config.name);
+          const result = buildResult(cacheMeta?.stale ? `${text}\n\n${formatStaleNote(cacheMeta)}` : text, data);
+          if (outcome.meta) {
+            result._meta = outcome.meta;
+          }
+          logger.complete();
+          return result;
         }
 
         // Handle empty responses based on response type
-        if (!response.data) {
+        if (!data) {
           logger.log(`Warning: Empty response from Exa API for ${config.name}`);
-          return {
-            content: [{
-              type: "text" as const,
-              text: `No results found for ${config.name}. Please try a different query.`
-            }]
-          };
+          return buildResult(`No results found for ${config.name}. Please try a different query.`);
         }
 
         // Check for results array (search responses) - use proper type guard
-        if (hasResults(response.data)) {
-          if (response.data.results.length === 0) {
+        if (hasResults(data)) {
+          if (data.results.length === 0) {
             logger.log(`Warning: No results found for ${config.name}`);
-            return {
-              content: [{
-                type: "text" as const,
-                text: `No results found for ${config.name}. Please try a different query.`
-              }]
-            };
+            return buildResult(`No results found for ${config.name}. Please try a different query.`, data);
           }
-          logger.log(`Found ${response.data.results.length} results for ${config.name}`);
+          logger.log(`Found ${data.results.length} results for ${config.name}`);
         }
 
         // Update progress for formatting
         if (progress && config.progressSteps && config.progressSteps.length > 3) {
           await progress.increment(config.progressSteps[3] || "Formatting results...");
+        } else if (progress && config.poll) {
+          await progress.update(90, "Formatting results...");
         }
 
-        const formattedResponse = config.formatResponse(response.data, config.name);
-        const result = {
-          content: [{
-            type: "text" as const,
-            text: formattedResponse
-          }]
-        };
+        const formattedResponse = config.formatResponse(data, config.name);
+        const result = buildResult(formattedResponse, data);
 
         // Mark progress as complete
         if (progress) {
           await progress.complete("Request completed successfully");
         }
 
-        logExaUsage(config.name, "ok");
         logger.complete();
         return result;
       } catch (error) {
-        const err = error as { response?: { status?: number }; message?: string };
-        const statusCode = err?.response?.status;
-        const status = statusCode === 429 ? "rate_limit"
-          : statusCode === 402 ? "quota_error"
-          : "error";
-        logExaUsage(config.name, status, String(err?.message ?? "").slice(0, 80));
+        if (isCancellationError(error)) {
+          logger.log(`Request cancelled for ${config.name}`);
+          return cancelledResult(config.name);
+        }
         return handleExaError(error, config.name, logger);
       }
     },
   };
 }
 
+/**
+ * Poll a created task until it completes, fails, runs out of attempts or is cancelled.
+ * Progress maps onto 10-90%: 10% once created, then the API's percentage (or the
+ * share of attempts used) while running.
+ * @throws Error when the task fails or doesn't finish in time
+ */
+async function pollTask<TRequest, TCreated, TStatus, TResponse>(
+  poll: PollConfig<TRequest, TCreated, TStatus, TResponse>,
+  client: AxiosInstance,
+  created: TCreated,
+  request: TRequest,
+  options: {
+    toolName: string;
+    logger: ReturnType<typeof createRequestLogger>;
+    progress: ProgressTracker | null;
+    signal?: AbortSignal;
+  }
+): Promise<TResponse> {
+  const { toolName, logger, progress, signal } = options;
+  const maxAttempts = poll.maxAttempts ?? 60;
+  const backoffFactor = poll.backoffFactor ?? 1;
+  const maxIntervalMs = poll.maxIntervalMs ?? 30000;
+  let intervalMs = poll.intervalMs ?? 2000;
+
+  const statusPath = poll.statusPath(created);
+  logger.log(`Task created for ${toolName}, polling ${statusPath}`);
+  if (progress) {
+    await progress.update(10, poll.describeTask?.(created) ?? "Task created");
+  }
+
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    logger.log(`Polling attempt ${attempt + 1}/${maxAttempts} for ${statusPath}`);
+    const response = await client.get<TStatus>(statusPath, { signal });
+    const state = poll.checkStatus(response.data, created, request);
+
+    if (state.state === 'completed') {
+      logger.log(`Task ${statusPath} completed`);
+      return state.data;
+    }
+    if (state.state === 'failed') {
+      throw new Error(state.error);
+    }
+
+    if (progress && state.message) {
+      const fraction = state.progress !== undefined ? state.progress / 100 : attempt / maxAttempts;
+      await progress.update(10 + Math.round(Math.min(Math.max(fraction, 0), 1) * 80), state.message);
+    }
+
+    await cancellableDelay(intervalMs, signal);
+    intervalMs = Math.min(intervalMs * backoffFactor, maxIntervalMs);
+  }
+
+  throw new Error(`${toolName} task did not finish after ${maxAttempts} status checks`);
+}
+
+/**
+ * Note appended to a result served stale from the cache
+ */
+function formatStaleNote(meta: CacheHitMeta): string {
+  const minutes = Math.round(meta.ageSeconds / 60);
+  const age = minutes >= 1 ? `${minutes} minute${minutes === 1 ? '' : 's'}` : `${meta.ageSeconds} seconds`;
+  return `_Cached result from ${age} ago (stale, refreshing in the background)._`;
+}
+
 /**
  * Helper function to extract query from validated args safely
  */
@@ -242,7 +405,8 @@ export function createSearchTool<T extends z.ZodObject<z.ZodRawShape>>(
   enabled: boolean,
   createRequest: (args: z.infer<T>) => ExaSearchRequest,
   formatResponse?: (data: ExaSearchResponse, toolName: string) => string,
-  progressSteps?: string[]
+  progressSteps?: string[],
+  examples?: ToolExample[]
 ): ToolRegistry {
   return createTool({
     name,
@@ -253,7 +417,9 @@ export function createSearchTool<T extends z.ZodObject<z.ZodRawShape>>(
     createRequest,
     formatResponse: formatResponse || ((data: ExaSearchResponse, toolName: string) => ResponseFormatter.formatSearchResponse(data, toolName)),
     getStartContext: (args) => getQueryFromArgs(args),
-    progressSteps
+    progressSteps,
+    examples,
+    ...searchOutput
   });
 }
 
@@ -267,7 +433,8 @@ export function createCrawlTool<T extends z.ZodObject<z.ZodRawShape>>(
   schema: T,
   enabled: boolean,
   createRequest: (args: z.infer<T>) => ExaCrawlRequest,
-  progressSteps?: string[]
+  progressSteps?: string[],
+  examples?: ToolExample[]
 ): ToolRegistry {
   return createTool({
     name,
@@ -278,7 +445,9 @@ export function createCrawlTool<T extends z.ZodObject<z.ZodRawShape>>(
     createRequest,
     formatResponse: (data: ExaSearchResponse) => ResponseFormatter.formatCrawlResponse(data.results),
     getStartContext: (args) => getUrlFromArgs(args),
-    progressSteps
+    progressSteps,
+    examples,
+    ...searchOutput
   });
 }
 
@@ -292,7 +461,8 @@ export function createCompetitorFinderTool<T extends z.ZodObject<z.ZodRawShape>>
   schema: T,
   enabled: boolean,
   createRequest: (args: z.infer<T>) => ExaSearchRequest,
-  progressSteps?: string[]
+  progressSteps?: string[],
+  examples?: ToolExample[]
 ): ToolRegistry {
   return createTool({
     name,
@@ -303,6 +473,8 @@ export function createCompetitorFinderTool<T extends z.ZodObject<z.ZodRawShape>>
     createRequest,
     formatResponse: (data: ExaSearchResponse) => ResponseFormatter.formatCompetitorResponse(data.results),
     getStartContext: (args) => getQueryFromArgs(args),
-    progressSteps
+    progressSteps,
+    examples,
+    ...searchOutput
   });
 }
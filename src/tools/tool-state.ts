@@ -0,0 +1,176 @@
+import { structuredLogger } from "../utils/pinoLogger.js";
+
+/**
+ * Current state of a managed tool
+ */
+export interface ToolState {
+  toolId: string;
+  enabled: boolean;
+  /** When a time-boxed enable lapses (epoch ms) */
+  expiresAt?: number;
+}
+
+/**
+ * Emitted whenever a tool is enabled or disabled at runtime
+ */
+export interface ToolStateChange extends ToolState {
+  /** `expired` when a time-boxed enable lapsed on its own */
+  reason: 'manual' | 'expired';
+}
+
+/**
+ * Options for enabling a tool
+ */
+export interface EnableToolOptions {
+  /** Disable the tool again after this many minutes */
+  durationMinutes?: number;
+}
+
+/**
+ * Tracks which registry tools are enabled while the server runs.
+ * Servers subscribe via onChange() and toggle their registered tools,
+ * which makes the SDK emit `notifications/tools/list_changed`.
+ */
+export class ToolStateManager {
+  private readonly enabled = new Set<string>();
+  private readonly expiries = new Map<string, { timer: NodeJS.Timeout; expiresAt: number }>();
+  private readonly listeners = new Set<(change: ToolStateChange) => void>();
+  private readonly logger = structuredLogger.child({ component: 'ToolStateManager' });
+
+  /**
+   * @param knownToolIds Every tool that can be toggled
+   * @param initialToolIds Tools enabled at startup
+   */
+  constructor(
+    private readonly knownToolIds: readonly string[],
+    initialToolIds: Iterable<string>
+  ) {
+    for (const toolId of initialToolIds) {
+      if (this.knownToolIds.includes(toolId)) {
+        this.enabled.add(toolId);
+      }
+    }
+  }
+
+  isEnabled(toolId: string): boolean {
+    return this.enabled.has(toolId);
+  }
+
+  /**
+   * Enabled tool ids, in registry order
+   */
+  getEnabledToolIds(): string[] {
+    return this.knownToolIds.filter(toolId => this.enabled.has(toolId));
+  }
+
+  /**
+   * State of every known tool
+   */
+  getStatus(): ToolState[] {
+    return this.knownToolIds.map(toolId => {
+      const expiry = this.expiries.get(toolId);
+      return expiry
+        ? { toolId, enabled: this.enabled.has(toolId), expiresAt: expiry.expiresAt }
+        : { toolId, enabled: this.enabled.has(toolId) };
+    });
+  }
+
+  /**
+   * Enable a tool, optionally only for a limited time.
+   * Re-enabling replaces any previous expiry.
+   * @throws Error if the tool is unknown or the duration is not positive
+   */
+  enable(toolId: string, options: EnableToolOptions = {}): ToolState {
+    this.assertKnown(toolId);
+    this.clearExpiry(toolId);
+
+    let expiresAt: number | undefined;
+    if (options.durationMinutes !== undefined) {
+      if (!(options.durationMinutes > 0)) {
+        throw new Error(`durationMinutes must be positive, got ${options.durationMinutes}`);
+      }
+      expiresAt = Date.now() + options.durationMinutes * 60 * 1000;
+      const timer = setTimeout(() => {
+        this.expiries.delete(toolId);
+        this.setEnabled(toolId, false, 'expired');
+      }, options.durationMinutes * 60 * 1000);
+      // Don't keep the process alive just to disable a tool
+      timer.unref();
+      this.expiries.set(toolId, { timer, expiresAt });
+    }
+
+    this.setEnabled(toolId, true, 'manual', expiresAt);
+    return expiresAt ? { toolId, enabled: true, expiresAt } : { toolId, enabled: true };
+  }
+
+  /**
+   * Disable a tool and cancel any pending expiry
+   * @throws Error if the tool is unknown
+   */
+  disable(toolId: string): ToolState {
+    this.assertKnown(toolId);
+    this.clearExpiry(toolId);
+    this.setEnabled(toolId, false, 'manual');
+    return { toolId, enabled: false };
+  }
+
+  /**
+   * Subscribe to state changes
+   * @returns Function that removes the listener
+   */
+  onChange(listener: (change: ToolStateChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Cancel pending expiries and drop listeners
+   */
+  dispose(): void {
+    for (const toolId of Array.from(this.expiries.keys())) {
+      this.clearExpiry(toolId);
+    }
+    this.listeners.clear();
+  }
+
+  private assertKnown(toolId: string): void {
+    if (!this.knownToolIds.includes(toolId)) {
+      throw new Error(`Unknown tool: ${toolId}. Available tools: ${this.knownToolIds.join(', ')}`);
+    }
+  }
+
+  private clearExpiry(toolId: string): void {
+    const expiry = this.expiries.get(toolId);
+    if (expiry) {
+      clearTimeout(expiry.timer);
+      this.expiries.delete(toolId);
+    }
+  }
+
+  private setEnabled(toolId: string, enabled: boolean, reason: ToolStateChange['reason'], expiresAt?: number): void {
+    const wasEnabled = this.enabled.has(toolId);
+    if (enabled) {
+      this.enabled.add(toolId);
+    } else {
+      this.enabled.delete(toolId);
+    }
+
+    this.logger.info({ toolId, enabled, reason, expiresAt }, enabled ? 'Tool enabled' : 'Tool disabled');
+
+    // A changed expiry alone doesn't alter the tool list
+    if (wasEnabled === enabled) {
+      return;
+    }
+
+    const change: ToolStateChange = expiresAt ? { toolId, enabled, expiresAt, reason } : { toolId, enabled, reason };
+    for (const listener of this.listeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        this.logger.warn({ toolId, error: error instanceof Error ? error.message : String(error) }, 'Tool state listener failed');
+      }
+    }
+  }
+}
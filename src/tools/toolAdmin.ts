@@ -0,0 +1,128 @@
+import { z } from "zod";
+import { ToolRegistry, ToolHandlerExtra } from "./config.js";
+import { ToolState, ToolStateManager } from "./tool-state.js";
+import { extractToolContext } from "./progress-tracker.js";
+import { createRequestLogger, generateRequestId } from "../utils/pinoLogger.js";
+
+export const TOOL_ADMIN_NAME = "manage_tools";
+
+const toolAdminSchema = z.object({
+  action: z.enum(['list', 'enable', 'disable']).describe("list shows every tool's state; enable/disable toggle one tool"),
+  toolId: z.string().optional().describe("Tool to enable or disable (required unless action is list)"),
+  durationMinutes: z.number().positive().max(24 * 60).optional()
+    .describe("Only with enable: disable the tool again after this many minutes (e.g. time-box deep_research)")
+});
+
+const toolAdminOutputSchema = z.object({
+  tools: z.array(z.object({
+    toolId: z.string(),
+    enabled: z.boolean(),
+    expiresAt: z.string().optional().describe("When a time-boxed enable lapses (ISO 8601)")
+  }))
+});
+
+function formatState(state: ToolState): string {
+  const status = state.enabled ? 'enabled' : 'disabled';
+  return state.expiresAt
+    ? `- ${state.toolId}: ${status} until ${new Date(state.expiresAt).toISOString()}`
+    : `- ${state.toolId}: ${status}`;
+}
+
+function toStructured(states: ToolState[]): Record<string, unknown> {
+  return {
+    tools: states.map(state => state.expiresAt
+      ? { toolId: state.toolId, enabled: state.enabled, expiresAt: new Date(state.expiresAt).toISOString() }
+      : { toolId: state.toolId, enabled: state.enabled })
+  };
+}
+
+/**
+ * Create the admin tool that enables and disables tools at runtime.
+ * Only registered when `EXA_TOOL_ADMIN=true`; it is not part of toolRegistry
+ * so it can't be selected with --tools or disabled through itself.
+ * The state is shared by every session, so sessions that bring their own API key
+ * don't get the tool and are refused if they call it anyway.
+ */
+export function createToolAdminTool(manager: ToolStateManager): ToolRegistry {
+  return {
+    name: TOOL_ADMIN_NAME,
+    description: "Administer this server: list tools, or enable/disable a tool at runtime (optionally for a limited time). Changes apply to every connected session; clients are notified when the tool list changes.",
+    schema: toolAdminSchema,
+    enabled: true,
+    outputSchema: toolAdminOutputSchema,
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+      openWorldHint: false
+    },
+    examples: [
+      { description: "Show which tools are enabled", arguments: { action: "list" } },
+      { description: "Enable deep_research for 30 minutes", arguments: { action: "enable", toolId: "deep_research", durationMinutes: 30 } }
+    ],
+    handler: async (args: Record<string, unknown>, extra?: ToolHandlerExtra) => {
+      const context = extractToolContext(extra);
+      const requestId = context.requestId || generateRequestId();
+      const logger = createRequestLogger(requestId, TOOL_ADMIN_NAME, context.requestId);
+
+      if (extra?.exaSession) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: `${TOOL_ADMIN_NAME} changes tools for every session and is only available with the server's own API key`
+          }],
+          isError: true
+        };
+      }
+
+      const validationResult = toolAdminSchema.safeParse(args);
+      if (!validationResult.success) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Invalid arguments: ${validationResult.error.issues.map(i => i.message).join(', ')}`
+          }],
+          isError: true
+        };
+      }
+
+      const { action, toolId, durationMinutes } = validationResult.data;
+
+      try {
+        if (action !== 'list') {
+          if (!toolId) {
+            throw new Error(`toolId is required for ${action}`);
+          }
+          if (action === 'enable') {
+            manager.enable(toolId, { durationMinutes });
+          } else {
+            if (durationMinutes !== undefined) {
+              throw new Error('durationMinutes is only supported with enable');
+            }
+            manager.disable(toolId);
+          }
+          logger.log(`${action} ${toolId}${durationMinutes ? ` for ${durationMinutes} minutes` : ''}`);
+        }
+
+        const states = manager.getStatus();
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Tools:\n${states.map(formatState).join('\n')}`
+          }],
+          structuredContent: toStructured(states)
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error(message);
+        return {
+          content: [{
+            type: "text" as const,
+            text: `Error: ${message}`
+          }],
+          isError: true
+        };
+      }
+    }
+  };
+}
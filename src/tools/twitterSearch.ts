@@ -33,5 +33,9 @@ export const twitterSearchTool = createSearchTool(
     };
     return request;
   },
-  (_data, _toolName) => ResponseFormatter.formatTwitterResponse(_data.results)
-);
\ No newline at end of file
+  (_data, _toolName) => ResponseFormatter.formatTwitterResponse(_data.results),
+  undefined,
+  [
+    { description: "Recent posts from an account", arguments: { query: "x.com/elonmusk", numResults: 10, startPublishedDate: "2024-01-01T00:00:00.000Z" } }
+  ]
+);
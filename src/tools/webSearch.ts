@@ -68,5 +68,11 @@ export const webSearchTool = createSearchTool(
         ...(includeExtras && { extras: { links: true, imageUrls: true } })
       }
     };
-  }
+  },
+  undefined,
+  undefined,
+  [
+    { description: "Basic search", arguments: { query: "latest developments in MCP servers", numResults: 5 } },
+    { description: "Recent news from specific domains", arguments: { query: "AI regulation", category: "news", includeDomains: ["reuters.com", "apnews.com"], maxAgeHours: 24 } }
+  ]
 );
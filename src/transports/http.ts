@@ -0,0 +1,372 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { structuredLogger } from '../utils/pinoLogger.js';
+
+/**
+ * HTTP transport configuration
+ */
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+  /** URL path the MCP endpoint is served on */
+  path?: string;
+  /**
+   * `Host` header values to accept (e.g. `mcp.example.com` or `localhost:3000`).
+   * Defaults to the bound address, plus `localhost` and `127.0.0.1` on loopback;
+   * not checked when bound to every interface and none are given.
+   */
+  allowedHosts?: string[];
+  /** Browser origins to accept; defaults to `http://` plus each allowed host */
+  allowedOrigins?: string[];
+  /** Close sessions with no request for this long (default 30 minutes; 0 disables) */
+  sessionIdleTimeoutMs?: number;
+  /** Refuse new sessions beyond this many (default 1000) */
+  maxSessions?: number;
+}
+
+/**
+ * Per-session context handed to the McpServer factory
+ */
+export interface HttpSessionContext {
+  /** Exa API key supplied by the client, if any */
+  apiKey?: string;
+}
+
+/**
+ * State held for each connected MCP session
+ */
+export interface HttpSession {
+  id: string;
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  createdAt: number;
+  /** When the last request on this session started or finished */
+  lastSeenAt: number;
+  /** Requests still open on this session, e.g. a GET event stream */
+  openRequests: number;
+}
+
+/**
+ * Handle returned by startHttpServer for inspection and shutdown
+ */
+export interface HttpServerHandle {
+  httpServer: Server;
+  sessions: Map<string, HttpSession>;
+  /** Address the server is actually bound to (resolves port 0) */
+  address: { host: string; port: number };
+  close(): Promise<void>;
+}
+
+const SESSION_HEADER = 'mcp-session-id';
+const API_KEY_HEADER = 'x-exa-api-key';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const DEFAULT_MAX_SESSIONS = 1000;
+
+const logger = structuredLogger.child({ component: 'HttpTransport' });
+
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', 'localhost', '::1']);
+const WILDCARD_HOSTS = new Set(['0.0.0.0', '::', '']);
+
+/**
+ * Default `Host` header values for a bound address, or undefined when bound to every interface
+ */
+function defaultAllowedHosts(host: string, port: number): string[] | undefined {
+  if (WILDCARD_HOSTS.has(host)) {
+    return undefined;
+  }
+  const names = LOOPBACK_HOSTS.has(host) ? [...LOOPBACK_HOSTS] : [host];
+  return names.map(name => `${name.includes(':') ? `[${name}]` : name}:${port}`);
+}
+
+/**
+ * Read the `Origin` header, if the request has one
+ */
+function getOrigin(req: IncomingMessage): string | undefined {
+  const origin = req.headers.origin;
+  return Array.isArray(origin) ? origin[0] : origin;
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let total = 0;
+
+  for await (const chunk of req) {
+    const buffer = chunk as Buffer;
+    total += buffer.length;
+    if (total > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf8');
+  return raw.length > 0 ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Write a JSON-RPC error response outside of any session
+ */
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  if (res.headersSent) {
+    return;
+  }
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null
+  }));
+}
+
+/**
+ * Check whether a parsed body is (or contains) an initialize request
+ */
+function containsInitializeRequest(body: unknown): boolean {
+  if (Array.isArray(body)) {
+    return body.some(message => isInitializeRequest(message));
+  }
+  return isInitializeRequest(body);
+}
+
+/**
+ * Resolve a per-session Exa API key from the initialize request.
+ * The `x-exa-api-key` header wins; otherwise `params._meta.exaApiKey` on the initialize message is used.
+ */
+function extractSessionApiKey(req: IncomingMessage, body: unknown): string | undefined {
+  const header = req.headers[API_KEY_HEADER];
+  const headerValue = Array.isArray(header) ? header[0] : header;
+  if (headerValue && headerValue.trim().length > 0) {
+    return headerValue.trim();
+  }
+
+  const messages = Array.isArray(body) ? body : [body];
+  for (const message of messages) {
+    if (isInitializeRequest(message)) {
+      const metaKey = (message.params._meta as Record<string, unknown> | undefined)?.exaApiKey;
+      if (typeof metaKey === 'string' && metaKey.trim().length > 0) {
+        return metaKey.trim();
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Serve MCP over the Streamable HTTP transport.
+ *
+ * Each session gets its own McpServer (built by `createMcpServer`) and transport,
+ * keyed by the `mcp-session-id` header. Sessions are torn down when the client sends
+ * DELETE, the transport closes, or no request has been open on them for
+ * `sessionIdleTimeoutMs`; new sessions are refused once `maxSessions` are open.
+ * A client may supply its own Exa API key on the
+ * initialize request; it is passed to the factory for that session only.
+ *
+ * To prevent DNS rebinding, requests whose `Host` header isn't an allowed host are
+ * rejected by the SDK transport, and requests from a browser `Origin` that isn't
+ * allowed are rejected before a session is looked up or created. Requests without
+ * an `Origin` (non-browser clients) are accepted.
+ *
+ * @param createMcpServer Factory returning a fully configured, unconnected McpServer
+ * @param options Port, host and endpoint path
+ */
+export async function startHttpServer(
+  createMcpServer: (context: HttpSessionContext) => McpServer,
+  options: HttpTransportOptions
+): Promise<HttpServerHandle> {
+  const endpointPath = options.path ?? '/mcp';
+  const sessionIdleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  const maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+  const sessions = new Map<string, HttpSession>();
+  // Filled in once the port is bound
+  const allowed: { hosts?: string[]; origins: Set<string> } = { origins: new Set() };
+
+  const closeSession = async (sessionId: string): Promise<void> => {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    sessions.delete(sessionId);
+    try {
+      await session.server.close();
+    } catch (error) {
+      logger.warn({ sessionId, error: error instanceof Error ? error.message : String(error) }, 'Error closing session');
+    }
+    logger.info({ sessionId, activeSessions: sessions.size }, 'Session closed');
+  };
+
+  const closeIdleSessions = (): void => {
+    const cutoff = Date.now() - sessionIdleTimeoutMs;
+    sessions.forEach((session) => {
+      if (session.openRequests === 0 && session.lastSeenAt <= cutoff) {
+        logger.info({ sessionId: session.id }, 'Closing idle session');
+        void closeSession(session.id);
+      }
+    });
+  };
+
+  /**
+   * Mark a session as in use until the response finishes
+   */
+  const trackRequest = (session: HttpSession, res: ServerResponse): void => {
+    session.openRequests++;
+    session.lastSeenAt = Date.now();
+    res.once('close', () => {
+      session.openRequests--;
+      session.lastSeenAt = Date.now();
+    });
+  };
+
+  const handleInitialize = async (req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> => {
+    if (sessions.size >= maxSessions) {
+      logger.warn({ activeSessions: sessions.size }, 'Refused session: too many open sessions');
+      sendJsonRpcError(res, 503, -32000, 'Too many open sessions; try again later');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableDnsRebindingProtection: allowed.hosts !== undefined,
+      allowedHosts: allowed.hosts,
+      onsessioninitialized: (sessionId) => {
+        const now = Date.now();
+        sessions.set(sessionId, { id: sessionId, transport, server, createdAt: now, lastSeenAt: now, openRequests: 0 });
+        logger.info({ sessionId, activeSessions: sessions.size, sessionApiKey: apiKey !== undefined }, 'Session initialized');
+      }
+    });
+
+    const apiKey = extractSessionApiKey(req, body);
+    const server = createMcpServer({ apiKey });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        void closeSession(transport.sessionId);
+      }
+    };
+    transport.onerror = (error) => {
+      logger.error({ sessionId: transport.sessionId, error: error.message }, 'Transport error');
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== endpointPath) {
+      res.writeHead(404, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Not found' }));
+      return;
+    }
+
+    const origin = getOrigin(req);
+    if (origin !== undefined && !allowed.origins.has(origin)) {
+      logger.warn({ origin }, 'Rejected request from a foreign origin');
+      sendJsonRpcError(res, 403, -32000, `Invalid Origin header: ${origin}`);
+      return;
+    }
+
+    const sessionHeader = req.headers[SESSION_HEADER];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+
+    if (req.method === 'POST') {
+      let body: unknown;
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendJsonRpcError(res, 400, -32700, `Parse error: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+      }
+
+      if (sessionId) {
+        const session = sessions.get(sessionId);
+        if (!session) {
+          sendJsonRpcError(res, 404, -32001, 'Session not found');
+          return;
+        }
+        trackRequest(session, res);
+        await session.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (containsInitializeRequest(body)) {
+        await handleInitialize(req, res, body);
+        return;
+      }
+
+      sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      const session = sessionId ? sessions.get(sessionId) : undefined;
+      if (!session) {
+        sendJsonRpcError(res, sessionId ? 404 : 400, -32000, sessionId ? 'Session not found' : 'Bad Request: No valid session ID provided');
+        return;
+      }
+      trackRequest(session, res);
+      await session.transport.handleRequest(req, res);
+      if (req.method === 'DELETE') {
+        await closeSession(session.id);
+      }
+      return;
+    }
+
+    res.writeHead(405, { allow: 'GET, POST, DELETE' });
+    res.end();
+  };
+
+  const httpServer = createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      logger.error({ error: error instanceof Error ? error.message : String(error) }, 'Unhandled HTTP transport error');
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const boundAddress = httpServer.address();
+  const address = {
+    host: options.host,
+    port: typeof boundAddress === 'object' && boundAddress ? boundAddress.port : options.port
+  };
+  allowed.hosts = options.allowedHosts ?? defaultAllowedHosts(address.host, address.port);
+  allowed.origins = new Set(options.allowedOrigins
+    ?? (allowed.hosts ?? defaultAllowedHosts('127.0.0.1', address.port) ?? []).map(host => `http://${host}`));
+
+  // Clients that go away without DELETE would otherwise keep their session forever
+  const idleTimer = sessionIdleTimeoutMs > 0
+    ? setInterval(closeIdleSessions, Math.min(sessionIdleTimeoutMs, 60000))
+    : undefined;
+  idleTimer?.unref();
+
+  logger.info({ ...address, path: endpointPath, allowedHosts: allowed.hosts, allowedOrigins: [...allowed.origins] }, 'HTTP transport listening');
+
+  return {
+    httpServer,
+    sessions,
+    address,
+    close: async () => {
+      clearInterval(idleTimer);
+      await Promise.all(Array.from(sessions.keys()).map(id => closeSession(id)));
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+      logger.info('HTTP transport stopped');
+    }
+  };
+}
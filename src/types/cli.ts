@@ -2,6 +2,31 @@
 export interface CLIArguments {
   tools: string;
   'list-tools': boolean;
+  transport: 'stdio' | 'http';
+  port: number;
+  host: string;
+  /** Path to an exa-mcp.config.json/.yaml file */
+  config?: string;
+  /** Comma-separated plugin module paths or package names */
+  plugins?: string;
+  /** Output format for --list-tools and describe-tool */
+  format: 'text' | 'json';
+  /** `call` / `describe-tool` subcommands: tool to invoke or describe */
+  tool?: string;
+  /** `call` subcommand: arguments as a JSON object */
+  args?: string;
+  /** `call` subcommand: repeated key=value arguments */
+  arg?: string[];
+  /** `call` subcommand: print the full result as JSON; `cache stats`: print JSON */
+  json?: boolean;
+  /** `cache` subcommand: stats, invalidate, clear, export or import */
+  action?: 'stats' | 'invalidate' | 'clear' | 'export' | 'import';
+  /** `cache export`/`cache import`: file to write or read */
+  file?: string;
+  /** `cache invalidate` criteria (`--tool` sets `tool`) */
+  endpoint?: string;
+  url?: string;
+  query?: string;
   _: (string | number)[];
   $0: string;
 }
@@ -1,24 +1,118 @@
 import { LRUCache } from 'lru-cache';
-import { createHash } from 'crypto';
+import { brotliCompressSync, brotliDecompressSync, constants as zlibConstants, gunzipSync, gzipSync } from 'zlib';
 import { getConfig } from '../config/index.js';
 import { structuredLogger } from './pinoLogger.js';
+import { CacheEntryInfo, PersistedCacheEntry, PersistentCacheStore } from './persistentCache.js';
+import { canonicalizeRequest, hashRequestKey, requestKey, semanticRequest } from './cacheKey.js';
+
+/**
+ * Algorithm for compressing large in-memory entries
+ */
+export type CacheCompression = 'brotli' | 'gzip' | 'none';
 
 /**
  * Cache configuration interface
  */
 interface CacheConfig {
   maxSize: number;
+  /** Upper bound on the approximate size of cached responses */
+  maxMemoryMb: number;
   ttlMinutes: number;
   enabled: boolean;
+  compression: CacheCompression;
+  /** Responses whose serialized size exceeds this many bytes are compressed */
+  compressionThreshold: number;
+  /** Also answer requests whose queries differ only in wording noise (see semanticQuery) */
+  semantic: boolean;
+}
+
+/**
+ * Second cache tier behind the in-memory LRU
+ */
+export interface PersistentCacheOptions {
+  store: PersistentCacheStore;
+  /** How long entries are served from the store */
+  ttlMinutes: number;
+}
+
+/**
+ * RequestCache settings; unset values come from the app config
+ */
+export interface RequestCacheOptions extends Partial<CacheConfig> {
+  /** Persistent (L2) tier; without it the cache is memory-only */
+  persistent?: PersistentCacheOptions;
+}
+
+/**
+ * Per-entry options for CacheStore.set
+ */
+export interface CacheSetOptions {
+  /** Lifetime of this entry instead of the configured TTL (also caps the persistent tier's) */
+  ttlMs?: number;
+  /** How long after expiring the in-memory entry may still be served stale via lookup() (default 0) */
+  staleMs?: number;
+  /** Tool whose call produced the response, for invalidate({ tool }) */
+  tool?: string;
+}
+
+/**
+ * Which entries CacheStore.invalidate removes: those matching every given criterion
+ */
+export interface CacheInvalidation {
+  tool?: string;
+  endpoint?: string;
+  /** Requested URL (url, urls or ids), or URL of a result or citation in the response */
+  url?: string;
+  /** Case-insensitive substring of the request's query */
+  query?: string;
+}
+
+/**
+ * One response in a cache export
+ */
+export interface CacheExportEntry extends CacheEntryInfo {
+  data: unknown;
+  /** When the response was cached (epoch ms) */
+  timestamp: number;
+  /** When it stops being served (epoch ms) */
+  expiresAt: number;
+}
+
+/**
+ * Fresh cache contents, written by CacheStore.export and read by CacheStore.import
+ */
+export interface CacheExport {
+  version: 1;
+  exportedAt: string;
+  entries: CacheExportEntry[];
+}
+
+/**
+ * Cached response found by CacheStore.lookup
+ */
+export interface CacheLookup<T> {
+  data: T;
+  /** Past its TTL but within its stale window; the caller should refresh it */
+  stale: boolean;
+  /** Time since the response was cached */
+  ageMs: number;
 }
 
 /**
  * Cached response data structure
  */
 interface CachedResponse<T = unknown> {
-  data: T;
+  info: CacheEntryInfo;
+  /** The response, unless it is kept compressed */
+  data?: T;
+  /** Compressed JSON of the response */
+  compressed?: Buffer;
   timestamp: number;
+  /** When the entry expires; until the LRU drops it, it can be served stale */
+  freshUntil: number;
   hitCount: number;
+  /** Approximate size in bytes: the serialized length, or the compressed length */
+  size: number;
 }
 
 /**
@@ -29,114 +123,605 @@ export interface CacheStats {
   misses: number;
   size: number;
   hitRate: number;
+  /** Entries dropped to stay within maxSize or maxMemoryMb */
+  evictions: number;
+  /** Approximate size of the in-memory entries (compressed entries count with their compressed size) */
+  bytes: number;
+  /** Entries stored compressed */
+  compressions: number;
+  /** Serialized size over compressed size of those entries (1 when nothing was compressed) */
+  compressionRatio: number;
+  /** CPU time spent compressing */
+  compressionMs: number;
+  /** CPU time spent decompressing on reads */
+  decompressionMs: number;
+  /** Expired entries served by lookup() within their stale window (included in hits) */
+  staleHits: number;
+  /** Hits found through the semantic cache rather than the exact key (included in hits) */
+  semanticHits: number;
+  /** Hits answered by the persistent tier (included in hits); only with a persistent tier */
+  persistentHits?: number;
+  /** Breakdown by endpoint of the lookups and the in-memory entries */
+  endpoints: Record<string, CacheEndpointStats>;
+}
+
+/**
+ * Statistics of one endpoint
+ */
+export interface CacheEndpointStats {
+  hits: number;
+  misses: number;
+  /** In-memory entries */
+  entries: number;
+  bytes: number;
+}
+
+/**
+ * The response cache shared by the tool pipeline, MCP resources, the health
+ * check and the memory optimizer. Entries are keyed by endpoint and the
+ * canonical form of the request body (see canonicalizeRequest).
+ */
+export interface CacheStore {
+  /** Fresh cached response, counted as a hit or miss */
+  get<T>(endpoint: string, requestData: unknown): T | null;
+  /** Like get(), but with the entry's age, and expired entries within their stale window unless allowStale is false */
+  lookup<T>(endpoint: string, requestData: unknown, options?: { allowStale?: boolean }): CacheLookup<T> | null;
+  /** Cached response without touching statistics or recency */
+  peek<T>(endpoint: string, requestData: unknown): T | null;
+  /** Whether a fresh entry exists, without statistics or reading (and decompressing) its data */
+  has(endpoint: string, requestData: unknown): boolean;
+  set<T>(endpoint: string, requestData: unknown, responseData: T, options?: CacheSetOptions): void;
+  /** @returns Whether an in-memory entry was removed */
+  delete(endpoint: string, requestData: unknown): boolean;
+  /**
+   * Remove the entries of both tiers that match the criteria (all entries for an empty filter).
+   * Persistent entries cached by older versions never match.
+   * @returns Number of entries removed
+   */
+  invalidate(filter: CacheInvalidation): number;
+  /** Fresh entries of both tiers */
+  export(): CacheExport;
+  /**
+   * Store the unexpired entries of an export, keeping their age and expiry
+   * @returns Number of entries stored
+   * @throws Error if the data is not a cache export
+   */
+  import(data: CacheExport): number;
+  /**
+   * Drop expired in-memory entries
+   * @returns Number of entries removed
+   */
+  prune(): number;
+  /** Drop every in-memory entry, keeping the persistent tier (e.g. under memory pressure) */
+  clearMemory(): void;
+  /** Drop every entry in both tiers */
+  clear(): void;
+  getStats(): CacheStats;
+  isEnabled(): boolean;
+  setEnabled(enabled: boolean): void;
 }
 
 /**
  * LRU Cache with TTL for API request optimization
  * Reduces repeated API calls and improves performance
+ *
+ * Eviction is bounded by both the entry count (maxSize) and the approximate
+ * size of the responses (maxMemoryMb); a response larger than the whole
+ * budget is not cached. Entries may carry their own TTL, and a stale window
+ * during which lookup() still returns them, flagged as stale, so callers can
+ * answer at once and refresh in the background (stale-while-revalidate).
+ *
+ * Entries remember their endpoint, canonical request and tool, so they can
+ * be invalidated by those, counted per endpoint and exported.
+ *
+ * Responses larger than compressionThreshold are kept compressed (brotli or
+ * gzip) when that makes them smaller, and decompressed on every read, so
+ * callers get a fresh copy of the response rather than the cached object.
+ *
+ * With the semantic cache on, set() also records the entry under the
+ * request's semantic form, and lookups that miss the exact key fall back to
+ * it, so "Best vector databases?" finds "vector database best". Only the
+ * in-memory tier is consulted that way.
+ *
+ * With a persistent tier, responses are also written to the store, and
+ * in-memory misses fall back to it; store hits are copied into memory for
+ * at most their remaining lifetime. Store failures are logged and treated as misses.
  */
-export class RequestCache {
+export class RequestCache implements CacheStore {
   private cache: LRUCache<string, CachedResponse>;
+  /** Semantic key to the exact key of the latest entry stored under it */
+  private semanticKeys: LRUCache<string, string>;
   private stats = {
     hits: 0,
-    misses: 0
+    misses: 0,
+    evictions: 0,
+    persistentHits: 0,
+    staleHits: 0,
+    semanticHits: 0,
+    compressions: 0,
+    uncompressedBytes: 0,
+    compressedBytes: 0,
+    compressionMs: 0,
+    decompressionMs: 0
   };
+  private endpointCounts = new Map<string, { hits: number; misses: number }>();
   private config: CacheConfig;
+  private persistent?: PersistentCacheOptions;
   private logger = structuredLogger.child({ component: 'RequestCache' });
 
-  constructor(config?: Partial<CacheConfig>) {
+  constructor(config?: RequestCacheOptions) {
     // Get default cache configuration from app config
     const appConfig = getConfig();
     
     this.config = {
       maxSize: config?.maxSize ?? appConfig.cache.maxSize,
+      maxMemoryMb: config?.maxMemoryMb ?? appConfig.cache.maxMemoryMb,
       ttlMinutes: config?.ttlMinutes ?? appConfig.cache.ttlMinutes,
-      enabled: config?.enabled ?? (appConfig.cache.enabled && appConfig.environment.nodeEnv !== 'test')
+      enabled: config?.enabled ?? (appConfig.cache.enabled && appConfig.environment.nodeEnv !== 'test'),
+      compression: config?.compression ?? appConfig.cache.compression,
+      compressionThreshold: config?.compressionThreshold ?? appConfig.cache.compressionThreshold,
+      semantic: config?.semantic ?? appConfig.cache.semantic
     };
 
     this.cache = new LRUCache<string, CachedResponse>({
       max: this.config.maxSize,
+      maxSize: this.config.maxMemoryMb * 1024 * 1024,
+      sizeCalculation: (entry) => entry.size,
       ttl: this.config.ttlMinutes * 60 * 1000, // Convert to milliseconds
       allowStale: false,
-      dispose: (value, key) => {
-        this.logger.debug({ cacheKey: key, hitCount: value.hitCount }, 'Cache entry evicted');
-      }
+      dispose: (value, key, reason) => {
+        if (reason === 'evict') {
+          this.stats.evictions++;
+          this.logger.debug({ cacheKey: key, hitCount: value.hitCount }, 'Cache entry evicted');
+        }
+      },
+      // Read the clock on every TTL check (no 1ms debounce timer) so Jest fake timers control expiry
+      perf: { now: () => Date.now() },
+      ttlResolution: 0
     });
 
+    this.semanticKeys = new LRUCache<string, string>({ max: this.config.maxSize });
+    this.persistent = config?.persistent;
+
     this.logger.info({
       maxSize: this.config.maxSize,
+      maxMemoryMb: this.config.maxMemoryMb,
       ttlMinutes: this.config.ttlMinutes,
-      enabled: this.config.enabled
+      enabled: this.config.enabled,
+      compression: this.config.compression,
+      compressionThreshold: this.config.compressionThreshold,
+      semantic: this.config.semantic,
+      persistent: this.persistent
+        ? { backend: this.persistent.store.name, ttlMinutes: this.persistent.ttlMinutes }
+        : undefined
     }, 'Request cache initialized');
   }
 
   /**
-   * Generate a cache key from request parameters
+   * Generate a cache key from the canonical form of the request
    */
   private generateKey(endpoint: string, requestData: unknown): string {
-    const payload = JSON.stringify({ endpoint, ...(requestData as object) });
-    return createHash('sha256').update(payload).digest('hex').substring(0, 16);
+    return requestKey(endpoint, requestData);
+  }
+
+  /**
+   * Key of the request's semantic form, if the semantic cache is on and the request has a query
+   */
+  private semanticKey(endpoint: string, requestData: unknown): string | undefined {
+    if (!this.config.semantic) {
+      return undefined;
+    }
+    const request = semanticRequest(endpoint, requestData);
+    return request === undefined ? undefined : hashRequestKey(endpoint, request);
   }
 
   /**
    * Get cached response if available and not expired
    */
   get<T>(endpoint: string, requestData: unknown): T | null {
+    const found = this.lookup<T>(endpoint, requestData, { allowStale: false });
+    return found ? found.data : null;
+  }
+
+  /**
+   * Get cached response with its age, including expired entries within their stale window
+   */
+  lookup<T>(endpoint: string, requestData: unknown, { allowStale = true }: { allowStale?: boolean } = {}): CacheLookup<T> | null {
     if (!this.config.enabled) {
       return null;
     }
 
-    const key = this.generateKey(endpoint, requestData);
+    const request = canonicalizeRequest(endpoint, requestData);
+    const key = hashRequestKey(endpoint, request);
+    const now = Date.now();
     const cached = this.cache.get(key);
 
-    if (cached) {
-      // Update hit count and track stats
-      cached.hitCount++;
+    if (cached && cached.freshUntil > now) {
+      return this.memoryHit<T>(key, cached, now);
+    }
+
+    // The persistent tier only holds fresh entries, and may have a newer one than a stale
+    // memory entry (e.g. refreshed by another process): prefer it over serving stale
+    const persisted = this.readPersistent(key);
+    if (persisted) {
       this.stats.hits++;
-      
+      this.stats.persistentHits++;
+      this.countLookup(endpoint, true);
+      const ttl = Math.min(this.config.ttlMinutes * 60 * 1000, persisted.expiresAt - now);
+      const info = persisted.endpoint === undefined ? { endpoint, request } : entryInfo(persisted.endpoint, persisted);
+      this.cache.set(key, this.pack(persisted.data, persisted.timestamp, 1, now + ttl, info), { ttl });
+
       this.logger.debug({
         cacheKey: key,
-        hitCount: cached.hitCount,
-        age: Date.now() - cached.timestamp
-      }, 'Cache hit');
-      
-      return cached.data as T;
+        backend: this.persistent?.store.name,
+        age: now - persisted.timestamp
+      }, 'Persistent cache hit');
+
+      return { data: persisted.data as T, stale: false, ageMs: now - persisted.timestamp };
+    }
+
+    if (cached && allowStale) {
+      return this.memoryHit<T>(key, cached, now);
+    }
+
+    const semanticKey = this.semanticKey(endpoint, requestData);
+    const aliasedKey = semanticKey === undefined ? undefined : this.semanticKeys.get(semanticKey);
+    const aliased = aliasedKey === undefined || aliasedKey === key ? undefined : this.cache.get(aliasedKey);
+    if (aliasedKey !== undefined && aliased && (allowStale || aliased.freshUntil > now)) {
+      this.stats.semanticHits++;
+      return this.memoryHit<T>(aliasedKey, aliased, now);
     }
 
     this.stats.misses++;
+    this.countLookup(endpoint, false);
     this.logger.debug({ cacheKey: key }, 'Cache miss');
     return null;
   }
 
+  /**
+   * Count a hit on an in-memory entry and return its response
+   */
+  private memoryHit<T>(key: string, cached: CachedResponse, now: number): CacheLookup<T> {
+    const stale = cached.freshUntil <= now;
+    // Update hit count and track stats
+    cached.hitCount++;
+    this.stats.hits++;
+    this.countLookup(cached.info.endpoint, true);
+    if (stale) {
+      this.stats.staleHits++;
+    }
+
+    this.logger.debug({
+      cacheKey: key,
+      hitCount: cached.hitCount,
+      age: now - cached.timestamp
+    }, stale ? 'Stale cache hit' : 'Cache hit');
+
+    return { data: this.unpack<T>(cached), stale, ageMs: now - cached.timestamp };
+  }
+
+  /**
+   * Count a hit or miss for the per-endpoint statistics
+   */
+  private countLookup(endpoint: string, hit: boolean): void {
+    let counts = this.endpointCounts.get(endpoint);
+    if (!counts) {
+      counts = { hits: 0, misses: 0 };
+      this.endpointCounts.set(endpoint, counts);
+    }
+    if (hit) {
+      counts.hits++;
+    } else {
+      counts.misses++;
+    }
+  }
+
+  /**
+   * Entry from the persistent tier, if any
+   */
+  private readPersistent(key: string): PersistedCacheEntry | undefined {
+    if (!this.persistent) {
+      return undefined;
+    }
+    try {
+      return this.persistent.store.get(key);
+    } catch (error) {
+      this.logger.warn({ cacheKey: key, error: error instanceof Error ? error.message : String(error) }, 'Persistent cache read failed');
+      return undefined;
+    }
+  }
+
+  /**
+   * Read a fresh cached response without touching hit statistics or LRU recency.
+   * Used by MCP resource reads, which re-serve content rather than replace API calls.
+   */
+  peek<T>(endpoint: string, requestData: unknown): T | null {
+    if (!this.config.enabled) {
+      return null;
+    }
+
+    const key = this.generateKey(endpoint, requestData);
+    const cached = this.cache.peek(key);
+    if (cached && cached.freshUntil > Date.now()) {
+      return this.unpack<T>(cached);
+    }
+    const persisted = this.readPersistent(key);
+    return persisted ? persisted.data as T : null;
+  }
+
+  /**
+   * Check for a fresh entry in either tier without touching statistics.
+   * Memory entries are judged by `freshUntil` and persistent ones by the store's
+   * isFresh() (a stat for FileCacheStore), so nothing is read or decompressed.
+   */
+  has(endpoint: string, requestData: unknown): boolean {
+    if (!this.config.enabled) {
+      return false;
+    }
+    const key = this.generateKey(endpoint, requestData);
+    const cached = this.cache.peek(key);
+    if (cached !== undefined && cached.freshUntil > Date.now()) {
+      return true;
+    }
+    if (!this.persistent) {
+      return false;
+    }
+    const store = this.persistent.store;
+    try {
+      return store.isFresh ? store.isFresh(key) : store.get(key) !== undefined;
+    } catch (error) {
+      this.logger.warn({ cacheKey: key, error: error instanceof Error ? error.message : String(error) }, 'Persistent cache read failed');
+      return false;
+    }
+  }
+
   /**
    * Store response in cache
    */
-  set<T>(endpoint: string, requestData: unknown, responseData: T): void {
+  set<T>(endpoint: string, requestData: unknown, responseData: T, options: CacheSetOptions = {}): void {
     if (!this.config.enabled) {
       return;
     }
 
-    const key = this.generateKey(endpoint, requestData);
-    const cachedResponse: CachedResponse<T> = {
-      data: responseData,
-      timestamp: Date.now(),
-      hitCount: 0
-    };
+    const info: CacheEntryInfo = { endpoint, request: canonicalizeRequest(endpoint, requestData) };
+    if (options.tool !== undefined) {
+      info.tool = options.tool;
+    }
+    const timestamp = Date.now();
+    const ttlMs = options.ttlMs ?? this.config.ttlMinutes * 60 * 1000;
+    const persistentTtlMs = (this.persistent?.ttlMinutes ?? 0) * 60 * 1000;
+    this.store(info, responseData, {
+      timestamp,
+      freshUntil: timestamp + ttlMs,
+      staleMs: options.staleMs ?? 0,
+      persistentExpiresAt: timestamp + Math.min(persistentTtlMs, options.ttlMs ?? persistentTtlMs)
+    });
+  }
 
-    this.cache.set(key, cachedResponse);
+  /**
+   * Write an entry to memory and, if there is one, the persistent tier
+   */
+  private store<T>(
+    info: CacheEntryInfo,
+    data: T,
+    times: { timestamp: number; freshUntil: number; staleMs: number; persistentExpiresAt: number }
+  ): void {
+    const key = hashRequestKey(info.endpoint, info.request);
+    const cachedResponse = this.pack(data, times.timestamp, 0, times.freshUntil, info);
+
+    this.cache.set(key, cachedResponse, { ttl: times.freshUntil - Date.now() + times.staleMs });
+    const semanticKey = this.semanticKey(info.endpoint, info.request);
+    if (semanticKey !== undefined) {
+      this.semanticKeys.set(semanticKey, key);
+    }
+
+    if (this.persistent) {
+      try {
+        this.persistent.store.set(key, { ...info, data, timestamp: times.timestamp, expiresAt: times.persistentExpiresAt });
+      } catch (error) {
+        this.logger.warn({ cacheKey: key, error: error instanceof Error ? error.message : String(error) }, 'Persistent cache write failed');
+      }
+    }
     
     this.logger.debug({ 
       cacheKey: key, 
-      cacheSize: this.cache.size 
+      cacheSize: this.cache.size,
+      bytes: cachedResponse.size,
+      compressed: cachedResponse.compressed !== undefined
     }, 'Response cached');
   }
 
   /**
-   * Clear all cached entries
+   * Build an in-memory entry, compressing the response if it is large and compresses well
+   */
+  private pack<T>(data: T, timestamp: number, hitCount: number, freshUntil: number, info: CacheEntryInfo): CachedResponse<T> {
+    const json = JSON.stringify(data);
+    const size = Math.max(json?.length ?? 0, 1);
+    if (this.config.compression === 'none' || json === undefined || size <= this.config.compressionThreshold) {
+      return { info, data, timestamp, freshUntil, hitCount, size };
+    }
+
+    const started = performance.now();
+    const compressed = this.config.compression === 'brotli'
+      // Quality 4 of 11: most of the size reduction at a fraction of the default's CPU cost
+      ? brotliCompressSync(json, { params: { [zlibConstants.BROTLI_PARAM_QUALITY]: 4, [zlibConstants.BROTLI_PARAM_SIZE_HINT]: json.length } })
+      : gzipSync(json);
+    this.stats.compressionMs += performance.now() - started;
+
+    if (compressed.length >= size) {
+      return { info, data, timestamp, freshUntil, hitCount, size };
+    }
+    this.stats.compressions++;
+    this.stats.uncompressedBytes += size;
+    this.stats.compressedBytes += compressed.length;
+    return { info, compressed, timestamp, freshUntil, hitCount, size: compressed.length };
+  }
+
+  /**
+   * Response of an in-memory entry, decompressed if needed
+   */
+  private unpack<T>(entry: CachedResponse): T {
+    if (entry.compressed === undefined) {
+      return entry.data as T;
+    }
+    const started = performance.now();
+    const json = this.config.compression === 'gzip'
+      ? gunzipSync(entry.compressed)
+      : brotliDecompressSync(entry.compressed);
+    this.stats.decompressionMs += performance.now() - started;
+    return JSON.parse(json.toString('utf8')) as T;
+  }
+
+  /**
+   * Remove one entry from both tiers
+   */
+  delete(endpoint: string, requestData: unknown): boolean {
+    return this.deleteKey(this.generateKey(endpoint, requestData));
+  }
+
+  private deleteKey(key: string): boolean {
+    const deleted = this.cache.delete(key);
+    if (this.persistent) {
+      try {
+        this.persistent.store.delete(key);
+      } catch (error) {
+        this.logger.warn({ cacheKey: key, error: error instanceof Error ? error.message : String(error) }, 'Persistent cache delete failed');
+      }
+    }
+    return deleted;
+  }
+
+  /**
+   * Remove matching entries from both tiers
+   */
+  invalidate(filter: CacheInvalidation): number {
+    const keys = new Set<string>();
+    for (const [key, entry] of this.cache.entries()) {
+      if (matchesInvalidation(entry.info, filter, () => this.unpack(entry))) {
+        keys.add(key);
+      }
+    }
+    for (const [key, entry] of this.persistentEntries(keys)) {
+      if (entry.endpoint !== undefined && matchesInvalidation(entryInfo(entry.endpoint, entry), filter, () => entry.data)) {
+        keys.add(key);
+      }
+    }
+
+    for (const key of keys) {
+      this.deleteKey(key);
+    }
+    this.logger.info({ filter, invalidated: keys.size }, 'Cache entries invalidated');
+    return keys.size;
+  }
+
+  /**
+   * Fresh entries of both tiers, in-memory first
+   */
+  export(): CacheExport {
+    const now = Date.now();
+    const entries = new Map<string, CacheExportEntry>();
+    for (const [key, entry] of this.cache.entries()) {
+      if (entry.freshUntil > now) {
+        entries.set(key, { ...entry.info, data: this.unpack(entry), timestamp: entry.timestamp, expiresAt: entry.freshUntil });
+      }
+    }
+    for (const [key, entry] of this.persistentEntries(new Set(entries.keys()))) {
+      if (entry.endpoint !== undefined) {
+        entries.set(key, { ...entryInfo(entry.endpoint, entry), data: entry.data, timestamp: entry.timestamp, expiresAt: entry.expiresAt });
+      }
+    }
+    return { version: 1, exportedAt: new Date(now).toISOString(), entries: Array.from(entries.values()) };
+  }
+
+  /**
+   * Store the unexpired entries of an export; in memory they live for at most the configured TTL
+   */
+  import(data: CacheExport): number {
+    if (data?.version !== 1 || !Array.isArray(data.entries)) {
+      throw new Error('Not a cache export (expected { version: 1, entries: [...] })');
+    }
+    if (!this.config.enabled) {
+      return 0;
+    }
+
+    const now = Date.now();
+    let imported = 0;
+    for (const entry of data.entries) {
+      if (typeof entry?.endpoint !== 'string' || typeof entry.expiresAt !== 'number' || entry.expiresAt <= now) {
+        continue;
+      }
+      const info = entryInfo(entry.endpoint, { ...entry, request: canonicalizeRequest(entry.endpoint, entry.request) });
+      const timestamp = typeof entry.timestamp === 'number' ? Math.min(entry.timestamp, now) : now;
+      this.store(info, entry.data, {
+        timestamp,
+        freshUntil: Math.min(entry.expiresAt, now + this.config.ttlMinutes * 60 * 1000),
+        staleMs: 0,
+        persistentExpiresAt: Math.min(entry.expiresAt, now + (this.persistent?.ttlMinutes ?? 0) * 60 * 1000)
+      });
+      imported++;
+    }
+    this.logger.info({ imported, skipped: data.entries.length - imported }, 'Cache entries imported');
+    return imported;
+  }
+
+  /**
+   * Unexpired entries of the persistent tier, except the given keys
+   */
+  private persistentEntries(skip: Set<string>): [string, PersistedCacheEntry][] {
+    if (!this.persistent) {
+      return [];
+    }
+    const entries: [string, PersistedCacheEntry][] = [];
+    try {
+      for (const key of this.persistent.store.keys()) {
+        const entry = skip.has(key) ? undefined : this.persistent.store.get(key);
+        if (entry) {
+          entries.push([key, entry]);
+        }
+      }
+    } catch (error) {
+      this.logger.warn({ error: error instanceof Error ? error.message : String(error) }, 'Persistent cache scan failed');
+    }
+    return entries;
+  }
+
+  /**
+   * Drop expired in-memory entries (the persistent tier prunes itself)
+   */
+  prune(): number {
+    const before = this.cache.size;
+    this.cache.purgeStale();
+    const pruned = before - this.cache.size;
+    if (pruned > 0) {
+      this.logger.debug({ pruned }, 'Pruned expired cache entries');
+    }
+    return pruned;
+  }
+
+  /**
+   * Clear the in-memory entries only
+   */
+  clearMemory(): void {
+    const previousSize = this.cache.size;
+    this.cache.clear();
+    this.semanticKeys.clear();
+    this.logger.info({ clearedEntries: previousSize }, 'Memory cache cleared');
+  }
+
+  /**
+   * Clear all cached entries, including the persistent tier (for every process sharing it)
    */
   clear(): void {
     const previousSize = this.cache.size;
     this.cache.clear();
+    this.semanticKeys.clear();
+    if (this.persistent) {
+      try {
+        this.persistent.store.clear();
+      } catch (error) {
+        this.logger.warn({ error: error instanceof Error ? error.message : String(error) }, 'Persistent cache clear failed');
+      }
+    }
     
     this.logger.info({ clearedEntries: previousSize }, 'Cache cleared');
   }
@@ -146,11 +731,30 @@ export class RequestCache {
    */
   getStats(): CacheStats {
     const total = this.stats.hits + this.stats.misses;
+    const endpoints: Record<string, CacheEndpointStats> = {};
+    for (const [endpoint, counts] of this.endpointCounts) {
+      endpoints[endpoint] = { ...counts, entries: 0, bytes: 0 };
+    }
+    for (const entry of this.cache.values()) {
+      const stats = endpoints[entry.info.endpoint] ??= { hits: 0, misses: 0, entries: 0, bytes: 0 };
+      stats.entries++;
+      stats.bytes += entry.size;
+    }
     return {
       hits: this.stats.hits,
       misses: this.stats.misses,
       size: this.cache.size,
-      hitRate: total > 0 ? (this.stats.hits / total) * 100 : 0
+      hitRate: total > 0 ? (this.stats.hits / total) * 100 : 0,
+      evictions: this.stats.evictions,
+      staleHits: this.stats.staleHits,
+      semanticHits: this.stats.semanticHits,
+      bytes: this.cache.calculatedSize,
+      compressions: this.stats.compressions,
+      compressionRatio: this.stats.compressedBytes > 0 ? this.stats.uncompressedBytes / this.stats.compressedBytes : 1,
+      compressionMs: this.stats.compressionMs,
+      decompressionMs: this.stats.decompressionMs,
+      ...(this.persistent && { persistentHits: this.stats.persistentHits }),
+      endpoints
     };
   }
 
@@ -168,28 +772,90 @@ export class RequestCache {
     const wasEnabled = this.config.enabled;
     this.config.enabled = enabled;
     
+    // Only the memory tier: other processes may still use the persistent one
     if (wasEnabled && !enabled) {
-      this.clear();
+      this.cache.clear();
+      this.semanticKeys.clear();
     }
     
     this.logger.info({ enabled }, 'Cache enabled status changed');
   }
 }
 
+/**
+ * Entry info of a persisted or exported entry, without its other fields
+ */
+function entryInfo(endpoint: string, entry: Partial<CacheEntryInfo>): CacheEntryInfo {
+  return entry.tool === undefined
+    ? { endpoint, request: entry.request }
+    : { endpoint, request: entry.request, tool: entry.tool };
+}
+
+/**
+ * Compare URLs ignoring a trailing slash
+ */
+function sameUrl(a: unknown, b: string): boolean {
+  return typeof a === 'string' && a.replace(/\/$/, '') === b.replace(/\/$/, '');
+}
+
+/**
+ * Whether an entry matches every criterion of an invalidation filter
+ * @param response Reads the response, only when the URL isn't in the request
+ */
+function matchesInvalidation(info: CacheEntryInfo, filter: CacheInvalidation, response: () => unknown): boolean {
+  if (filter.tool !== undefined && info.tool !== filter.tool) {
+    return false;
+  }
+  if (filter.endpoint !== undefined && info.endpoint !== filter.endpoint) {
+    return false;
+  }
+  const request = (info.request ?? {}) as { query?: unknown; url?: unknown; urls?: unknown; ids?: unknown };
+  if (filter.query !== undefined) {
+    if (typeof request.query !== 'string' || !request.query.toLowerCase().includes(filter.query.trim().toLowerCase())) {
+      return false;
+    }
+  }
+  if (filter.url !== undefined) {
+    const url = filter.url;
+    const requested = [request.url, request.urls, request.ids].flat();
+    if (requested.some(value => sameUrl(value, url))) {
+      return true;
+    }
+    const { results, citations } = (response() ?? {}) as { results?: unknown; citations?: unknown };
+    return [results, citations]
+      .flatMap(items => (Array.isArray(items) ? items : []))
+      .some(item => sameUrl((item as { url?: unknown } | null)?.url, url));
+  }
+  return true;
+}
+
 /**
  * Global cache instance with lazy initialization
  * This prevents issues during testing where config validation might fail
  */
-let _globalCache: RequestCache | null = null;
+let _globalCache: CacheStore | null = null;
+let _globalCacheOptions: RequestCacheOptions | undefined;
+// Late options already warned about, so repeated calls don't flood the log
+const _ignoredCacheOptions = new WeakSet<RequestCacheOptions>();
 
 /**
  * Get the global cache instance (lazy initialization)
  * Creates the cache on first access to avoid initialization issues during testing
+ * @param options Cache settings (used on first call), e.g. a persistent tier.
+ * Options passed once the cache exists can't take effect and are logged as a warning.
  */
-export function getGlobalCache(): RequestCache {
+export function getGlobalCache(options?: RequestCacheOptions): CacheStore {
+  if (_globalCache && options && options !== _globalCacheOptions && !_ignoredCacheOptions.has(options)) {
+    _ignoredCacheOptions.add(options);
+    structuredLogger.child({ component: 'RequestCache' }).warn(
+      { options: Object.keys(options) },
+      'Ignoring cache options: the global cache was already created'
+    );
+  }
   if (!_globalCache) {
+    _globalCacheOptions = options;
     try {
-      _globalCache = new RequestCache();
+      _globalCache = new RequestCache(options);
     } catch (_error) {
       // If config validation fails (e.g., in tests), create a disabled cache
       _globalCache = new RequestCache({ enabled: false });
@@ -206,6 +872,7 @@ export function resetGlobalCache(): void {
     _globalCache.clear();
   }
   _globalCache = null;
+  _globalCacheOptions = undefined;
 }
 
 /**
@@ -227,7 +894,7 @@ export const globalCache = {
 export function createCachedRequest<TRequest, TResponse>(
   requestFunction: (data: TRequest) => Promise<TResponse>,
   endpoint: string,
-  cache?: RequestCache
+  cache?: CacheStore
 ) {
   return async (requestData: TRequest): Promise<TResponse> => {
     const cacheInstance = cache || getGlobalCache();
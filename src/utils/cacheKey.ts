@@ -0,0 +1,130 @@
+import { createHash } from 'crypto';
+
+/**
+ * Request fields whose value equals the API default when sent explicitly.
+ * Only documented defaults belong here: a wrong entry would merge different requests.
+ */
+const ENDPOINT_DEFAULTS: Record<string, Record<string, unknown>> = {
+  '/search': { type: 'auto', numResults: 10, moderation: false },
+  '/findSimilar': { numResults: 10 },
+  '/answer': { text: false, stream: false },
+  '/context': { tokensNum: 'dynamic' }
+};
+
+/**
+ * Endpoints whose `query` is matched case-insensitively, so case-folding it is safe
+ */
+const CASE_INSENSITIVE_QUERIES = new Set(['/search', '/answer']);
+
+/**
+ * Domain filters: case-insensitive sets, so they are lower-cased, de-duplicated and sorted
+ */
+const DOMAIN_LIST_FIELDS = new Set(['includeDomains', 'excludeDomains']);
+
+/**
+ * Filler that may open a question without changing what it is about
+ * ("what are the ...", "tell me about ..."), dropped from the start of semantic keys
+ */
+const LEADING_FILLER = new Set([
+  'a', 'an', 'the', 'what', 'which', 'is', 'are', 'do', 'does', 'can', 'i', 'you',
+  'please', 'tell', 'show', 'me', 'about', 'find', 'search', 'for'
+]);
+
+/**
+ * Objects with sorted keys and without undefined fields, recursively
+ */
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+  );
+}
+
+/**
+ * Canonical form of a request for cache keys, so requests that mean the same
+ * thing share an entry:
+ * - object keys sorted, undefined fields dropped
+ * - top-level fields equal to the endpoint's API default dropped
+ * - `query` trimmed with whitespace collapsed, and lower-cased on endpoints that ignore case
+ * - domain filters lower-cased, de-duplicated and sorted; empty ones dropped
+ *
+ * Everything else (e.g. research instructions, includeText, output schemas) is kept verbatim.
+ */
+export function canonicalizeRequest(endpoint: string, request: unknown): unknown {
+  if (request === null || typeof request !== 'object' || Array.isArray(request)) {
+    return sortKeys(request);
+  }
+
+  const defaults = ENDPOINT_DEFAULTS[endpoint] ?? {};
+  const canonical: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(request)) {
+    if (value === undefined || (field in defaults && defaults[field] === value)) {
+      continue;
+    }
+    if (field === 'query' && typeof value === 'string') {
+      const query = value.trim().replace(/\s+/g, ' ');
+      canonical[field] = CASE_INSENSITIVE_QUERIES.has(endpoint) ? query.toLowerCase() : query;
+    } else if (DOMAIN_LIST_FIELDS.has(field) && Array.isArray(value)) {
+      if (value.length > 0) {
+        canonical[field] = [...new Set(value.map(domain => String(domain).trim().toLowerCase()))].sort();
+      }
+    } else {
+      canonical[field] = value;
+    }
+  }
+  return sortKeys(canonical);
+}
+
+/**
+ * Hash an endpoint and an already canonical request into a short key
+ */
+export function hashRequestKey(endpoint: string, canonicalRequest: unknown): string {
+  const payload = JSON.stringify({ endpoint, request: canonicalRequest });
+  return createHash('sha256').update(payload).digest('hex').substring(0, 16);
+}
+
+/**
+ * Key shared by requests that mean the same thing: the hash of the canonical request.
+ * Used for cache entries and for coalescing identical in-flight calls.
+ */
+export function requestKey(endpoint: string, request: unknown): string {
+  return hashRequestKey(endpoint, canonicalizeRequest(endpoint, request));
+}
+
+/**
+ * Looser form of a query for the semantic cache: lower-cased words without
+ * punctuation or leading filler, in their original order (word order is meaning:
+ * "python to rust" is not "rust to python"). "What are the best vector
+ * databases?" and "best vector databases" become the same.
+ */
+export function semanticQuery(query: string): string {
+  const words = query
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .split(' ')
+    .filter(word => word.length > 0);
+  const start = words.findIndex(word => !LEADING_FILLER.has(word));
+  return start === -1 ? words.join(' ') || query.trim().toLowerCase() : words.slice(start).join(' ');
+}
+
+/**
+ * Canonical request with its query in semantic form
+ * @returns undefined for requests without a string query
+ */
+export function semanticRequest(endpoint: string, request: unknown): unknown {
+  const canonical = canonicalizeRequest(endpoint, request);
+  const query = (canonical as { query?: unknown } | null)?.query;
+  if (typeof query !== 'string') {
+    return undefined;
+  }
+  return { ...(canonical as Record<string, unknown>), query: semanticQuery(query) };
+}
@@ -0,0 +1,73 @@
+import type { Config } from '../config/index.js';
+
+/**
+ * Whether one request may use the cache, for how long its response is kept,
+ * and for how long after that it may be served stale while being refreshed
+ */
+export type CacheDecision =
+  | { cache: true; ttlMs: number; staleMs: number }
+  | { cache: false; reason: string };
+
+/**
+ * Freshness fields of a request, top-level or in its `contents` options
+ */
+interface FreshnessFields {
+  maxAgeHours?: unknown;
+  livecrawl?: unknown;
+  contents?: { maxAgeHours?: unknown; livecrawl?: unknown };
+}
+
+/**
+ * Decide how a tool call's request uses the cache.
+ *
+ * The base TTL is the tool's override, else the endpoint's, else
+ * `cache.ttlMinutes`; an override of 0 turns caching off. Freshness intent
+ * then narrows it: `maxAgeHours: 0` bypasses the cache, a positive
+ * `maxAgeHours` caps the TTL, and `livecrawl: 'always'` caps it at
+ * `policy.livecrawlTtlMinutes` (0 bypasses). `maxAgeHours: -1` (cached content
+ * only) leaves the base TTL alone.
+ *
+ * `maxAgeHours` is read from the request, where tools only put it when the
+ * caller (or a preset) asked for it. `livecrawl` is read from the caller's
+ * arguments only: tools add `livecrawl: 'always'` to requests by default,
+ * which says nothing about how fresh the caller needs the answer.
+ *
+ * Expired responses may be served stale for `policy.staleWhileRevalidateMinutes`,
+ * except for requests with a positive `maxAgeHours`, whose age limit is explicit.
+ * @param args The caller's tool arguments
+ */
+export function resolveCachePolicy(
+  toolName: string,
+  endpoint: string,
+  request: unknown,
+  config: Config['cache'],
+  args?: unknown
+): CacheDecision {
+  const { policy } = config;
+  const baseMinutes = policy.tools[toolName] ?? policy.endpoints[endpoint] ?? config.ttlMinutes;
+  if (baseMinutes <= 0) {
+    return { cache: false, reason: `caching is off for ${toolName in policy.tools ? toolName : endpoint}` };
+  }
+  let ttlMs = baseMinutes * 60 * 1000;
+  const staleMs = policy.staleWhileRevalidateMinutes * 60 * 1000;
+
+  const fields = (request ?? {}) as FreshnessFields;
+  const maxAges = [fields.maxAgeHours, fields.contents?.maxAgeHours]
+    .filter((value): value is number => typeof value === 'number' && value >= 0);
+  if (maxAges.length > 0) {
+    const maxAgeHours = Math.min(...maxAges);
+    if (maxAgeHours === 0) {
+      return { cache: false, reason: 'maxAgeHours 0 asks for fresh content' };
+    }
+    return { cache: true, ttlMs: Math.min(ttlMs, maxAgeHours * 60 * 60 * 1000), staleMs: 0 };
+  }
+
+  const intent = (args ?? {}) as FreshnessFields;
+  if (intent.livecrawl === 'always' || intent.contents?.livecrawl === 'always') {
+    if (policy.livecrawlTtlMinutes <= 0) {
+      return { cache: false, reason: "livecrawl 'always' asks for fresh content" };
+    }
+    ttlMs = Math.min(ttlMs, policy.livecrawlTtlMinutes * 60 * 1000);
+  }
+  return { cache: true, ttlMs, staleMs };
+}
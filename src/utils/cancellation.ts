@@ -0,0 +1,87 @@
+import axios from 'axios';
+
+/**
+ * Thrown when work is abandoned because the MCP client cancelled the request
+ */
+export class RequestCancelledError extends Error {
+  constructor(message: string = 'Request cancelled') {
+    super(message);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * Throw RequestCancelledError if the signal has already fired
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new RequestCancelledError();
+  }
+}
+
+/**
+ * Whether an error came from cancellation rather than a real failure.
+ * Covers our own error, axios' CanceledError and DOM-style AbortError.
+ */
+export function isCancellationError(error: unknown): boolean {
+  return error instanceof RequestCancelledError ||
+    axios.isCancel(error) ||
+    (error instanceof Error && error.name === 'AbortError');
+}
+
+/**
+ * Wait for the given time, rejecting early with RequestCancelledError if the signal fires
+ */
+export function cancellableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Wait for a promise, rejecting early with RequestCancelledError if the signal fires.
+ * The promise itself keeps running (e.g. when it is shared with other callers).
+ */
+export function cancellable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new RequestCancelledError());
+      return;
+    }
+
+    const onAbort = () => reject(new RequestCancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Tool result for a cancelled call. The SDK drops responses to cancelled
+ * requests, so this mostly matters for direct handler callers.
+ */
+export function cancelledResult(toolName: string): { content: { type: "text"; text: string }[]; isError: boolean } {
+  return {
+    content: [{
+      type: "text",
+      text: `${toolName} request was cancelled`
+    }],
+    isError: true
+  };
+}
@@ -1,14 +1,22 @@
 import axios, { AxiosInstance, AxiosError } from "axios";
 let _sharedClient: AxiosInstance | null = null;
 import axiosRetry from "axios-retry";
+import { LRUCache } from "lru-cache";
+import { createHash } from "crypto";
 import { getConfig } from "../config/index.js";
 import { createRequestLogger, logWarn, generateRequestId } from "./pinoLogger.js";
+import { getTenantRateLimiter } from "./rateLimiter.js";
 import { ResponseFormatter } from "./formatter.js";
 
 /**
  * Creates a configured Axios instance for Exa API requests.
  * Centralizes configuration to reduce duplication across tools.
  * 
+ * @param {string} [apiKey] - Exa API key to use instead of the configured EXA_API_KEY
+ * 
+ * With `rateLimit.adaptive` on, responses feed their rate-limit headers (and
+ * 429s) to the key's rate limiter: the global one for the configured key, and
+ * the tenant's own one for a per-session key, which has its own Exa limits.
  * @returns {AxiosInstance} Configured Axios instance with Exa API settings
  * @throws {Error} Throws error if EXA_API_KEY environment variable is not set
  * 
@@ -18,7 +26,7 @@ import { ResponseFormatter } from "./formatter.js";
  * const response = await client.post('/search', requestData);
  * ```
  */
-export function createExaClient(): AxiosInstance {
+export function createExaClient(apiKey?: string): AxiosInstance {
   const config = getConfig();
 
   const client = axios.create({
@@ -26,7 +34,7 @@ export function createExaClient(): AxiosInstance {
     headers: {
       'accept': 'application/json',
       'content-type': 'application/json',
-      'x-api-key': config.exa.apiKey
+      'x-api-key': apiKey ?? config.exa.apiKey
     },
     timeout: config.exa.timeout
   });
@@ -49,6 +57,22 @@ export function createExaClient(): AxiosInstance {
     }
   });
 
+  if (config.rateLimit.adaptive) {
+    const tenant = apiKey === undefined ? undefined : getApiKeyFingerprint(apiKey);
+    client.interceptors.response.use(
+      (response) => {
+        getTenantRateLimiter(tenant).observe(response.status, response.headers);
+        return response;
+      },
+      (error: unknown) => {
+        if (axios.isAxiosError(error) && error.response) {
+          getTenantRateLimiter(tenant).observe(error.response.status, error.response.headers);
+        }
+        return Promise.reject(error);
+      }
+    );
+  }
+
   return client;
 }
 
@@ -153,21 +177,45 @@ export function createExaRequestHandler<TRequest, TResponse>(
   };
 }
 
+/**
+ * Clients for per-session API keys, bounded so abandoned tenants don't accumulate
+ */
+const _sessionClients = new LRUCache<string, AxiosInstance>({ max: 100 });
+
 /**
  * Returns a module-level singleton Axios client configured for the Exa API.
  * Avoids rebuilding the client (including retry config) on every tool call.
+ * When a per-session API key is given, a separate client is cached for that key;
+ * otherwise the shared EXA_API_KEY client is returned.
  * Call resetSharedExaClient() in tests to get a fresh instance.
  */
-export function getSharedExaClient(): AxiosInstance {
+export function getSharedExaClient(apiKey?: string): AxiosInstance {
+  if (apiKey && apiKey !== getConfig().exa.apiKey) {
+    let client = _sessionClients.get(apiKey);
+    if (!client) {
+      client = createExaClient(apiKey);
+      _sessionClients.set(apiKey, client);
+    }
+    return client;
+  }
   if (!_sharedClient) {
     _sharedClient = createExaClient();
   }
   return _sharedClient;
 }
 
+/**
+ * Returns a short, non-reversible identifier for an API key.
+ * Used to attribute usage per tenant without writing the key to logs.
+ */
+export function getApiKeyFingerprint(apiKey: string): string {
+  return `key-${createHash('sha256').update(apiKey).digest('hex').substring(0, 12)}`;
+}
+
 /**
  * Resets the shared client singleton. Intended for use in tests only.
  */
 export function resetSharedExaClient(): void {
   _sharedClient = null;
-}
\ No newline at end of file
+  _sessionClients.clear();
+}
@@ -4,7 +4,7 @@
  */
 
 import { MemoryOptimizer } from './memoryOptimizer.js';
-import { OptimizedCache } from './optimizedCache.js';
+import { CacheStore, getGlobalCache } from './cache.js';
 import { RequestBatcher } from './requestBatcher.js';
 import { URLValidator } from './urlValidator.js';
 import { RateLimiter } from './rateLimiter.js';
@@ -22,6 +22,7 @@ export interface ServiceConfig {
   };
   cache?: {
     maxSize?: number;
+    maxMemoryMb?: number;
     ttlMinutes?: number;
   };
   rateLimiter?: {
@@ -43,6 +44,7 @@ export interface ServiceConfig {
  */
 export class ServiceFactory {
   private static instances = new Map<string, unknown>();
+  private static batchers = new Set<RequestBatcher<unknown>>();
   private static config: ServiceConfig = {};
 
   /**
@@ -65,25 +67,32 @@ export class ServiceFactory {
   }
 
   /**
-   * Create or get an OptimizedCache instance
+   * Get the shared response cache, the same instance the tools use.
+   * The `cache` settings only apply if it doesn't exist yet (otherwise a warning
+   * is logged); reset() leaves it alone.
    */
-  static getOptimizedCache(): OptimizedCache {
-    const key = 'optimizedCache';
-    if (!this.instances.has(key)) {
-      const cache = new OptimizedCache(this.config.cache);
-      this.instances.set(key, cache);
-    }
-    return this.instances.get(key) as OptimizedCache;
+  static getCache(): CacheStore {
+    return getGlobalCache(this.config.cache);
   }
 
   /**
-   * Create a new RequestBatcher instance
+   * Create a new RequestBatcher instance.
+   * Batchers are tracked so pending requests can be flushed on shutdown.
    */
   static createRequestBatcher<T>(
     processor: (items: unknown[]) => Promise<T[]>,
     options?: { maxBatchSize?: number; batchDelayMs?: number; maxWaitMs?: number }
   ): RequestBatcher<T> {
-    return new RequestBatcher(processor, options);
+    const batcher = new RequestBatcher(processor, options);
+    this.batchers.add(batcher as RequestBatcher<unknown>);
+    return batcher;
+  }
+
+  /**
+   * Flush pending requests in every batcher created by the factory
+   */
+  static async flushRequestBatchers(): Promise<void> {
+    await Promise.all(Array.from(this.batchers).map(batcher => batcher.flush()));
   }
 
   /**
@@ -145,6 +154,7 @@ export class ServiceFactory {
     }
 
     this.instances.clear();
+    this.batchers.clear();
     this.config = {};
   }
 
@@ -165,7 +175,7 @@ export class ServiceFactory {
 
 // Export convenience functions that use the factory
 export const getMemoryOptimizer = () => ServiceFactory.getMemoryOptimizer();
-export const getOptimizedCache = () => ServiceFactory.getOptimizedCache();
+export const getCache = () => ServiceFactory.getCache();
 export const getRateLimiter = () => ServiceFactory.getRateLimiter();
 export const getURLValidator = () => ServiceFactory.getURLValidator();
 export const createRequestBatcher = ServiceFactory.createRequestBatcher.bind(ServiceFactory);
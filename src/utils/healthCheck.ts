@@ -156,7 +156,12 @@ export class HealthCheckService {
           size: stats.size,
           hitRate: `${stats.hitRate.toFixed(2)}%`,
           hits: stats.hits,
-          misses: stats.misses
+          misses: stats.misses,
+          evictions: stats.evictions,
+          staleHits: stats.staleHits,
+          bytes: stats.bytes,
+          compressionRatio: Number(stats.compressionRatio.toFixed(2)),
+          ...(stats.persistentHits !== undefined && { persistentHits: stats.persistentHits })
         }
       };
     } catch (error) {
@@ -176,16 +181,25 @@ export class HealthCheckService {
     try {
       const rateLimiter = getGlobalRateLimiter();
       const status = rateLimiter.getStatus();
+      const { learned } = status;
       
       return {
         name: 'Rate Limiter',
         healthy: true,
-        message: 'Rate limiter is operational',
+        message: status.pausedForMs > 0
+          ? `Rate limiter paused for ${status.pausedForMs}ms by Exa rate limits`
+          : 'Rate limiter is operational',
         details: {
           tokensAvailable: status.tokensAvailable,
           maxTokens: status.maxTokens,
           queueLength: status.queueLength,
-          timeUntilRefill: `${status.timeUntilRefill}ms`
+          timeUntilRefill: `${status.timeUntilRefill}ms`,
+          limit: `${status.maxRequests} requests per ${status.windowMs}ms`,
+          limitSource: learned?.maxRequests !== undefined ? 'exa' : 'config',
+          ...(learned?.reportedLimit !== undefined && { exaLimit: learned.reportedLimit }),
+          ...(learned?.remaining !== undefined && { exaRemaining: learned.remaining }),
+          ...(learned && { learnedAt: new Date(learned.updatedAt).toISOString() }),
+          ...(status.pausedForMs > 0 && { pausedFor: `${status.pausedForMs}ms` })
         }
       };
     } catch (error) {
@@ -1,5 +1,5 @@
 import { structuredLogger } from './pinoLogger.js';
-import { getOptimizedCache } from './optimizedCache.js';
+import { getGlobalCache } from './cache.js';
 
 interface MemoryStats {
   heapUsed: number;
@@ -146,9 +146,9 @@ export class MemoryOptimizer {
   private performAggressiveCleanup(): void {
     this.logger.info('Performing aggressive memory cleanup');
 
-    // Clear caches
-    const cache = getOptimizedCache();
-    cache.clear();
+    // Clear caches (responses on disk don't use the heap)
+    const cache = getGlobalCache();
+    cache.clearMemory();
 
     // Force GC if available
     if (global.gc) {
@@ -201,7 +201,7 @@ export class MemoryOptimizer {
     const before = process.memoryUsage().heapUsed;
 
     // Prune cache
-    const cache = getOptimizedCache();
+    const cache = getGlobalCache();
     const pruned = cache.prune();
 
     // Check memory and potentially trigger GC
@@ -0,0 +1,246 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { structuredLogger } from './pinoLogger.js';
+import type { Config } from '../config/index.js';
+
+/**
+ * What a cached response answers, kept so entries can be listed, invalidated and exported
+ */
+export interface CacheEntryInfo {
+  endpoint: string;
+  /** Canonical request (see canonicalizeRequest) */
+  request: unknown;
+  /** Tool whose call cached the response, if any */
+  tool?: string;
+}
+
+/**
+ * Response as kept by a persistent store. The entry info is missing from
+ * entries written by older versions.
+ */
+export interface PersistedCacheEntry<T = unknown> extends Partial<CacheEntryInfo> {
+  data: T;
+  /** When the response was cached (epoch ms) */
+  timestamp: number;
+  /** When the entry stops being served (epoch ms) */
+  expiresAt: number;
+}
+
+/**
+ * Second-tier (L2) store behind RequestCache's in-memory LRU.
+ * Stores are synchronous like the cache API, must tolerate other processes
+ * using the same location, and enforce their own size limits.
+ * Errors may be thrown; RequestCache logs them and treats the call as a miss.
+ */
+export interface PersistentCacheStore {
+  /** Backend name for logs and stats */
+  readonly name: string;
+  /** Entry for a key, or undefined if missing or expired */
+  get(key: string): PersistedCacheEntry | undefined;
+  /** Whether an unexpired entry exists, ideally without reading it; get() is used when missing */
+  isFresh?(key: string): boolean;
+  set(key: string, entry: PersistedCacheEntry): void;
+  delete(key: string): void;
+  /** Remove every entry */
+  clear(): void;
+  /** Keys of the stored entries, possibly including expired ones */
+  keys(): string[];
+}
+
+/**
+ * Default cache directory: `$XDG_CACHE_HOME/exa-mcp/responses` (or `~/.cache/...`)
+ */
+export function getDefaultCacheDirectory(): string {
+  const cacheHome = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+  return path.join(cacheHome, 'exa-mcp', 'responses');
+}
+
+/**
+ * Options for FileCacheStore
+ */
+export interface FileCacheStoreOptions {
+  /** Upper bound on the total size of entry files */
+  maxBytes: number;
+  maxEntries: number;
+  /** Prune expired and excess entries after this many writes (default 100) */
+  pruneEvery?: number;
+}
+
+/**
+ * One JSON file per entry in a directory.
+ *
+ * Writes go to a unique temp file that is renamed into place, so concurrent
+ * processes never read a partial entry and the last writer wins. Each file's
+ * mtime is set to the entry's expiry, so pruning needs no reads. Expired or
+ * unreadable entries are removed when read. Expiry and size limits are
+ * enforced by pruning on the first write and then every `pruneEvery` writes,
+ * soonest-expiring first; the limits are therefore soft between prunes.
+ */
+export class FileCacheStore implements PersistentCacheStore {
+  readonly name = 'file';
+  private writesSincePrune: number;
+  private readonly pruneEvery: number;
+  private readonly logger = structuredLogger.child({ component: 'FileCacheStore' });
+
+  constructor(readonly directory: string, private readonly options: FileCacheStoreOptions) {
+    this.pruneEvery = options.pruneEvery ?? 100;
+    this.writesSincePrune = this.pruneEvery;
+  }
+
+  private entryPath(key: string): string {
+    if (!/^[A-Za-z0-9_-]+$/.test(key)) {
+      throw new Error(`Invalid cache key "${key}"`);
+    }
+    return path.join(this.directory, `${key}.json`);
+  }
+
+  get(key: string): PersistedCacheEntry | undefined {
+    const filePath = this.entryPath(key);
+    let entry: PersistedCacheEntry;
+    try {
+      entry = JSON.parse(fs.readFileSync(filePath, 'utf8')) as PersistedCacheEntry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        // Corrupt entry (e.g. disk full during an older write): drop it
+        this.removeFile(filePath);
+      }
+      return undefined;
+    }
+
+    if (typeof entry?.expiresAt !== 'number' || entry.expiresAt <= Date.now()) {
+      this.removeFile(filePath);
+      return undefined;
+    }
+    return entry;
+  }
+
+  /**
+   * Check the entry file's mtime, which is its expiry, without reading it
+   */
+  isFresh(key: string): boolean {
+    try {
+      return fs.statSync(this.entryPath(key)).mtimeMs > Date.now();
+    } catch {
+      return false;
+    }
+  }
+
+  set(key: string, entry: PersistedCacheEntry): void {
+    const filePath = this.entryPath(key);
+    const tempPath = `${filePath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+    fs.mkdirSync(this.directory, { recursive: true });
+    try {
+      fs.writeFileSync(tempPath, JSON.stringify(entry));
+      fs.utimesSync(tempPath, new Date(), new Date(entry.expiresAt));
+      fs.renameSync(tempPath, filePath);
+    } catch (error) {
+      this.removeFile(tempPath);
+      throw error;
+    }
+
+    if (++this.writesSincePrune >= this.pruneEvery) {
+      this.prune();
+    }
+  }
+
+  delete(key: string): void {
+    this.removeFile(this.entryPath(key));
+  }
+
+  clear(): void {
+    for (const name of this.listFiles()) {
+      this.removeFile(path.join(this.directory, name));
+    }
+  }
+
+  keys(): string[] {
+    return this.listFiles()
+      .filter(name => name.endsWith('.json'))
+      .map(name => name.slice(0, -'.json'.length));
+  }
+
+  /**
+   * Remove expired entries, abandoned temp files, and the soonest-expiring
+   * entries beyond the size limits
+   * @returns Number of entries removed
+   */
+  prune(): number {
+    this.writesSincePrune = 0;
+    const now = Date.now();
+    const entries: { filePath: string; size: number; mtimeMs: number }[] = [];
+    let removed = 0;
+
+    for (const name of this.listFiles()) {
+      const filePath = path.join(this.directory, name);
+      let stats: fs.Stats;
+      try {
+        stats = fs.statSync(filePath);
+      } catch {
+        continue; // Removed by another process meanwhile
+      }
+      if (name.endsWith('.tmp')) {
+        // Temp files only live for the duration of a write (their mtime is the expiry once set)
+        if (now - stats.ctimeMs > 60000) {
+          this.removeFile(filePath);
+        }
+        continue;
+      }
+      if (stats.mtimeMs <= now) {
+        this.removeFile(filePath);
+        removed++;
+        continue;
+      }
+      entries.push({ filePath, size: stats.size, mtimeMs: stats.mtimeMs });
+    }
+
+    entries.sort((a, b) => a.mtimeMs - b.mtimeMs);
+    let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+    let count = entries.length;
+    for (const entry of entries) {
+      if (totalBytes <= this.options.maxBytes && count <= this.options.maxEntries) {
+        break;
+      }
+      this.removeFile(entry.filePath);
+      totalBytes -= entry.size;
+      count--;
+      removed++;
+    }
+
+    if (removed > 0) {
+      this.logger.debug({ removed, remaining: count, totalBytes }, 'Pruned persistent cache');
+    }
+    return removed;
+  }
+
+  private listFiles(): string[] {
+    try {
+      return fs.readdirSync(this.directory).filter(name => name.endsWith('.json') || name.endsWith('.tmp'));
+    } catch {
+      return [];
+    }
+  }
+
+  private removeFile(filePath: string): void {
+    try {
+      fs.unlinkSync(filePath);
+    } catch {
+      // Already gone (possibly removed by another process)
+    }
+  }
+}
+
+/**
+ * Build the store described by the `cache.persistent` config section
+ * @returns The store, or undefined when persistence is disabled
+ */
+export function createPersistentCacheStore(config: Config['cache']['persistent']): PersistentCacheStore | undefined {
+  if (!config.enabled) {
+    return undefined;
+  }
+  return new FileCacheStore(config.directory ?? getDefaultCacheDirectory(), {
+    maxBytes: config.maxSizeMb * 1024 * 1024,
+    maxEntries: config.maxEntries
+  });
+}
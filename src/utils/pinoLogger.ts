@@ -1,22 +1,18 @@
 import pino, { Logger, LoggerOptions } from 'pino';
-import { getConfig } from '../config/index.js';
+import { getConfigIfValid } from '../config/index.js';
 
 
 /**
  * Creates the main Pino logger instance with appropriate configuration
  */
 function createPinoLogger(): Logger {
-  let config;
-  try {
-    config = getConfig();
-  } catch (error) {
-    // Fallback configuration for testing environments where config might not be available
-    config = {
-      logging: { level: 'DEBUG', redactLogs: false },
-      server: { name: 'exa-mcp-server', version: '0.3.6' },
-      environment: { nodeEnv: process.env.NODE_ENV || 'development' }
-    };
-  }
+  // Fallback configuration when config is not (yet) valid, e.g. in tests or
+  // for CLI commands like --list-tools that run without an API key
+  const config = getConfigIfValid() ?? {
+    logging: { level: 'DEBUG', redactLogs: false },
+    server: { name: 'exa-mcp-server', version: '0.3.6' },
+    environment: { nodeEnv: process.env.NODE_ENV || 'development' }
+  };
   
   const loggerOptions: LoggerOptions = {
     level: config.logging.level.toLowerCase(),
@@ -255,6 +251,28 @@ export function createChildLogger(context: object): StructuredLogger {
   return wrapPinoLogger(logger.child(context));
 }
 
+/**
+ * Change the log level after startup. The logger is created at import time,
+ * before a --config file is read, so main() re-applies the configured level.
+ */
+export function setLogLevel(level: string): void {
+  logger.level = level.toLowerCase();
+}
+
+/**
+ * Flush buffered log lines from the async destination (call before exiting)
+ */
+export function flushLogger(): Promise<void> {
+  return new Promise((resolve) => {
+    try {
+      logger.flush(() => resolve());
+    } catch {
+      // Destination not ready or already closed; nothing left to flush
+      resolve();
+    }
+  });
+}
+
 // Legacy compatibility exports - these maintain the same interface as the old logger
 // but output structured JSON logs instead of formatted text
 export const log = (message: string) => structuredLogger.debug(message);
@@ -1,4 +1,7 @@
+import { LRUCache } from 'lru-cache';
+import { getConfig } from '../config/index.js';
 import { structuredLogger } from './pinoLogger.js';
+import { RequestCancelledError } from './cancellation.js';
 
 /**
  * Rate limiter configuration
@@ -10,6 +13,64 @@ interface RateLimiterConfig {
   retryAfterMs?: number;    // Time to wait before retry (optional)
 }
 
+/**
+ * Rate-limit information read from an Exa response's headers
+ */
+export interface RateLimitHeaders {
+  /** Requests allowed per window (X-RateLimit-Limit / RateLimit-Limit) */
+  limit?: number;
+  /** Window of the limit, from a RateLimit-Policy `w=` parameter */
+  windowMs?: number;
+  /** Requests left in the current window */
+  remaining?: number;
+  /** Time until the window resets */
+  resetMs?: number;
+  /** Time to wait before retrying (Retry-After, seconds or HTTP date) */
+  retryAfterMs?: number;
+}
+
+/**
+ * Limits learned from Exa's responses
+ */
+export interface LearnedRateLimit {
+  /** Rate in use: only set when Exa reported both the limit and its window */
+  maxRequests?: number;
+  windowMs?: number;
+  /** Limit Exa reported on the latest response, even without a window */
+  reportedLimit?: number;
+  /** Requests Exa reported left in its window on the latest response */
+  remaining?: number;
+  /** When the latest header values were seen (epoch ms) */
+  updatedAt: number;
+}
+
+/**
+ * Current rate limiter state
+ */
+export interface RateLimiterStatus {
+  tokensAvailable: number;
+  maxTokens: number;
+  timeUntilRefill: number;
+  queueLength: number;
+  /** Effective limit: the learned one when Exa reported it, else the configured one */
+  maxRequests: number;
+  windowMs: number;
+  /** Time left before queued requests resume after a 429 or an exhausted window (0 = not paused) */
+  pausedForMs: number;
+  learned?: LearnedRateLimit;
+}
+
+/**
+ * Request waiting for a token
+ */
+interface QueuedRequest {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timestamp: number;
+  /** Detaches the abort listener once the request leaves the queue */
+  cleanup?: () => void;
+}
+
 /**
  * Rate limit error class
  */
@@ -32,11 +93,10 @@ export class RateLimiter {
   private lastRefill: number;
   private readonly config: Required<RateLimiterConfig>;
   private readonly logger = structuredLogger.child({ component: 'RateLimiter' });
-  private requestQueue: Array<{
-    resolve: () => void;
-    reject: (error: Error) => void;
-    timestamp: number;
-  }> = [];
+  private requestQueue: QueuedRequest[] = [];
+  private queueTimer: NodeJS.Timeout | null = null;
+  private learned: LearnedRateLimit | null = null;
+  private pausedUntil = 0;
 
   constructor(config: RateLimiterConfig) {
     this.config = {
@@ -62,7 +122,7 @@ export class RateLimiter {
    */
   public canProceed(): boolean {
     this.refillTokens();
-    return this.tokens > 0;
+    return this.tokens > 0 && this.getPausedForMs() === 0;
   }
 
   /**
@@ -72,7 +132,7 @@ export class RateLimiter {
   public async consume(): Promise<void> {
     this.refillTokens();
     
-    if (this.tokens > 0) {
+    if (this.canProceed()) {
       this.tokens--;
       this.logger.debug({
         tokensRemaining: this.tokens,
@@ -82,7 +142,7 @@ export class RateLimiter {
     }
 
     // Calculate time until next token
-    const timeUntilNextToken = this.getTimeUntilNextToken();
+    const timeUntilNextToken = this.getWaitMs();
     
     this.logger.warn({
       timeUntilNextToken,
@@ -124,9 +184,15 @@ export class RateLimiter {
 
   /**
    * Queue a request to be executed when a token is available
+   * @param signal Optional abort signal; a cancelled request leaves the queue without consuming a token
    * @returns Promise that resolves when the request can proceed
+   * @throws RequestCancelledError if the signal fires before a token is granted
    */
-  public async queue(): Promise<void> {
+  public async queue(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      throw new RequestCancelledError();
+    }
+
     // Try to consume immediately
     if (this.canProceed()) {
       this.tokens--;
@@ -135,11 +201,28 @@ export class RateLimiter {
 
     // Add to queue
     return new Promise((resolve, reject) => {
-      this.requestQueue.push({
+      const entry: QueuedRequest = {
         resolve,
         reject,
         timestamp: Date.now()
-      });
+      };
+
+      if (signal) {
+        const onAbort = () => {
+          const index = this.requestQueue.indexOf(entry);
+          if (index !== -1) {
+            this.requestQueue.splice(index, 1);
+            this.logger.debug({
+              queueLength: this.requestQueue.length
+            }, 'Queued request cancelled');
+          }
+          reject(new RequestCancelledError());
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        entry.cleanup = () => signal.removeEventListener('abort', onAbort);
+      }
+
+      this.requestQueue.push(entry);
       
       this.logger.debug({
         queueLength: this.requestQueue.length
@@ -153,38 +236,121 @@ export class RateLimiter {
   /**
    * Get current rate limit status
    */
-  public getStatus(): {
-    tokensAvailable: number;
-    maxTokens: number;
-    timeUntilRefill: number;
-    queueLength: number;
-  } {
+  public getStatus(): RateLimiterStatus {
     this.refillTokens();
+    const { maxRequests, windowMs } = this.getLimits();
     
     return {
       tokensAvailable: this.tokens,
-      maxTokens: this.config.maxBurst,
+      maxTokens: this.getMaxBurst(),
       timeUntilRefill: this.getTimeUntilNextToken(),
-      queueLength: this.requestQueue.length
+      queueLength: this.requestQueue.length,
+      maxRequests,
+      windowMs,
+      pausedForMs: this.getPausedForMs(),
+      ...(this.learned && { learned: { ...this.learned } })
     };
   }
 
+  /**
+   * Adapt to what Exa reports on a response: a reported limit replaces the
+   * configured rate when its window is known (RateLimit-Policy `w=`), the
+   * remaining count caps the available tokens, and a 429 (or an exhausted
+   * window) pauses the queue until Retry-After or the reset time.
+   * A limit without a window is only reported: applying "5" per the configured
+   * minute when Exa means per second would throttle the whole server.
+   * @param status HTTP status of the response
+   * @param headers Response headers (lower-case names, as Node delivers them)
+   */
+  public observe(status: number, headers: Record<string, unknown>): void {
+    const info = parseRateLimitHeaders(headers);
+
+    if (info.limit !== undefined || info.remaining !== undefined) {
+      const previous = this.getLimits();
+      this.learned = {
+        ...this.learned,
+        ...(info.limit !== undefined && { reportedLimit: info.limit }),
+        ...(info.limit !== undefined && info.windowMs !== undefined && { maxRequests: info.limit, windowMs: info.windowMs }),
+        remaining: info.remaining,
+        updatedAt: Date.now()
+      };
+      const { maxRequests, windowMs } = this.getLimits();
+      if (maxRequests !== previous.maxRequests || windowMs !== previous.windowMs) {
+        this.logger.info({ maxRequests, windowMs }, 'Rate limit learned from Exa');
+      }
+      this.refillTokens();
+      this.tokens = Math.min(this.tokens, this.getMaxBurst(), info.remaining ?? Infinity);
+    }
+
+    if (status === 429) {
+      this.pause(info.retryAfterMs ?? info.resetMs ?? this.config.retryAfterMs, 'Exa returned 429');
+    } else if (info.remaining === 0 && info.resetMs !== undefined) {
+      this.pause(info.resetMs, 'Exa rate limit window exhausted');
+    }
+  }
+
+  /**
+   * Hold queued and new requests for a while; tokens refill from the end of the pause
+   * @param ms Pause length (ignored when an existing pause lasts longer)
+   * @param reason Logged with the pause
+   */
+  public pause(ms: number, reason: string = 'Paused'): void {
+    const until = Date.now() + Math.max(0, ms);
+    if (until <= this.pausedUntil) {
+      return;
+    }
+    this.pausedUntil = until;
+    this.tokens = 0;
+    this.lastRefill = until;
+
+    this.logger.warn({
+      pausedForMs: until - Date.now(),
+      queueLength: this.requestQueue.length
+    }, reason);
+
+    // Reschedule queue processing for the end of the pause
+    if (this.queueTimer) {
+      clearTimeout(this.queueTimer);
+      this.queueTimer = null;
+    }
+    this.processQueue();
+  }
+
   /**
    * Reset the rate limiter
    */
   public reset(): void {
     this.tokens = this.config.maxBurst;
     this.lastRefill = Date.now();
+    this.learned = null;
+    this.pausedUntil = 0;
+    
+    this.rejectQueued(new Error('Rate limiter reset'));
     
-    // Clear queue
+    this.logger.info('Rate limiter reset');
+  }
+
+  /**
+   * Reject every queued request (used during shutdown)
+   * @param error Error handed to each waiting caller
+   * @returns Number of requests rejected
+   */
+  public rejectQueued(error: Error): number {
+    if (this.queueTimer) {
+      clearTimeout(this.queueTimer);
+      this.queueTimer = null;
+    }
+
+    let rejected = 0;
     while (this.requestQueue.length > 0) {
       const request = this.requestQueue.shift();
       if (request) {
-        request.reject(new Error('Rate limiter reset'));
+        request.cleanup?.();
+        request.reject(error);
+        rejected++;
       }
     }
-    
-    this.logger.info('Rate limiter reset');
+    return rejected;
   }
 
   /**
@@ -193,16 +359,17 @@ export class RateLimiter {
   private refillTokens(): void {
     const now = Date.now();
     const timePassed = now - this.lastRefill;
+    const { maxRequests, windowMs } = this.getLimits();
     
     // Calculate how many tokens to add
     const tokensToAdd = Math.floor(
-      (timePassed / this.config.windowMs) * this.config.maxRequests
+      (timePassed / windowMs) * maxRequests
     );
     
     if (tokensToAdd > 0) {
       this.tokens = Math.min(
         this.tokens + tokensToAdd,
-        this.config.maxBurst
+        this.getMaxBurst()
       );
       this.lastRefill = now;
       
@@ -224,6 +391,7 @@ export class RateLimiter {
       const request = this.requestQueue.shift();
       if (request) {
         this.tokens--;
+        request.cleanup?.();
         request.resolve();
         
         this.logger.debug({
@@ -233,17 +401,49 @@ export class RateLimiter {
     }
     
     // Schedule next queue processing if needed
-    if (this.requestQueue.length > 0) {
-      const timeUntilNextToken = this.getTimeUntilNextToken();
-      setTimeout(() => this.processQueue(), timeUntilNextToken);
+    if (this.requestQueue.length > 0 && !this.queueTimer) {
+      this.queueTimer = setTimeout(() => {
+        this.queueTimer = null;
+        this.processQueue();
+      }, this.getWaitMs());
     }
   }
 
+  /**
+   * Effective rate: the limit Exa reported, else the configured one
+   */
+  private getLimits(): { maxRequests: number; windowMs: number } {
+    return {
+      maxRequests: this.learned?.maxRequests ?? this.config.maxRequests,
+      windowMs: this.learned?.windowMs ?? this.config.windowMs
+    };
+  }
+
+  /**
+   * Configured burst, never above the effective limit
+   */
+  private getMaxBurst(): number {
+    return Math.max(1, Math.min(this.config.maxBurst, this.getLimits().maxRequests));
+  }
+
+  private getPausedForMs(): number {
+    return Math.max(0, this.pausedUntil - Date.now());
+  }
+
+  /**
+   * Time until a request can proceed: the end of a pause, or the next token
+   */
+  private getWaitMs(): number {
+    const pausedForMs = this.getPausedForMs();
+    return pausedForMs > 0 ? Math.ceil(pausedForMs) : this.getTimeUntilNextToken();
+  }
+
   /**
    * Calculate time until next token is available
    */
   private getTimeUntilNextToken(): number {
-    const tokenRefillRate = this.config.windowMs / this.config.maxRequests;
+    const { maxRequests, windowMs } = this.getLimits();
+    const tokenRefillRate = windowMs / maxRequests;
     const timeSinceLastRefill = Date.now() - this.lastRefill;
     const timeUntilNextToken = Math.max(0, tokenRefillRate - timeSinceLastRefill);
     
@@ -258,40 +458,165 @@ export class RateLimiter {
   }
 }
 
+/**
+ * Header value as a number, ignoring list items and parameters ("100, 100;w=60" -> 100)
+ */
+function headerNumber(headers: Record<string, unknown>, names: string[]): number | undefined {
+  for (const name of names) {
+    const value = headers[name];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    const parsed = Number.parseFloat(String(value).split(/[,;]/)[0]);
+    if (Number.isFinite(parsed) && parsed >= 0) {
+      return parsed;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A reset header holds seconds from now, or an epoch timestamp in seconds or milliseconds
+ */
+function resetDelayMs(value: number, now: number): number {
+  if (value >= 1e12) {
+    return Math.max(0, value - now);
+  }
+  if (value >= 1e9) {
+    return Math.max(0, value * 1000 - now);
+  }
+  return value * 1000;
+}
+
+/**
+ * Read rate-limit headers: the X-RateLimit-* family, the IETF RateLimit-*
+ * fields (with a RateLimit-Policy window) and Retry-After
+ * @param headers Response headers with lower-case names
+ */
+export function parseRateLimitHeaders(headers: Record<string, unknown>, now: number = Date.now()): RateLimitHeaders {
+  const info: RateLimitHeaders = {};
+
+  const limit = headerNumber(headers, ['x-ratelimit-limit', 'ratelimit-limit']);
+  if (limit !== undefined && limit >= 1) {
+    info.limit = Math.floor(limit);
+  }
+  const policy = headers['ratelimit-policy'] ?? headers['x-ratelimit-policy'];
+  const window = policy !== undefined ? /;\s*w=(\d+)/.exec(String(policy)) : null;
+  if (window && Number(window[1]) > 0) {
+    info.windowMs = Number(window[1]) * 1000;
+  }
+  const remaining = headerNumber(headers, ['x-ratelimit-remaining', 'ratelimit-remaining']);
+  if (remaining !== undefined) {
+    info.remaining = Math.floor(remaining);
+  }
+  const reset = headerNumber(headers, ['x-ratelimit-reset', 'ratelimit-reset']);
+  if (reset !== undefined) {
+    info.resetMs = resetDelayMs(reset, now);
+  }
+
+  const retryAfter = headers['retry-after'];
+  if (retryAfter !== undefined && retryAfter !== null) {
+    const text = String(retryAfter).trim();
+    if (/^\d+(\.\d+)?$/.test(text)) {
+      info.retryAfterMs = Number(text) * 1000;
+    } else {
+      const date = Date.parse(text);
+      if (!Number.isNaN(date)) {
+        info.retryAfterMs = Math.max(0, date - now);
+      }
+    }
+  }
+  return info;
+}
+
 /**
  * Global rate limiter instance for Exa API
- * Configured based on Exa API limits
+ * Configured from the `rateLimit` config section
  */
 let globalRateLimiter: RateLimiter | null = null;
 
+/**
+ * Limiters for per-session API keys, by key fingerprint; bounded like the per-key Exa clients
+ */
+const tenantRateLimiters = new LRUCache<string, RateLimiter>({ max: 100 });
+
+/**
+ * Limits used when the configuration can't be read (e.g. in tests); same as the schema defaults
+ */
+const FALLBACK_RATE_LIMIT: RateLimiterConfig = {
+  maxRequests: 100,
+  windowMs: 60000,
+  maxBurst: 10,
+  retryAfterMs: 1000
+};
+
 /**
  * Get or create the global rate limiter
- * @param config Optional configuration (used on first call)
+ * @param config Optional configuration (used on first call instead of the `rateLimit` config section)
  */
 export function getGlobalRateLimiter(config?: RateLimiterConfig): RateLimiter {
   if (!globalRateLimiter) {
-    // Default Exa API limits: 100 requests per minute
-    const defaultConfig: RateLimiterConfig = {
-      maxRequests: config?.maxRequests || 100,
-      windowMs: config?.windowMs || 60000, // 1 minute
-      maxBurst: config?.maxBurst || 10,     // Allow burst of 10
-      retryAfterMs: config?.retryAfterMs || 1000 // Retry after 1 second
-    };
-    
-    globalRateLimiter = new RateLimiter(defaultConfig);
+    let limits = config;
+    if (!limits) {
+      try {
+        limits = getConfig().rateLimit;
+      } catch (_error) {
+        // If config validation fails (e.g., in tests), use the schema defaults
+      }
+    }
+    globalRateLimiter = new RateLimiter(limits ?? FALLBACK_RATE_LIMIT);
   }
   
   return globalRateLimiter;
 }
 
 /**
- * Reset the global rate limiter
+ * Get the rate limiter for a tenant's calls.
+ * Per-session API keys have their own Exa limits, so each key fingerprint gets its
+ * own limiter (starting from the configured limits); calls with the shared key use
+ * the global one.
+ * @param tenant Key fingerprint of a per-session API key, or undefined for the shared key
+ */
+export function getTenantRateLimiter(tenant?: string): RateLimiter {
+  if (tenant === undefined) {
+    return getGlobalRateLimiter();
+  }
+  let limiter = tenantRateLimiters.get(tenant);
+  if (!limiter) {
+    let limits: RateLimiterConfig | undefined;
+    try {
+      limits = getConfig().rateLimit;
+    } catch (_error) {
+      // If config validation fails (e.g., in tests), use the schema defaults
+    }
+    limiter = new RateLimiter(limits ?? FALLBACK_RATE_LIMIT);
+    tenantRateLimiters.set(tenant, limiter);
+  }
+  return limiter;
+}
+
+/**
+ * Reset the global rate limiter and drop the per-tenant ones
  */
 export function resetGlobalRateLimiter(): void {
   if (globalRateLimiter) {
     globalRateLimiter.reset();
   }
   globalRateLimiter = null;
+  tenantRateLimiters.forEach(limiter => limiter.reset());
+  tenantRateLimiters.clear();
+}
+
+/**
+ * Reject requests queued on the global and per-tenant rate limiters
+ * @returns Number of requests rejected
+ */
+export function rejectGlobalRateLimiterQueue(error: Error): number {
+  let rejected = globalRateLimiter ? globalRateLimiter.rejectQueued(error) : 0;
+  tenantRateLimiters.forEach(limiter => {
+    rejected += limiter.rejectQueued(error);
+  });
+  return rejected;
 }
 
 /**
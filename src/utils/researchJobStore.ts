@@ -0,0 +1,301 @@
+import * as fs from "fs";
+import { randomUUID } from "crypto";
+import * as os from "os";
+import * as path from "path";
+import { structuredLogger } from "./pinoLogger.js";
+
+/**
+ * Research task status: Exa's task states plus `cancelled` for tasks a client stopped tracking
+ */
+export type ResearchJobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Research task started with `deep_research` in async mode
+ */
+export interface ResearchJob {
+  taskId: string;
+  objective: string;
+  model?: string;
+  /** Whether an outputSchema was requested, i.e. the result is structured data */
+  structured: boolean;
+  status: ResearchJobStatus;
+  /** Tenant fingerprint for per-session API keys; absent for the shared key */
+  tenant?: string;
+  /** Estimated run time reported when the task was created (seconds) */
+  estimatedTime?: number;
+  /** 0-100, as last reported by Exa */
+  progress?: number;
+  currentStep?: string;
+  error?: string;
+  /** ISO 8601 */
+  createdAt: string;
+  /** ISO 8601 */
+  updatedAt: string;
+}
+
+/**
+ * Filters for listing jobs
+ */
+export interface ResearchJobFilter {
+  tenant?: string;
+  status?: ResearchJobStatus;
+  limit?: number;
+}
+
+/**
+ * Statuses after which a task no longer changes
+ */
+export const FINAL_RESEARCH_STATUSES: readonly ResearchJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * A lock file older than this is left over from a crashed process and is taken over
+ */
+const STALE_LOCK_MS = 10000;
+
+/**
+ * How long to wait between attempts to take the lock
+ */
+const LOCK_RETRY_MS = 10;
+
+/**
+ * Default job file: `$XDG_STATE_HOME/exa-mcp/research-jobs.json` (or `~/.local/state/...`)
+ */
+export function getDefaultResearchJobsFile(): string {
+  const stateHome = process.env.XDG_STATE_HOME || path.join(os.homedir(), '.local', 'state');
+  return path.join(stateHome, 'exa-mcp', 'research-jobs.json');
+}
+
+/**
+ * Persists research job metadata to a JSON file so a restarted server can
+ * still report on and fetch results of tasks it started. Results themselves
+ * stay with Exa and are fetched by task id.
+ *
+ * The file is re-read before every operation and replaced atomically, and
+ * every read-modify-write holds a lock file (`<file>.lock`), so several server
+ * processes can share it without dropping each other's jobs. Waiting for the
+ * lock doesn't block the event loop. If it isn't released within
+ * `lockTimeoutMs` the change is logged and dropped rather than written unlocked
+ * or failing the tool call. Only the newest `maxJobs` jobs are kept.
+ */
+export class ResearchJobStore {
+  private readonly logger = structuredLogger.child({ component: 'ResearchJobStore' });
+  private readonly lockPath: string;
+  // Changes from this process take the file lock one at a time
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    readonly filePath: string = getDefaultResearchJobsFile(),
+    private readonly maxJobs: number = 200,
+    private readonly lockTimeoutMs: number = 2000
+  ) {
+    this.lockPath = `${filePath}.lock`;
+  }
+
+  /**
+   * Record a newly created task
+   * @returns The record, also when it couldn't be saved (see the class comment)
+   */
+  async add(job: Omit<ResearchJob, 'createdAt' | 'updatedAt'>): Promise<ResearchJob> {
+    const now = new Date().toISOString();
+    const record: ResearchJob = { ...job, createdAt: now, updatedAt: now };
+    await this.withLock(() => {
+      const jobs = this.read().filter(existing => existing.taskId !== job.taskId);
+      jobs.push(record);
+      this.write(jobs);
+    });
+    return record;
+  }
+
+  /**
+   * Look up a job; jobs of other tenants are invisible
+   */
+  get(taskId: string, tenant?: string): ResearchJob | undefined {
+    return this.read().find(job => job.taskId === taskId && job.tenant === tenant);
+  }
+
+  /**
+   * Apply changes to a job
+   * @returns The updated job, or undefined if it doesn't exist for this tenant or couldn't be saved
+   */
+  async update(
+    taskId: string,
+    changes: Partial<Pick<ResearchJob, 'status' | 'progress' | 'currentStep' | 'error'>>,
+    tenant?: string
+  ): Promise<ResearchJob | undefined> {
+    return this.withLock(() => {
+      const jobs = this.read();
+      const index = jobs.findIndex(job => job.taskId === taskId && job.tenant === tenant);
+      if (index === -1) {
+        return undefined;
+      }
+      jobs[index] = { ...jobs[index], ...changes, updatedAt: new Date().toISOString() };
+      this.write(jobs);
+      return jobs[index];
+    });
+  }
+
+  /**
+   * Jobs of a tenant, newest first
+   */
+  list(filter: ResearchJobFilter = {}): ResearchJob[] {
+    const jobs = this.read()
+      .filter(job => job.tenant === filter.tenant && (!filter.status || job.status === filter.status))
+      .reverse();
+    return filter.limit !== undefined ? jobs.slice(0, filter.limit) : jobs;
+  }
+
+  /**
+   * Run a read-modify-write while holding the lock file, so concurrent
+   * processes can't overwrite each other's changes
+   * @returns The update's result, or undefined when the lock couldn't be taken
+   */
+  private withLock<T>(update: () => T): Promise<T | undefined> {
+    const run = async (): Promise<T | undefined> => {
+      const token = await this.acquireLock();
+      if (!token) {
+        return undefined;
+      }
+      try {
+        return update();
+      } finally {
+        await this.releaseLock(token);
+      }
+    };
+    const result = this.pending.then(run, run);
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Create the lock file, waiting for another holder and taking over stale locks
+   * @returns The token written to the lock file, or undefined after a timeout or an I/O error
+   */
+  private async acquireLock(): Promise<string | undefined> {
+    const token = `${process.pid}:${randomUUID()}`;
+    const deadline = Date.now() + this.lockTimeoutMs;
+    for (;;) {
+      try {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.promises.writeFile(this.lockPath, token, { flag: 'wx' });
+        return token;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          this.logger.warn({ lockPath: this.lockPath, error: error instanceof Error ? error.message : String(error) }, 'Cannot lock research job file; change not saved');
+          return undefined;
+        }
+      }
+      if (await this.takeOverStaleLock(token)) {
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        this.logger.warn({ lockPath: this.lockPath }, 'Timed out waiting for the research job file lock; change not saved');
+        return undefined;
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  /**
+   * Move a stale lock out of the way. The lock is renamed rather than deleted, so
+   * of several processes that find it stale only one removes it; a lock that
+   * turns out to have been replaced in the meantime is put back.
+   * @returns Whether the lock was missing or removed, so taking it can be retried at once
+   */
+  private async takeOverStaleLock(token: string): Promise<boolean> {
+    let staleHolder: string;
+    try {
+      const stats = await fs.promises.stat(this.lockPath);
+      if (Date.now() - stats.mtimeMs <= STALE_LOCK_MS) {
+        return false;
+      }
+      staleHolder = await fs.promises.readFile(this.lockPath, 'utf8');
+    } catch {
+      // Released between the attempts
+      return true;
+    }
+
+    const movedPath = `${this.lockPath}.${token.replace(':', '.')}.stale`;
+    try {
+      await fs.promises.rename(this.lockPath, movedPath);
+    } catch {
+      // Another process moved it first
+      return true;
+    }
+    try {
+      if (await fs.promises.readFile(movedPath, 'utf8') !== staleHolder) {
+        // A live lock replaced the stale one before the rename: restore it unless taken again
+        await fs.promises.link(movedPath, this.lockPath).catch(() => undefined);
+      } else {
+        this.logger.warn({ lockPath: this.lockPath, holder: staleHolder }, 'Took over a stale research job file lock');
+      }
+    } finally {
+      await fs.promises.rm(movedPath, { force: true });
+    }
+    return true;
+  }
+
+  /**
+   * Remove the lock file if it is still ours
+   */
+  private async releaseLock(token: string): Promise<void> {
+    try {
+      if (await fs.promises.readFile(this.lockPath, 'utf8') === token) {
+        await fs.promises.rm(this.lockPath, { force: true });
+      }
+    } catch {
+      // Already gone
+    }
+  }
+
+  /**
+   * Jobs in creation order. A missing file is an empty store; an unreadable one is logged and ignored.
+   */
+  private read(): ResearchJob[] {
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as { jobs?: unknown };
+      return Array.isArray(parsed.jobs)
+        ? parsed.jobs.filter((job): job is ResearchJob => typeof job?.taskId === 'string')
+        : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn({ filePath: this.filePath, error: error instanceof Error ? error.message : String(error) }, 'Ignoring unreadable research job file');
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Write via a temp file and rename, so readers never see a partial file.
+   * Failures are logged: losing job metadata must not fail the tool call.
+   */
+  private write(jobs: ResearchJob[]): void {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(tempPath, JSON.stringify({ jobs: jobs.slice(-this.maxJobs) }, null, 2));
+      fs.renameSync(tempPath, this.filePath);
+    } catch (error) {
+      this.logger.warn({ filePath: this.filePath, error: error instanceof Error ? error.message : String(error) }, 'Failed to save research jobs');
+    }
+  }
+}
+
+let globalResearchJobStore: ResearchJobStore | null = null;
+
+/**
+ * Get or create the shared job store
+ * @param filePath Job file (used on first call; defaults to getDefaultResearchJobsFile())
+ */
+export function getResearchJobStore(filePath?: string): ResearchJobStore {
+  if (!globalResearchJobStore) {
+    globalResearchJobStore = new ResearchJobStore(filePath);
+  }
+  return globalResearchJobStore;
+}
+
+/**
+ * Drop the shared job store (useful for testing)
+ */
+export function resetResearchJobStore(): void {
+  globalResearchJobStore = null;
+}
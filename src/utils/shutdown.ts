@@ -0,0 +1,200 @@
+import { structuredLogger, flushLogger } from './pinoLogger.js';
+import { rejectGlobalRateLimiterQueue } from './rateLimiter.js';
+import { ServiceFactory } from './factory.js';
+import { resetMemoryOptimizer } from './memoryOptimizer.js';
+
+/**
+ * Thrown for work rejected because the server is shutting down
+ */
+export class ServerShuttingDownError extends Error {
+  constructor(message: string = 'Server is shutting down') {
+    super(message);
+    this.name = 'ServerShuttingDownError';
+  }
+}
+
+/**
+ * Shutdown configuration
+ */
+export interface ShutdownOptions {
+  /** How long to wait for active tool calls before aborting them */
+  drainTimeoutMs: number;
+}
+
+/**
+ * Tool call currently being handled
+ */
+interface ActiveCall {
+  controller: AbortController;
+  done: Promise<void>;
+}
+
+/**
+ * Coordinates graceful shutdown: tracks active tool calls, drains them on
+ * SIGINT/SIGTERM and then tears down transports, services and the logger.
+ *
+ * Sequence:
+ * 1. Stop accepting new calls
+ * 2. Reject requests still waiting in the rate limiter queue
+ * 3. Wait up to drainTimeoutMs for active calls, then abort the rest
+ * 4. Close transports (registered via onClose)
+ * 5. Flush RequestBatchers and stop services (ServiceFactory.reset())
+ * 6. Flush the logger
+ */
+export class ShutdownManager {
+  private readonly active = new Set<ActiveCall>();
+  private readonly closers: Array<() => Promise<void> | void> = [];
+  private readonly logger = structuredLogger.child({ component: 'ShutdownManager' });
+  private shutdownPromise: Promise<void> | null = null;
+
+  constructor(private readonly options: ShutdownOptions) {}
+
+  isShuttingDown(): boolean {
+    return this.shutdownPromise !== null;
+  }
+
+  getActiveCount(): number {
+    return this.active.size;
+  }
+
+  /**
+   * Register cleanup run after active calls have drained (e.g. closing a transport)
+   */
+  onClose(closer: () => Promise<void> | void): void {
+    this.closers.push(closer);
+  }
+
+  /**
+   * Run a tool call while tracking it for draining.
+   * The callback receives a signal that fires when either the client cancels
+   * (`signal`) or the drain timeout expires.
+   * @throws ServerShuttingDownError if shutdown has started
+   */
+  async run<T>(signal: AbortSignal | undefined, fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    if (this.isShuttingDown()) {
+      throw new ServerShuttingDownError();
+    }
+
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort();
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener('abort', forwardAbort, { once: true });
+    }
+
+    let finish!: () => void;
+    const call: ActiveCall = { controller, done: new Promise<void>(resolve => { finish = resolve; }) };
+    this.active.add(call);
+
+    try {
+      return await fn(controller.signal);
+    } finally {
+      signal?.removeEventListener('abort', forwardAbort);
+      this.active.delete(call);
+      finish();
+    }
+  }
+
+  /**
+   * Run the shutdown sequence. Safe to call more than once; later calls
+   * return the same promise.
+   */
+  shutdown(reason: string): Promise<void> {
+    if (!this.shutdownPromise) {
+      this.shutdownPromise = this.performShutdown(reason);
+    }
+    return this.shutdownPromise;
+  }
+
+  private async performShutdown(reason: string): Promise<void> {
+    this.logger.info({ reason, activeCalls: this.active.size, drainTimeoutMs: this.options.drainTimeoutMs }, 'Shutting down');
+
+    const shuttingDown = new ServerShuttingDownError();
+    let rejected = rejectGlobalRateLimiterQueue(shuttingDown);
+    if (ServiceFactory.hasInstance('rateLimiter')) {
+      rejected += ServiceFactory.getRateLimiter().rejectQueued(shuttingDown);
+    }
+    if (rejected > 0) {
+      this.logger.info({ rejected }, 'Rejected queued requests');
+    }
+
+    const drained = await this.drain();
+    if (!drained) {
+      this.logger.warn({ activeCalls: this.active.size }, 'Drain timeout reached, aborting remaining calls');
+      for (const call of this.active) {
+        call.controller.abort();
+      }
+    }
+
+    for (const closer of this.closers) {
+      try {
+        await closer();
+      } catch (error) {
+        this.logger.warn({ error: error instanceof Error ? error.message : String(error) }, 'Error during shutdown cleanup');
+      }
+    }
+
+    try {
+      await ServiceFactory.flushRequestBatchers();
+    } catch (error) {
+      this.logger.warn({ error: error instanceof Error ? error.message : String(error) }, 'Failed to flush request batchers');
+    }
+    ServiceFactory.reset();
+    resetMemoryOptimizer();
+
+    this.logger.info('Shutdown complete');
+    await flushLogger();
+  }
+
+  /**
+   * Wait for active calls to finish
+   * @returns false if the drain timeout expired first
+   */
+  private async drain(): Promise<boolean> {
+    if (this.active.size === 0) {
+      return true;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<boolean>(resolve => {
+      timer = setTimeout(() => resolve(false), this.options.drainTimeoutMs);
+    });
+    const allDone = Promise.all(Array.from(this.active).map(call => call.done)).then(() => true);
+
+    try {
+      return await Promise.race([allDone, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Run `manager.shutdown()` on SIGINT/SIGTERM and exit once it completes.
+ * A second signal exits immediately.
+ * @returns Function that removes the handlers
+ */
+export function installSignalHandlers(manager: ShutdownManager, exit: (code: number) => void = process.exit): () => void {
+  const handler = (signal: NodeJS.Signals) => {
+    if (manager.isShuttingDown()) {
+      structuredLogger.warn({ signal }, 'Received second shutdown signal, exiting immediately');
+      exit(1);
+      return;
+    }
+    manager.shutdown(signal).then(
+      () => exit(0),
+      (error) => {
+        structuredLogger.error({ error: error instanceof Error ? error.message : String(error) }, 'Shutdown failed');
+        exit(1);
+      }
+    );
+  };
+
+  process.on('SIGINT', handler);
+  process.on('SIGTERM', handler);
+  return () => {
+    process.off('SIGINT', handler);
+    process.off('SIGTERM', handler);
+  };
+}
@@ -1,24 +1,49 @@
 import * as fs from "fs";
 import * as path from "path";
 
+const HEADER = "timestamp,tool,status,note,tenant";
+
+// Files whose header has been checked by this process
+const checkedFiles = new Set<string>();
+
+/**
+ * Make sure the CSV starts with the current header. A file written before the
+ * tenant column existed is moved aside (`exa-usage.<timestamp>.csv`) so both
+ * files stay parseable, and a new file is started.
+ */
+function ensureHeader(csvPath: string, ts: string): void {
+  if (checkedFiles.has(csvPath) && fs.existsSync(csvPath)) {
+    return;
+  }
+  if (fs.existsSync(csvPath)) {
+    const firstLine = fs.readFileSync(csvPath, "utf8").split("\n", 1)[0];
+    if (firstLine !== HEADER) {
+      const stamp = ts.replace(/[-:]/g, "");
+      fs.renameSync(csvPath, csvPath.replace(/(\.csv)?$/, `.${stamp}$1`));
+    }
+  }
+  if (!fs.existsSync(csvPath)) {
+    fs.mkdirSync(path.dirname(csvPath), { recursive: true });
+    fs.writeFileSync(csvPath, `${HEADER}\n`);
+  }
+  checkedFiles.add(csvPath);
+}
+
 /**
  * Appends one line to the Exa usage CSV.
- * Status values: ok | quota_error | rate_limit | unavailable | error
+ * Status values: ok | cache_hit | coalesced | cancelled | quota_error | rate_limit | unavailable | error
+ * Tenant is "shared" for the server-wide key, or a key fingerprint for per-session keys.
  */
-export function logExaUsage(toolName: string, status: string, note = ""): void {
+export function logExaUsage(toolName: string, status: string, note = "", tenant = "shared"): void {
   try {
     const csvPath = process.env.EXA_USAGE_CSV ??
       path.join("/home/agent/workspace/metrics", "exa-usage.csv");
 
     const ts = new Date().toISOString().replace(/\.\d{3}Z$/, "Z");
     const safeNote = note.replace(/,/g, ";").replace(/\n/g, " ").slice(0, 120);
-    const line = `${ts},${toolName},${status},${safeNote}\n`;
+    const line = `${ts},${toolName},${status},${safeNote},${tenant}\n`;
 
-    // Ensure the header exists before the first append
-    if (!fs.existsSync(csvPath)) {
-      fs.mkdirSync(path.dirname(csvPath), { recursive: true });
-      fs.writeFileSync(csvPath, "timestamp,tool,status,note\n");
-    }
+    ensureHeader(csvPath, ts);
     fs.appendFileSync(csvPath, line);
   } catch {
     // Never let logging crash the tool